@@ -8,6 +8,8 @@ import { render } from 'ink';
 import { App } from '../ui/App.js';
 import { FullscreenApp } from '../ui/FullscreenApp.js';
 import type { McpState, McpToolResult } from './types.js';
+import type { McpClient } from '../mcp/client.js';
+import type { SessionTranscript } from './sessions.js';
 
 /**
  * Chat options
@@ -21,8 +23,12 @@ export interface ChatOptions {
         args: Record<string, unknown>
     ) => Promise<McpToolResult>;
     debug?: boolean;
+    /** Connected MCP client, for prompt commands and @server:uri attachments */
+    mcpClient?: McpClient;
     wechatService?: import('../wechat/service.js').WechatGatewayService;
     modelTier?: 'lite' | 'flash' | 'pro';
+    /** Stored session to continue (--resume / --continue) */
+    session?: SessionTranscript;
 }
 
 /**
@@ -45,7 +51,7 @@ function exitAlternateScreen(): void {
  * Start the interactive chat loop using Ink (inline mode)
  */
 export async function startChat(options: ChatOptions = {}): Promise<void> {
-    const { mcpState, onMcpToolCall, debug } = options;
+    const { mcpState, onMcpToolCall, debug, mcpClient, session, modelTier } = options;
 
     // Render the Ink application
     const { waitUntilExit } = render(
@@ -53,6 +59,9 @@ export async function startChat(options: ChatOptions = {}): Promise<void> {
             mcpState={mcpState}
             onMcpToolCall={onMcpToolCall}
             debug={debug}
+            mcpClient={mcpClient}
+            session={session}
+            modelTier={modelTier}
         />
     );
 
@@ -64,7 +73,7 @@ export async function startChat(options: ChatOptions = {}): Promise<void> {
  * Start the interactive chat loop in fullscreen mode
  */
 export async function startFullscreenChat(options: ChatOptions = {}): Promise<void> {
-    const { mcpState, onMcpToolCall, debug } = options;
+    const { mcpState, onMcpToolCall, debug, mcpClient, session, modelTier } = options;
 
     // Enter alternate screen buffer
     enterAlternateScreen();
@@ -76,6 +85,9 @@ export async function startFullscreenChat(options: ChatOptions = {}): Promise<vo
                 mcpState={mcpState}
                 onMcpToolCall={onMcpToolCall}
                 debug={debug}
+                mcpClient={mcpClient}
+                session={session}
+                modelTier={modelTier}
             />
         );
 
@@ -98,8 +110,10 @@ export async function startScrollingChat(options: ChatOptions = {}): Promise<voi
         mcpState: options.mcpState,
         onMcpToolCall: options.onMcpToolCall,
         debug: options.debug,
+        mcpClient: options.mcpClient,
         wechatService: options.wechatService,
         modelTier: options.modelTier,
+        session: options.session,
     });
     await app.start();
 }
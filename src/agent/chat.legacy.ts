@@ -32,6 +32,8 @@ import {
     type CliModeOptions,
 } from './cli-mode.js';
 import type { McpState, McpToolResult, AgentStreamCallbacks } from './types.js';
+import { auditToolCall } from '../mcp/audit.js';
+import { formatRedactionReport } from '../mcp/redaction.js';
 
 /**
  * Chat options
@@ -246,11 +248,9 @@ export async function startChat(options: ChatOptions = {}): Promise<void> {
 
                 if (onMcpToolCall) {
                     try {
-                        const result = await onMcpToolCall(
-                            callId,
-                            serverName,
-                            toolName,
-                            args
+                        const result = await auditToolCall(
+                            { channel: 'cli', conversationId, callId, serverName, toolName, args },
+                            () => onMcpToolCall(callId, serverName, toolName, args),
                         );
                         console.log(
                             chalk.dim(`  ✓ MCP: ${serverName} → ${toolName} completed`)
@@ -282,6 +282,14 @@ export async function startChat(options: ChatOptions = {}): Promise<void> {
                 };
             },
 
+            onRedaction: (_callId, toolName, report) => {
+                if (options.debug) {
+                    process.stdout.write('\r\x1b[K');
+                    console.log(chalk.dim(`  🔒 ${toolName}: ${formatRedactionReport(report)}`));
+                    process.stdout.write(renderThinking());
+                }
+            },
+
             onDone: (convId) => {
                 conversationId = convId;
                 // Clear thinking indicator
@@ -355,7 +363,10 @@ export async function sendMessage(
 
             onMcpToolCall: async (callId, serverName, toolName, args) => {
                 if (onMcpToolCall) {
-                    return onMcpToolCall(callId, serverName, toolName, args);
+                    return auditToolCall(
+                        { channel: 'cli', callId, serverName, toolName, args },
+                        () => onMcpToolCall(callId, serverName, toolName, args),
+                    );
                 }
                 return {
                     content: [{ type: 'text' as const, text: 'MCP not available' }],
@@ -363,6 +374,12 @@ export async function sendMessage(
                 };
             },
 
+            onRedaction: (_callId, toolName, report) => {
+                if (options.debug) {
+                    console.error(chalk.dim(`🔒 ${toolName}: ${formatRedactionReport(report)}`));
+                }
+            },
+
             onDone: () => {
                 // Render based on mode
                 const rendered = cliModeEnabled
@@ -65,6 +65,8 @@ IMPORTANT rules for tool calls:
   specific directory.
 - paean_list_directory with dirPath set to an absolute path like "/Users/ryan/a8e/scripts"
   will list that exact directory, not the project root.
+- Use paean_grep (content search) and paean_glob (find files by pattern) instead of
+  running grep/find through paean_execute_shell.
 - You have full access to the local filesystem. Do NOT claim you cannot access local
   files or directories.
 `;
@@ -12,6 +12,10 @@ export interface CommandDef {
     name: string;
     description: string;
     aliases?: string[];
+    /** MCP server whose prompt backs this command */
+    server?: string;
+    /** Plugin that contributed this command */
+    plugin?: string;
 }
 
 /**
@@ -22,14 +26,39 @@ export const COMMANDS: CommandDef[] = [
     { name: '/quit', description: 'Exit the chat session' },
     { name: '/clear', description: 'Clear the screen', aliases: ['/cls'] },
     { name: '/help', description: 'Show available commands', aliases: ['/h', '/?'] },
-    { name: '/model', description: 'Switch AI model' },
+    { name: '/model', description: 'Show or switch the model tier (lite, flash, pro)' },
     { name: '/debug', description: 'Toggle debug mode' },
     { name: '/mcp', description: 'Show MCP connection status' },
-    { name: '/history', description: 'Show conversation history' },
-    { name: '/export', description: 'Export conversation to file' },
+    { name: '/jobs', description: 'List background jobs' },
+    { name: '/history', description: 'Page through the session history' },
+    { name: '/export', description: 'Export the session to a file (md, json, html)' },
     { name: '/raw', description: 'Toggle raw output mode (no markdown)' },
 ];
 
+/**
+ * Replace the slash commands contributed by MCP server prompts
+ */
+export function setMcpPromptCommands(commands: CommandDef[]): void {
+    for (let i = COMMANDS.length - 1; i >= 0; i--) {
+        if (COMMANDS[i].server) {
+            COMMANDS.splice(i, 1);
+        }
+    }
+    COMMANDS.push(...commands);
+}
+
+/**
+ * Replace the slash commands contributed by plugins
+ */
+export function setPluginCommands(commands: CommandDef[]): void {
+    for (let i = COMMANDS.length - 1; i >= 0; i--) {
+        if (COMMANDS[i].plugin) {
+            COMMANDS.splice(i, 1);
+        }
+    }
+    COMMANDS.push(...commands);
+}
+
 /**
  * Get all command names (including aliases)
  */
@@ -56,7 +85,7 @@ export function commandCompleter(line: string): [string[], string] {
     }
 
     const allNames = getAllCommandNames();
-    const matches = allNames.filter(name => name.startsWith(line.toLowerCase()));
+    const matches = allNames.filter(name => name.toLowerCase().startsWith(line.toLowerCase()));
 
     // If exact match exists, return it
     if (matches.length === 1) {
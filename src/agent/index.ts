@@ -3,7 +3,30 @@
  * Export agent functionality
  */
 
-export { AgentService, agentService } from './service.js';
+export { AgentService, agentService, PaeanCloudProvider, getInferenceProvider } from './service.js';
+export { OpenAICompatibleProvider } from './openai-provider.js';
+export {
+    INFERENCE_PROVIDER_NAMES,
+    getInferenceProviderName,
+    setInferenceProviderName,
+    isInferenceProviderName,
+    CLI_MODEL_TIERS,
+    isCliModelTier,
+} from './provider.js';
+export type { InferenceProvider, InferenceProviderName, StreamOptions, CliModelTier, ConversationMessage } from './provider.js';
+export {
+    SessionTranscript,
+    listSessions,
+    findSession,
+    getLatestSession,
+    deleteSession,
+    getSessionsDir,
+    getSessionHistoryPage,
+    getConversationHistory,
+} from './sessions.js';
+export type { SessionRecord, SessionSummary, SessionHistoryEntry, SessionHistoryPage } from './sessions.js';
+export { exportSession, formatSession, SESSION_EXPORT_FORMATS } from './session-export.js';
+export type { SessionExportFormat } from './session-export.js';
 export { startChat, sendMessage } from './chat.ink.js';
 export {
     renderMarkdown,
@@ -0,0 +1,447 @@
+/**
+ * OpenAI-Compatible Provider
+ * Runs the agent loop locally against a Chat Completions server (llama.cpp,
+ * vLLM, Ollama, LM Studio, OpenAI, ...)
+ *
+ * The MCP tools in `McpState` and the built-in system tools are sent as
+ * function definitions; tool calls run through `callbacks.onMcpToolCall` and
+ * the results go back to the model until it answers without calling a tool.
+ */
+
+import { randomUUID } from 'crypto';
+import { getConfigValue, getConfigPath } from '../utils/config.js';
+import { getSystemTools, SYSTEM_TOOL_NAMES } from '../mcp/system.js';
+import { redactToolResult } from '../mcp/redaction.js';
+import { buildEnvironmentPrompt, CLI_MODE_PROMPT } from './cli-mode.js';
+import { extractErrorMessage, type InferenceProvider, type StreamOptions } from './provider.js';
+import type { AgentStreamCallbacks, McpState, McpToolResult } from './types.js';
+
+/** llama.cpp's `llama-server` default address */
+const DEFAULT_BASE_URL = 'http://127.0.0.1:8080/v1';
+const DEFAULT_MAX_TOOL_ROUNDS = 25;
+/** Conversations kept in memory for follow-up messages */
+const MAX_CONVERSATIONS = 20;
+/**
+ * Server name passed to onMcpToolCall for built-in system tools; it is never
+ * a connected server, so the call runs in-process
+ */
+const SYSTEM_TOOLS_SERVER = 'paean-system';
+
+interface OpenAISettings {
+    baseUrl: string;
+    apiKey?: string;
+    model?: string;
+    maxToolRounds: number;
+}
+
+interface ChatToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+type ChatMessage =
+    | { role: 'system' | 'user'; content: string }
+    | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+interface ChatTool {
+    type: 'function';
+    function: { name: string; description: string; parameters: Record<string, unknown> };
+}
+
+/** Function name -> the MCP server and tool it calls */
+type ToolRoutes = Map<string, { serverName: string; toolName: string }>;
+
+const conversations = new Map<string, ChatMessage[]>();
+const detectedModels = new Map<string, string>();
+
+/**
+ * Read the provider settings (environment variables win over the `openai` config key)
+ */
+function getSettings(): OpenAISettings {
+    const configured = getConfigValue('openai') ?? {};
+    const baseUrl = process.env.OPENPAEAN_OPENAI_BASE_URL
+        || configured.baseUrl
+        || process.env.OPENAI_BASE_URL
+        || DEFAULT_BASE_URL;
+    return {
+        baseUrl: baseUrl.replace(/\/+$/, ''),
+        apiKey: process.env.OPENPAEAN_OPENAI_API_KEY || configured.apiKey || process.env.OPENAI_API_KEY,
+        model: process.env.OPENPAEAN_OPENAI_MODEL || configured.model,
+        maxToolRounds: configured.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS,
+    };
+}
+
+function buildHeaders(settings: OpenAISettings): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+        headers.Authorization = `Bearer ${settings.apiKey}`;
+    }
+    return headers;
+}
+
+/**
+ * Turn a fetch failure into a message that names the server
+ */
+function describeFetchError(error: unknown, settings: OpenAISettings): string {
+    const cause = (error as { cause?: { message?: string } })?.cause;
+    const message = cause?.message || extractErrorMessage(error);
+    return `Could not reach ${settings.baseUrl}: ${message}`;
+}
+
+/**
+ * Read the error message of a failed response
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+    const fallback = `HTTP ${response.status}`;
+    try {
+        const text = await response.text();
+        try {
+            return extractErrorMessage(JSON.parse(text)) || fallback;
+        } catch {
+            return text.trim() || response.statusText || fallback;
+        }
+    } catch {
+        return response.statusText || fallback;
+    }
+}
+
+/**
+ * Use the first model the server lists when none is configured
+ */
+async function detectModel(settings: OpenAISettings, signal: AbortSignal): Promise<string> {
+    const cached = detectedModels.get(settings.baseUrl);
+    if (cached) return cached;
+
+    const missing = `No model configured. Set "openai.model" in ${getConfigPath()} or OPENPAEAN_OPENAI_MODEL`;
+    let response: Response;
+    try {
+        response = await fetch(`${settings.baseUrl}/models`, { headers: buildHeaders(settings), signal });
+    } catch (error) {
+        if (signal.aborted) throw error;
+        throw new Error(describeFetchError(error, settings));
+    }
+    if (!response.ok) {
+        throw new Error(missing);
+    }
+    const data = await response.json().catch(() => null) as { data?: Array<{ id?: string }> } | null;
+    const model = data?.data?.find(entry => typeof entry.id === 'string')?.id;
+    if (!model) {
+        throw new Error(missing);
+    }
+    detectedModels.set(settings.baseUrl, model);
+    return model;
+}
+
+/**
+ * Build function definitions for the system tools and the tools in McpState
+ */
+function buildTools(mcpState: McpState | undefined): { tools: ChatTool[]; routes: ToolRoutes } {
+    const tools: ChatTool[] = [];
+    const routes: ToolRoutes = new Map();
+
+    const add = (
+        serverName: string,
+        tool: { name: string; description?: string; inputSchema?: Record<string, unknown> }
+    ) => {
+        // Function names are limited to [a-zA-Z0-9_-]{1,64}
+        const base = tool.name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64) || 'tool';
+        let name = base;
+        for (let n = 2; routes.has(name); n++) {
+            name = `${base.slice(0, 60)}_${n}`;
+        }
+        routes.set(name, { serverName, toolName: tool.name });
+        tools.push({
+            type: 'function',
+            function: {
+                name,
+                description: tool.description ?? '',
+                parameters: { type: 'object', properties: {}, ...(tool.inputSchema ?? {}) },
+            },
+        });
+    };
+
+    for (const tool of getSystemTools()) {
+        if (SYSTEM_TOOL_NAMES.has(tool.name)) {
+            add(SYSTEM_TOOLS_SERVER, tool as { name: string; description?: string; inputSchema: Record<string, unknown> });
+        }
+    }
+    for (const server of mcpState?.mcpServers ?? []) {
+        if (!server.connected) continue;
+        for (const tool of server.tools) {
+            add(server.name, tool);
+        }
+    }
+
+    return { tools, routes };
+}
+
+function buildSystemPrompt(options: StreamOptions | undefined): string {
+    const parts = [
+        'You are OpenPaean, an AI assistant running on the user\'s machine. ' +
+        'Use the available tools to inspect and change local files, run commands ' +
+        'and get the user\'s tasks done. Answer directly when no tool is needed.',
+        buildEnvironmentPrompt(options?.cliMode?.channel),
+    ];
+    if (options?.cliMode?.enabled) {
+        parts.push(CLI_MODE_PROMPT);
+    }
+    return parts.join('\n');
+}
+
+/**
+ * Render a tool result as the text of a `tool` message
+ */
+function formatToolResult(result: McpToolResult): string {
+    const text = result.content
+        .map((item) => {
+            if (item.type === 'text' || item.type === 'resource') return item.text ?? '';
+            return `[${item.type}${item.mimeType ? `: ${item.mimeType}` : ''}]`;
+        })
+        .filter(Boolean)
+        .join('\n');
+    if (!result.isError) return text || '(no output)';
+    return text.startsWith('Error') ? text : `Error: ${text || 'tool call failed'}`;
+}
+
+function remember(conversationId: string, messages: ChatMessage[]): void {
+    conversations.delete(conversationId);
+    conversations.set(conversationId, messages);
+    while (conversations.size > MAX_CONVERSATIONS) {
+        const oldest = conversations.keys().next().value as string;
+        conversations.delete(oldest);
+    }
+}
+
+/**
+ * Inference provider for OpenAI-compatible Chat Completions servers
+ */
+export class OpenAICompatibleProvider implements InferenceProvider {
+    readonly name = 'openai';
+    readonly requiresLogin = false;
+
+    async streamMessage(
+        message: string,
+        callbacks: AgentStreamCallbacks,
+        options: StreamOptions | undefined,
+        signal: AbortSignal
+    ): Promise<void> {
+        const settings = getSettings();
+        // History is kept per conversation so follow-up messages have context
+        const conversationId = options?.conversationId || `local-${randomUUID()}`;
+        // A resumed session's conversation is not in memory after a restart
+        const history = conversations.get(conversationId) ?? [
+            { role: 'system', content: buildSystemPrompt(options) },
+            ...(options?.conversationId ? options.history ?? [] : []),
+        ];
+        const messages: ChatMessage[] = [...history, { role: 'user', content: message }];
+        const { tools, routes } = buildTools(options?.mcpState);
+
+        try {
+            const model = settings.model ?? await detectModel(settings, signal);
+
+            for (let round = 0; ; round++) {
+                if (signal.aborted) return;
+
+                const turn = await this.complete(settings, model, messages, tools, callbacks, signal);
+                messages.push(turn);
+                if (turn.content) {
+                    callbacks.onContent?.(turn.content, false);
+                }
+                if (!turn.tool_calls?.length) break;
+
+                if (round >= settings.maxToolRounds) {
+                    callbacks.onError?.(
+                        `Stopped after ${settings.maxToolRounds} rounds of tool calls (openai.maxToolRounds).`
+                    );
+                    return;
+                }
+
+                for (const call of turn.tool_calls) {
+                    if (signal.aborted) return;
+                    messages.push({
+                        role: 'tool',
+                        tool_call_id: call.id,
+                        content: await this.runTool(call, routes, callbacks),
+                    });
+                }
+            }
+
+            remember(conversationId, messages);
+            callbacks.onDone?.(conversationId);
+        } catch (error) {
+            if (signal.aborted || (error as Error).name === 'AbortError') return;
+            callbacks.onError?.(extractErrorMessage(error));
+        }
+    }
+
+    /**
+     * Request one completion, streaming its text through onContent
+     */
+    private async complete(
+        settings: OpenAISettings,
+        model: string,
+        messages: ChatMessage[],
+        tools: ChatTool[],
+        callbacks: AgentStreamCallbacks,
+        signal: AbortSignal
+    ): Promise<Extract<ChatMessage, { role: 'assistant' }>> {
+        let response: Response;
+        try {
+            response = await fetch(`${settings.baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: { ...buildHeaders(settings), Accept: 'text/event-stream' },
+                body: JSON.stringify({
+                    model,
+                    messages,
+                    stream: true,
+                    ...(tools.length > 0 ? { tools } : {}),
+                }),
+                signal,
+            });
+        } catch (error) {
+            if (signal.aborted) throw error;
+            throw new Error(describeFetchError(error, settings));
+        }
+
+        if (!response.ok) {
+            throw new Error(`${settings.baseUrl}: ${await readErrorMessage(response)}`);
+        }
+
+        // Servers without streaming support answer with a plain completion
+        if (!response.body || !(response.headers.get('content-type') ?? '').includes('text/event-stream')) {
+            const data = await response.json() as {
+                choices?: Array<{ message?: { content?: string | null; tool_calls?: ChatToolCall[] } }>;
+            };
+            const reply = data.choices?.[0]?.message;
+            if (reply?.content) {
+                callbacks.onContent?.(reply.content, true);
+            }
+            return {
+                role: 'assistant',
+                content: reply?.content ?? null,
+                ...(reply?.tool_calls?.length
+                    ? { tool_calls: reply.tool_calls.map(call => ({ ...call, id: call.id || `call_${randomUUID()}` })) }
+                    : {}),
+            };
+        }
+
+        let content = '';
+        const calls: Array<{ id?: string; name: string; arguments: string }> = [];
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const rawLine of lines) {
+                    const line = rawLine.trim();
+                    if (!line.startsWith('data:')) continue;
+                    const payload = line.slice(5).trim();
+                    if (payload === '[DONE]') continue;
+
+                    let chunk: {
+                        choices?: Array<{
+                            delta?: {
+                                content?: string | null;
+                                tool_calls?: Array<{
+                                    index?: number;
+                                    id?: string;
+                                    function?: { name?: string; arguments?: string };
+                                }>;
+                            };
+                        }>;
+                        error?: unknown;
+                    };
+                    try {
+                        chunk = JSON.parse(payload);
+                    } catch {
+                        // Skip invalid JSON
+                        continue;
+                    }
+                    if (chunk.error) {
+                        throw new Error(extractErrorMessage(chunk));
+                    }
+
+                    const delta = chunk.choices?.[0]?.delta;
+                    if (delta?.content) {
+                        content += delta.content;
+                        callbacks.onContent?.(delta.content, true);
+                    }
+                    for (const part of delta?.tool_calls ?? []) {
+                        const index = part.index ?? calls.length;
+                        const call = calls[index] ?? (calls[index] = { name: '', arguments: '' });
+                        if (part.id) call.id = part.id;
+                        if (part.function?.name) call.name += part.function.name;
+                        if (part.function?.arguments) call.arguments += part.function.arguments;
+                    }
+                }
+            }
+        } finally {
+            reader.releaseLock();
+        }
+
+        const toolCalls: ChatToolCall[] = calls
+            .filter(call => call && call.name)
+            .map(call => ({
+                id: call.id || `call_${randomUUID()}`,
+                type: 'function',
+                function: { name: call.name, arguments: call.arguments || '{}' },
+            }));
+
+        return {
+            role: 'assistant',
+            content: content || null,
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        };
+    }
+
+    /**
+     * Run a tool call through onMcpToolCall and return the text for the model
+     */
+    private async runTool(
+        call: ChatToolCall,
+        routes: ToolRoutes,
+        callbacks: AgentStreamCallbacks
+    ): Promise<string> {
+        const route = routes.get(call.function.name);
+        if (!route) {
+            return `Error: Unknown tool "${call.function.name}"`;
+        }
+        if (!callbacks.onMcpToolCall) {
+            return 'Error: Tools are not available in this session';
+        }
+
+        let args: Record<string, unknown>;
+        try {
+            args = JSON.parse(call.function.arguments || '{}');
+        } catch {
+            return `Error: The arguments for ${call.function.name} are not valid JSON. Call the tool again with a JSON object.`;
+        }
+
+        let result: McpToolResult;
+        try {
+            result = await callbacks.onMcpToolCall(call.id, route.serverName, route.toolName, args);
+        } catch (error) {
+            result = {
+                content: [{ type: 'text', text: `Error: ${(error as Error).message}` }],
+                isError: true,
+            };
+        }
+
+        // Scrub secrets: the server may not be on this machine
+        const redacted = redactToolResult(result);
+        if (redacted.report.total > 0) {
+            callbacks.onRedaction?.(call.id, route.toolName, redacted.report);
+        }
+        return formatToolResult(redacted.result);
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Inference Providers
+ * The backend that answers agent messages: the Paean AI cloud, or a local
+ * OpenAI-compatible server (llama.cpp, vLLM, Ollama, ...)
+ */
+
+import { getConfigValue } from '../utils/config.js';
+import type { CliModeOptions } from './cli-mode.js';
+import type { AgentStreamCallbacks, McpState } from './types.js';
+
+/** CLI model tier: Paean Lite / Flash / Pro */
+export type CliModelTier = 'lite' | 'flash' | 'pro';
+
+/** Available model tiers */
+export const CLI_MODEL_TIERS: readonly CliModelTier[] = ['lite', 'flash', 'pro'];
+
+/**
+ * Check whether a string names a model tier
+ */
+export function isCliModelTier(tier: string): tier is CliModelTier {
+    return (CLI_MODEL_TIERS as readonly string[]).includes(tier);
+}
+
+/**
+ * Stream options for agent messages
+ */
+export interface StreamOptions {
+    conversationId?: string;
+    mcpState?: McpState;
+    cliMode?: Partial<CliModeOptions>;
+    modelTier?: CliModelTier;
+    /**
+     * Earlier messages of a resumed conversation. Providers that keep the
+     * history in memory use them when they don't know `conversationId`; the
+     * cloud provider restores the history from the ID itself.
+     */
+    history?: ConversationMessage[];
+}
+
+/**
+ * A user or assistant turn of a conversation
+ */
+export interface ConversationMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+/** Available inference providers */
+export const INFERENCE_PROVIDER_NAMES = ['paean', 'openai'] as const;
+export type InferenceProviderName = typeof INFERENCE_PROVIDER_NAMES[number];
+
+/**
+ * A backend that streams agent answers.
+ *
+ * Providers report everything through the callbacks (content, tool calls,
+ * done, error) and run MCP tools through `callbacks.onMcpToolCall`. The
+ * returned promise settles once the answer is done, has failed, or `signal`
+ * was aborted; it does not reject.
+ */
+export interface InferenceProvider {
+    readonly name: InferenceProviderName;
+    /** Whether `openpaean login` is needed to use this provider */
+    readonly requiresLogin: boolean;
+    streamMessage(
+        message: string,
+        callbacks: AgentStreamCallbacks,
+        options: StreamOptions | undefined,
+        signal: AbortSignal
+    ): Promise<void>;
+}
+
+/**
+ * Extract a human-readable error message from an unknown value.
+ * Handles: string, Error, { error: string | { message } }, { message }, plain objects.
+ */
+export function extractErrorMessage(value: unknown): string {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.message;
+    if (value && typeof value === 'object') {
+        const obj = value as Record<string, unknown>;
+        if (obj.error) {
+            if (typeof obj.error === 'string') return obj.error;
+            if (typeof obj.error === 'object' && obj.error !== null) {
+                const inner = obj.error as Record<string, unknown>;
+                if (typeof inner.message === 'string') return inner.message;
+            }
+        }
+        if (typeof obj.message === 'string') return obj.message;
+    }
+    try {
+        const s = String(value);
+        return s === '[object Object]' ? 'Unknown error' : s;
+    } catch {
+        return 'Unknown error';
+    }
+}
+
+/**
+ * Check whether a string names an inference provider
+ */
+export function isInferenceProviderName(name: string): name is InferenceProviderName {
+    return (INFERENCE_PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+// Provider chosen with --provider for this process
+let providerOverride: InferenceProviderName | undefined;
+
+/**
+ * Use a provider for this process, overriding the `provider` config key
+ */
+export function setInferenceProviderName(name: InferenceProviderName | undefined): void {
+    providerOverride = name;
+}
+
+/**
+ * Get the selected provider: --provider, then the `provider` config key, then Paean cloud
+ */
+export function getInferenceProviderName(): InferenceProviderName {
+    if (providerOverride) return providerOverride;
+    const configured = getConfigValue('provider');
+    return configured && isInferenceProviderName(configured) ? configured : 'paean';
+}
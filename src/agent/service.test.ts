@@ -0,0 +1,185 @@
+/**
+ * Paean cloud streaming (resume, expired sessions) against an in-process stub server
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import * as config from '../utils/config.js';
+import { PaeanCloudProvider } from './service.js';
+import { RELOGIN_MESSAGE } from '../api/token.js';
+import type { McpToolResult } from './types.js';
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    return JSON.parse(body) as Record<string, unknown>;
+}
+
+async function listen(server: Server): Promise<string> {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address();
+    if (!address || typeof address === 'string') throw new Error('No server address');
+    return `http://127.0.0.1:${address.port}`;
+}
+
+function sseEvent(id: number, data: object): string {
+    return `id: ${id}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Agent stream stub: the first connection sends some content and an MCP tool
+ * call, then is cut once the tool result has arrived. A request with
+ * Last-Event-ID gets the whole log replayed (as a server that cannot seek
+ * would) followed by the rest of the answer.
+ */
+function createAgentStub() {
+    const streamRequests: Array<{ lastEventId?: string; body: Record<string, unknown> }> = [];
+    const mcpResults: Array<Record<string, unknown>> = [];
+    let firstStream: ServerResponse | undefined;
+
+    const before = [
+        { type: 'content', data: { text: 'Hello', partial: true } },
+        {
+            type: 'mcp_tool_call',
+            data: {
+                callId: 'call-1',
+                serverName: 'local',
+                toolName: 'echo',
+                argumentsJson: '{"text":"hi"}',
+                conversationId: 'conv-1',
+            },
+        },
+    ];
+    const after = [
+        { type: 'content', data: { text: ' world', partial: true } },
+        { type: 'done', data: { conversationId: 'conv-1' } },
+    ];
+
+    const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+        if (req.method === 'POST' && req.url === '/agent/mcp-result') {
+            mcpResults.push(await readBody(req));
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true }));
+            // Drop the stream mid-answer
+            firstStream?.destroy();
+            firstStream = undefined;
+            return;
+        }
+
+        if (req.method === 'POST' && req.url === '/agent/cli/stream') {
+            const lastEventId = req.headers['last-event-id'] as string | undefined;
+            streamRequests.push({ lastEventId, body: await readBody(req) });
+            res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+            res.write('retry: 10\n\n');
+            before.forEach((event, i) => res.write(sseEvent(i + 1, event)));
+            if (lastEventId === undefined) {
+                firstStream = res;
+                return;
+            }
+            after.forEach((event, i) => res.write(sseEvent(before.length + i + 1, event)));
+            res.end();
+            return;
+        }
+
+        res.writeHead(404).end();
+    });
+
+    return { server, streamRequests, mcpResults };
+}
+
+describe('PaeanCloudProvider.streamMessage', () => {
+    const originalApiUrl = process.env.OPENPAEAN_API_URL;
+    let server: Server | undefined;
+
+    beforeEach(() => {
+        vi.spyOn(config, 'getToken').mockReturnValue('test-token');
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        if (originalApiUrl === undefined) {
+            delete process.env.OPENPAEAN_API_URL;
+        } else {
+            process.env.OPENPAEAN_API_URL = originalApiUrl;
+        }
+        if (server) {
+            const closing = new Promise<void>(resolve => server!.close(() => resolve()));
+            server.closeAllConnections();
+            await closing;
+            server = undefined;
+        }
+    });
+
+    it('resumes a dropped stream without repeating content or tool calls', async () => {
+        const stub = createAgentStub();
+        server = stub.server;
+        process.env.OPENPAEAN_API_URL = await listen(server);
+
+        const content: string[] = [];
+        const toolCalls: Array<{ callId: string; args: Record<string, unknown> }> = [];
+        const reconnects: number[] = [];
+        const errors: string[] = [];
+        let doneConversationId: string | undefined;
+
+        await new PaeanCloudProvider().streamMessage('hi', {
+            onContent: text => content.push(text),
+            onMcpToolCall: async (callId, _serverName, _toolName, args): Promise<McpToolResult> => {
+                toolCalls.push({ callId, args });
+                return { content: [{ type: 'text', text: 'echo: hi' }] };
+            },
+            onReconnect: attempt => reconnects.push(attempt),
+            onError: error => errors.push(error),
+            onDone: conversationId => {
+                doneConversationId = conversationId;
+            },
+        }, undefined, new AbortController().signal);
+
+        expect(errors).toEqual([]);
+        expect(content).toEqual(['Hello', ' world']);
+        expect(toolCalls).toEqual([{ callId: 'call-1', args: { text: 'hi' } }]);
+        expect(stub.mcpResults).toHaveLength(1);
+        expect(stub.mcpResults[0]).toMatchObject({ conversationId: 'conv-1', callId: 'call-1' });
+        expect(doneConversationId).toBe('conv-1');
+
+        // One reconnect, resuming after the tool call event
+        expect(reconnects).toEqual([1]);
+        expect(stub.streamRequests).toHaveLength(2);
+        expect(stub.streamRequests[0].lastEventId).toBeUndefined();
+        expect(stub.streamRequests[1].lastEventId).toBe('2');
+        expect(stub.streamRequests[1].body).toMatchObject({ message: 'hi', resume: true, conversationId: 'conv-1' });
+    });
+
+    describe('when the API answers 401', () => {
+        /**
+         * Stub rejecting every stream request; the refresh endpoint answers
+         * with the given status
+         */
+        async function streamUnauthorized(refreshStatus: number): Promise<string[]> {
+            server = createServer((req: IncomingMessage, res: ServerResponse) => {
+                req.resume();
+                const status = req.url === '/auth/refresh-token' ? refreshStatus : 401;
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ error: 'Unauthorized' }));
+            });
+            process.env.OPENPAEAN_API_URL = await listen(server);
+
+            const errors: string[] = [];
+            await new PaeanCloudProvider().streamMessage('hi', {
+                onError: error => errors.push(error),
+            }, undefined, new AbortController().signal);
+            return errors;
+        }
+
+        it('asks to log in again when the refresh token is rejected', async () => {
+            vi.spyOn(config, 'getRefreshToken').mockReturnValue('refresh-token');
+            expect(await streamUnauthorized(401)).toEqual([RELOGIN_MESSAGE]);
+        });
+
+        it('does not ask to log in again when the refresh fails', async () => {
+            vi.spyOn(config, 'getRefreshToken').mockReturnValue('refresh-token');
+            const errors = await streamUnauthorized(503);
+            expect(errors).toHaveLength(1);
+            expect(errors[0]).not.toBe(RELOGIN_MESSAGE);
+        });
+    });
+});
@@ -1,125 +1,250 @@
 /**
  * Agent Service
- * SSE-based streaming agent service for communicating with Paean AI cloud
+ * Streams agent messages through the selected inference provider; the Paean
+ * AI cloud provider (SSE-based) lives here
  */
 
 import { getToken, getApiUrl } from '../utils/config.js';
-import type { CliModeOptions } from './cli-mode.js';
+import { authFetch, getRefreshOutcome, RELOGIN_MESSAGE } from '../api/token.js';
 import type {
     AgentStreamEvent,
     AgentStreamCallbacks,
-    McpState,
     McpToolResult,
 } from './types.js';
+import { redactToolResult } from '../mcp/redaction.js';
+import {
+    extractErrorMessage,
+    getInferenceProviderName,
+    type InferenceProvider,
+    type InferenceProviderName,
+    type StreamOptions,
+} from './provider.js';
+import { OpenAICompatibleProvider } from './openai-provider.js';
+
+export {
+    extractErrorMessage,
+    type CliModelTier,
+    type StreamOptions,
+} from './provider.js';
+
+/** Reconnect attempts after the stream drops, before giving up */
+const MAX_RECONNECT_ATTEMPTS = 5;
+const INITIAL_RECONNECT_DELAY_MS = 500;
+const MAX_RECONNECT_DELAY_MS = 8000;
+
+/** HTTP statuses worth retrying when resuming a stream */
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+/** Connection errors that mean the request never reached the server */
+const CONNECT_ERROR_CODES = new Set([
+    'ECONNREFUSED',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'ENETUNREACH',
+    'EHOSTUNREACH',
+]);
 
 /**
- * Extract a human-readable error message from an unknown value.
- * Handles: string, Error, { error: string | { message } }, { message }, plain objects.
+ * State of one streamed message, kept across reconnects
  */
-export function extractErrorMessage(value: unknown): string {
-    if (typeof value === 'string') return value;
-    if (value instanceof Error) return value.message;
-    if (value && typeof value === 'object') {
-        const obj = value as Record<string, unknown>;
-        if (obj.error) {
-            if (typeof obj.error === 'string') return obj.error;
-            if (typeof obj.error === 'object' && obj.error !== null) {
-                const inner = obj.error as Record<string, unknown>;
-                if (typeof inner.message === 'string') return inner.message;
-            }
-        }
-        if (typeof obj.message === 'string') return obj.message;
-    }
-    try {
-        const s = String(value);
-        return s === '[object Object]' ? 'Unknown error' : s;
-    } catch {
-        return 'Unknown error';
-    }
+interface StreamState {
+    conversationId?: string;
+    /** ID of the last event received, sent as Last-Event-ID when resuming */
+    lastEventId?: string;
+    /** IDs of events already handled, so events replayed on resume are skipped */
+    seenEventIds: Set<string>;
+    /** MCP tool calls already executed, keyed by call ID */
+    mcpCalls: Map<string, { result?: McpToolResult; submitted: boolean }>;
+    receivedDone: boolean;
+    /** Reconnect delay requested by the server (SSE `retry:` field) */
+    retryMs?: number;
+    /** Events received on the current connection */
+    received: number;
 }
 
-/** CLI model tier: Paean Lite / Flash / Pro */
-export type CliModelTier = 'lite' | 'flash' | 'pro';
+/**
+ * Get the error code of a fetch failure (undici puts it on `cause`)
+ */
+function getErrorCode(error: unknown): string | undefined {
+    const cause = (error as { cause?: { code?: unknown } })?.cause;
+    const code = (error as { code?: unknown })?.code ?? cause?.code;
+    return typeof code === 'string' ? code : undefined;
+}
 
 /**
- * Stream options for agent messages
+ * Whether an error is a network failure rather than an application error
  */
-export interface StreamOptions {
-    conversationId?: string;
-    mcpState?: McpState;
-    cliMode?: Partial<CliModeOptions>;
-    modelTier?: CliModelTier;
+function isNetworkError(error: unknown): boolean {
+    return error instanceof TypeError || getErrorCode(error) !== undefined;
 }
 
 /**
- * Agent Service class for streaming communication
+ * Wait before reconnecting; resolves false if aborted meanwhile
  */
-export class AgentService {
-    private abortController: AbortController | null = null;
+function waitForReconnect(ms: number, signal: AbortSignal): Promise<boolean> {
+    return new Promise((resolve) => {
+        if (signal.aborted) {
+            resolve(false);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve(false);
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve(true);
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Read the error message of a failed response
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+    const fallback = `HTTP ${response.status}`;
+    try {
+        const errorData = await response.json();
+        return extractErrorMessage(errorData) || response.statusText || fallback;
+    } catch {
+        return response.statusText || fallback;
+    }
+}
+
+/**
+ * Paean AI cloud provider: `POST {apiUrl}/agent/cli/stream` with the Paean SSE
+ * event schema. The cloud runs the model; local MCP tool calls arrive as
+ * `mcp_tool_call` events and their results are posted back.
+ */
+export class PaeanCloudProvider implements InferenceProvider {
+    readonly name = 'paean';
+    readonly requiresLogin = true;
 
     /**
-     * Stream a message to the agent and handle SSE events
+     * Stream a message to the agent and handle SSE events.
+     *
+     * If the connection drops after the server has sent event IDs, the stream is
+     * resumed with `Last-Event-ID` (with backoff). Replayed events are skipped and
+     * an MCP tool call is never executed twice.
      */
     async streamMessage(
         message: string,
         callbacks: AgentStreamCallbacks,
-        options?: StreamOptions
-    ): Promise<{ abort: () => void }> {
-        this.abortController = new AbortController();
-        const { conversationId, mcpState } = options || {};
-
-        const token = getToken();
-        if (!token) {
+        options: StreamOptions | undefined,
+        signal: AbortSignal
+    ): Promise<void> {
+        if (!getToken()) {
             callbacks.onError?.('Authentication required. Run `openpaean login` first.');
-            return { abort: () => this.abortController?.abort() };
+            return;
         }
 
-        try {
-            const response = await fetch(`${getApiUrl()}/agent/cli/stream`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    Authorization: `Bearer ${token}`,
-                    Accept: 'text/event-stream',
-                },
-                body: JSON.stringify({
-                    message,
-                    conversationId,
-                    mcpState,
-                    cliMode: options?.cliMode,
-                    modelTier: options?.modelTier || 'flash',
-                }),
-                signal: this.abortController.signal,
-            });
-
-            if (!response.ok) {
-                let errorMessage = `HTTP ${response.status}`;
-                try {
-                    const errorData = await response.json();
-                    errorMessage = extractErrorMessage(errorData) || response.statusText || errorMessage;
-                } catch {
-                    errorMessage = response.statusText || errorMessage;
+        const state: StreamState = {
+            conversationId: options?.conversationId,
+            seenEventIds: new Set(),
+            mcpCalls: new Map(),
+            receivedDone: false,
+            received: 0,
+        };
+
+        let attempts = 0;
+        while (true) {
+            let failure: string;
+            let retryable: boolean;
+            state.received = 0;
+
+            try {
+                const response = await this.openStream(message, state, options, signal);
+
+                if (response.status === 401) {
+                    // authFetch already tried a refreshed token; only a rejected
+                    // refresh means the user has to log in again
+                    const outcome = getRefreshOutcome(response);
+                    failure = outcome === 'rejected'
+                        ? RELOGIN_MESSAGE
+                        : outcome === 'failed'
+                            ? 'Could not refresh the session token. Check your connection and try again.'
+                            : await readErrorMessage(response);
+                    retryable = false;
+                } else if (!response.ok) {
+                    failure = await readErrorMessage(response);
+                    retryable = state.lastEventId !== undefined && RETRYABLE_STATUSES.has(response.status);
+                } else if (!response.body) {
+                    failure = 'No response body';
+                    retryable = false;
+                } else {
+                    // Process the SSE stream
+                    await this.processStream(response.body, callbacks, state, signal);
+                    if (state.receivedDone || signal.aborted) {
+                        break;
+                    }
+                    failure = 'Stream ended unexpectedly. The server may have disconnected.';
+                    retryable = state.lastEventId !== undefined;
+                }
+            } catch (error) {
+                if (signal.aborted || (error as Error).name === 'AbortError') {
+                    break;
                 }
-                throw new Error(errorMessage);
+                failure = error instanceof Error
+                    ? error.message
+                    : 'Unknown error occurred';
+                // Without an event ID to resume from, only retry when the request
+                // cannot have reached the server, so the message is not sent twice
+                retryable = isNetworkError(error) && (
+                    state.lastEventId !== undefined ||
+                    CONNECT_ERROR_CODES.has(getErrorCode(error) ?? '')
+                );
             }
 
-            if (!response.body) {
-                throw new Error('No response body');
+            // A connection that delivered events starts a fresh round of retries
+            attempts = state.received > 0 ? 1 : attempts + 1;
+            if (!retryable || attempts > MAX_RECONNECT_ATTEMPTS) {
+                callbacks.onError?.(failure);
+                break;
             }
 
-            // Process the SSE stream
-            await this.processStream(response.body, callbacks, conversationId);
-        } catch (error) {
-            if ((error as Error).name === 'AbortError') {
-                return { abort: () => { } };
+            const delay = Math.min(
+                (state.retryMs ?? INITIAL_RECONNECT_DELAY_MS) * 2 ** (attempts - 1),
+                MAX_RECONNECT_DELAY_MS
+            );
+            callbacks.onReconnect?.(attempts, delay);
+            if (!(await waitForReconnect(delay, signal))) {
+                break;
             }
-            const errorMessage = error instanceof Error
-                ? error.message
-                : 'Unknown error occurred';
-            callbacks.onError?.(errorMessage);
         }
+    }
 
-        return { abort: () => this.abortController?.abort() };
+    /**
+     * Open the SSE stream, resuming after the last received event if there is one.
+     * Goes through authFetch, so an expiring token is refreshed first.
+     */
+    private openStream(
+        message: string,
+        state: StreamState,
+        options: StreamOptions | undefined,
+        signal: AbortSignal
+    ): Promise<Response> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            Accept: 'text/event-stream',
+        };
+        if (state.lastEventId !== undefined) {
+            headers['Last-Event-ID'] = state.lastEventId;
+        }
+
+        return authFetch(`${getApiUrl()}/agent/cli/stream`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                message,
+                conversationId: state.conversationId,
+                mcpState: options?.mcpState,
+                cliMode: options?.cliMode,
+                modelTier: options?.modelTier || 'flash',
+                ...(state.lastEventId !== undefined ? { resume: true } : {}),
+            }),
+            signal,
+        });
     }
 
     /**
@@ -128,16 +253,45 @@ export class AgentService {
     private async processStream(
         body: ReadableStream<Uint8Array>,
         callbacks: AgentStreamCallbacks,
-        conversationId?: string
+        state: StreamState,
+        signal: AbortSignal
     ): Promise<void> {
         const reader = body.getReader();
         const decoder = new TextDecoder();
         let buffer = '';
-        let receivedDoneEvent = false;
+        let eventId: string | undefined;
+        let data: string[] = [];
+
+        // Handle the event collected so far (an SSE event ends with a blank line)
+        const dispatch = async () => {
+            const payload = data.join('\n');
+            const id = eventId;
+            data = [];
+            eventId = undefined;
+            if (!payload) return;
+
+            if (id !== undefined) {
+                // Replayed after a reconnect: already handled
+                if (state.seenEventIds.has(id)) return;
+                state.seenEventIds.add(id);
+                state.lastEventId = id;
+            }
+            state.received++;
+
+            try {
+                const eventData = JSON.parse(payload) as AgentStreamEvent;
+                if (eventData.type === 'done') {
+                    state.receivedDone = true;
+                }
+                await this.handleEvent(eventData, callbacks, state);
+            } catch {
+                // Skip invalid JSON
+            }
+        };
 
         try {
             while (true) {
-                if (this.abortController?.signal.aborted) {
+                if (signal.aborted) {
                     await reader.cancel();
                     break;
                 }
@@ -145,10 +299,11 @@ export class AgentService {
                 const { done, value } = await reader.read();
 
                 if (done) {
+                    await dispatch();
                     break;
                 }
 
-                if (this.abortController?.signal.aborted) {
+                if (signal.aborted) {
                     await reader.cancel();
                     break;
                 }
@@ -158,27 +313,31 @@ export class AgentService {
                 const lines = buffer.split('\n');
                 buffer = lines.pop() || '';
 
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        try {
-                            const eventData = JSON.parse(line.slice(6)) as AgentStreamEvent;
-                            if (eventData.type === 'done') {
-                                receivedDoneEvent = true;
-                            }
-                            await this.handleEvent(eventData, callbacks, conversationId);
-                        } catch {
-                            // Skip invalid JSON
-                        }
+                for (const rawLine of lines) {
+                    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+                    if (line === '') {
+                        await dispatch();
+                        continue;
+                    }
+                    if (line.startsWith(':')) continue;
+
+                    const colon = line.indexOf(':');
+                    const field = colon === -1 ? line : line.slice(0, colon);
+                    let value = colon === -1 ? '' : line.slice(colon + 1);
+                    if (value.startsWith(' ')) value = value.slice(1);
+
+                    if (field === 'data') {
+                        data.push(value);
+                    } else if (field === 'id' && !value.includes('\0')) {
+                        eventId = value;
+                    } else if (field === 'retry' && /^\d+$/.test(value)) {
+                        state.retryMs = parseInt(value, 10);
                     }
                 }
             }
         } finally {
             reader.releaseLock();
         }
-
-        if (!receivedDoneEvent && !this.abortController?.signal.aborted) {
-            callbacks.onError?.('Stream ended unexpectedly. The server may have disconnected.');
-        }
     }
 
     /**
@@ -187,7 +346,7 @@ export class AgentService {
     private async handleEvent(
         event: AgentStreamEvent,
         callbacks: AgentStreamCallbacks,
-        conversationId?: string
+        state: StreamState
     ): Promise<void> {
         switch (event.type) {
             case 'content':
@@ -220,7 +379,26 @@ export class AgentService {
                     callbacks.onMcpToolCall
                 ) {
                     const mcpConversationId =
-                        event.data.conversationId || conversationId;
+                        event.data.conversationId || state.conversationId;
+                    if (event.data.conversationId) {
+                        state.conversationId = event.data.conversationId;
+                    }
+
+                    // Replayed after a reconnect: never run the tool twice, only
+                    // resubmit a result the server may not have received
+                    const previous = state.mcpCalls.get(event.data.callId);
+                    if (previous) {
+                        if (previous.result && !previous.submitted && mcpConversationId) {
+                            previous.submitted = await this.submitMcpResult(
+                                mcpConversationId,
+                                event.data.callId,
+                                previous.result
+                            );
+                        }
+                        break;
+                    }
+                    const call: { result?: McpToolResult; submitted: boolean } = { submitted: false };
+                    state.mcpCalls.set(event.data.callId, call);
 
                     // Parse arguments - could be in argumentsJson or arguments
                     let args: Record<string, unknown> = {};
@@ -234,41 +412,49 @@ export class AgentService {
                         args = event.data.arguments;
                     }
 
+                    let result: McpToolResult;
                     try {
-                        const result = await callbacks.onMcpToolCall(
+                        result = await callbacks.onMcpToolCall(
                             event.data.callId,
                             event.data.serverName,
                             event.data.toolName,
                             args
                         );
-
-                        // Submit result back to API
-                        if (mcpConversationId) {
-                            await this.submitMcpResult(
-                                mcpConversationId,
-                                event.data.callId,
-                                result
-                            );
-                        }
                     } catch (error) {
-                        // Submit error result
-                        if (mcpConversationId) {
-                            await this.submitMcpResult(
-                                mcpConversationId,
-                                event.data.callId,
-                                {
-                                    content: [
-                                        { type: 'text', text: `Error: ${(error as Error).message}` },
-                                    ],
-                                    isError: true,
-                                }
-                            );
-                        }
+                        result = {
+                            content: [
+                                { type: 'text', text: `Error: ${(error as Error).message}` },
+                            ],
+                            isError: true,
+                        };
+                    }
+
+                    // Scrub secrets before the result leaves the machine
+                    const redacted = redactToolResult(result);
+                    if (redacted.report.total > 0) {
+                        callbacks.onRedaction?.(
+                            event.data.callId,
+                            event.data.toolName,
+                            redacted.report
+                        );
+                    }
+
+                    // Submit result back to API
+                    call.result = redacted.result;
+                    if (mcpConversationId) {
+                        call.submitted = await this.submitMcpResult(
+                            mcpConversationId,
+                            event.data.callId,
+                            redacted.result
+                        );
                     }
                 }
                 break;
 
             case 'done':
+                if (event.data.conversationId) {
+                    state.conversationId = event.data.conversationId;
+                }
                 callbacks.onDone?.(event.data.conversationId);
                 break;
 
@@ -296,15 +482,13 @@ export class AgentService {
         callId: string,
         result: McpToolResult
     ): Promise<boolean> {
-        const token = getToken();
-        if (!token) return false;
+        if (!getToken()) return false;
 
         try {
-            const response = await fetch(`${getApiUrl()}/agent/mcp-result`, {
+            const response = await authFetch(`${getApiUrl()}/agent/mcp-result`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    Authorization: `Bearer ${token}`,
                 },
                 body: JSON.stringify({ conversationId, callId, result }),
             });
@@ -316,6 +500,53 @@ export class AgentService {
         }
     }
 
+}
+
+const providers = new Map<InferenceProviderName, InferenceProvider>();
+
+/**
+ * Get an inference provider (default: the selected one, see getInferenceProviderName)
+ */
+export function getInferenceProvider(name: InferenceProviderName = getInferenceProviderName()): InferenceProvider {
+    let provider = providers.get(name);
+    if (!provider) {
+        provider = name === 'openai' ? new OpenAICompatibleProvider() : new PaeanCloudProvider();
+        providers.set(name, provider);
+    }
+    return provider;
+}
+
+/**
+ * Agent Service class for streaming communication
+ */
+export class AgentService {
+    private abortController: AbortController | null = null;
+    private provider?: InferenceProvider;
+
+    /**
+     * @param provider - Provider to use (default: the selected provider at each message)
+     */
+    constructor(provider?: InferenceProvider) {
+        this.provider = provider;
+    }
+
+    /**
+     * Stream a message to the agent through the inference provider
+     */
+    async streamMessage(
+        message: string,
+        callbacks: AgentStreamCallbacks,
+        options?: StreamOptions
+    ): Promise<{ abort: () => void }> {
+        const controller = new AbortController();
+        this.abortController = controller;
+
+        const provider = this.provider ?? getInferenceProvider();
+        await provider.streamMessage(message, callbacks, options, controller.signal);
+
+        return { abort: () => controller.abort() };
+    }
+
     /**
      * Abort the current stream
      */
@@ -0,0 +1,193 @@
+/**
+ * Session Export
+ * Write a session transcript, with its tool calls and timestamps, as
+ * Markdown, JSON or a standalone HTML page (/export)
+ */
+
+import { existsSync, mkdirSync, statSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, extname, join, resolve } from 'path';
+import type { SessionTranscript } from './sessions.js';
+
+/** Available export formats */
+export const SESSION_EXPORT_FORMATS = ['md', 'json', 'html'] as const;
+export type SessionExportFormat = typeof SESSION_EXPORT_FORMATS[number];
+
+/**
+ * Check whether a string names an export format
+ */
+export function isSessionExportFormat(format: string): format is SessionExportFormat {
+    return (SESSION_EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Parse the arguments of `/export [md|json|html] [path]`. Without a format,
+ * it is taken from the file extension (Markdown if unknown).
+ */
+export function parseExportArgs(args: string[]): { format: SessionExportFormat; path?: string } {
+    const [first, ...rest] = args;
+    if (first && isSessionExportFormat(first.toLowerCase())) {
+        return { format: first.toLowerCase() as SessionExportFormat, path: rest.join(' ') || undefined };
+    }
+    const path = args.join(' ') || undefined;
+    const extension = path ? extname(path).slice(1).toLowerCase() : '';
+    if (extension === 'markdown') return { format: 'md', path };
+    if (extension === 'htm') return { format: 'html', path };
+    return { format: isSessionExportFormat(extension) ? extension : 'md', path };
+}
+
+function formatTime(timestamp: string): string {
+    return new Date(timestamp).toLocaleString();
+}
+
+/**
+ * Wrap text in a code fence longer than any backtick run inside it
+ */
+function fence(text: string, language = ''): string {
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+    const marker = '`'.repeat(longest + 1);
+    return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+const ROLE_LABELS = { user: 'You', assistant: 'OpenPaean', error: 'Error' } as const;
+
+/**
+ * Render a transcript as Markdown
+ */
+export function formatSessionMarkdown(transcript: SessionTranscript): string {
+    const lines: string[] = [];
+    for (const record of transcript.getRecords()) {
+        switch (record.type) {
+            case 'session':
+                lines.push(`# OpenPaean session ${record.id}`, '');
+                lines.push(`- Started: ${formatTime(record.createdAt)}`);
+                lines.push(`- Directory: \`${record.cwd}\``);
+                if (transcript.conversationId) {
+                    lines.push(`- Conversation: \`${transcript.conversationId}\``);
+                }
+                lines.push('');
+                break;
+            case 'message':
+                lines.push(`## ${ROLE_LABELS[record.role]} · ${formatTime(record.timestamp)}`, '', record.content, '');
+                break;
+            case 'tool_call':
+                lines.push(`**Tool call** \`${record.server}/${record.tool}\` · ${formatTime(record.timestamp)}`, '');
+                lines.push(fence(JSON.stringify(record.args, null, 2), 'json'), '');
+                break;
+            case 'tool_result':
+                lines.push(`**Result** \`${record.tool}\` ${record.isError ? '✗' : '✓'} · ${formatTime(record.timestamp)}`, '');
+                lines.push(fence(record.content), '');
+                break;
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Render a transcript as a standalone HTML page
+ */
+export function formatSessionHtml(transcript: SessionTranscript): string {
+    const header = transcript.getRecords()[0];
+    const title = `OpenPaean session ${transcript.id}`;
+    const blocks: string[] = [];
+
+    if (header?.type === 'session') {
+        const conversation = transcript.conversationId
+            ? ` · conversation <code>${escapeHtml(transcript.conversationId)}</code>`
+            : '';
+        blocks.push(
+            `<p class="meta">Started ${escapeHtml(formatTime(header.createdAt))} in ` +
+            `<code>${escapeHtml(header.cwd)}</code>${conversation}</p>`
+        );
+    }
+
+    for (const record of transcript.getRecords()) {
+        const time = 'timestamp' in record
+            ? `<time datetime="${record.timestamp}">${escapeHtml(formatTime(record.timestamp))}</time>`
+            : '';
+        switch (record.type) {
+            case 'message':
+                blocks.push(
+                    `<section class="message ${record.role}"><h2>${ROLE_LABELS[record.role]} ${time}</h2>` +
+                    `<div class="content">${escapeHtml(record.content)}</div></section>`
+                );
+                break;
+            case 'tool_call':
+                blocks.push(
+                    `<section class="tool"><h3>Tool call <code>${escapeHtml(`${record.server}/${record.tool}`)}</code> ${time}</h3>` +
+                    `<pre>${escapeHtml(JSON.stringify(record.args, null, 2))}</pre></section>`
+                );
+                break;
+            case 'tool_result':
+                blocks.push(
+                    `<section class="tool ${record.isError ? 'failed' : ''}"><h3>Result <code>${escapeHtml(record.tool)}</code> ` +
+                    `${record.isError ? '✗' : '✓'} ${time}</h3><pre>${escapeHtml(record.content)}</pre></section>`
+                );
+                break;
+        }
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+h1 { font-size: 1.4rem; }
+h2, h3 { font-size: 1rem; margin: 0 0 .4rem; }
+time, .meta { color: #777; font-weight: normal; font-size: .85rem; }
+section { margin: 1rem 0; padding: .6rem .8rem; border-radius: 6px; }
+.message.user { background: #eef5ff; }
+.message.assistant { background: #f6f6f6; }
+.message.error, .tool.failed { background: #fff0f0; }
+.tool { border-left: 3px solid #b8a1e3; }
+.content { white-space: pre-wrap; }
+pre { overflow-x: auto; margin: 0; font-size: .85rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${blocks.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a transcript in an export format
+ */
+export function formatSession(transcript: SessionTranscript, format: SessionExportFormat): string {
+    switch (format) {
+        case 'md':
+            return formatSessionMarkdown(transcript);
+        case 'html':
+            return formatSessionHtml(transcript);
+        case 'json':
+            return JSON.stringify(transcript.getRecords(), null, 2) + '\n';
+    }
+}
+
+/**
+ * Write a transcript to `path` (a file or directory; default:
+ * openpaean-<id>.<format> in the working directory)
+ * @returns The absolute path of the written file
+ */
+export function exportSession(transcript: SessionTranscript, format: SessionExportFormat, path?: string): string {
+    const fileName = `openpaean-${transcript.id}.${format}`;
+    let target = resolve(path?.replace(/^~(?=$|\/)/, homedir()) ?? fileName);
+    if (existsSync(target) && statSync(target).isDirectory()) {
+        target = join(target, fileName);
+    }
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, formatSession(transcript, format), 'utf-8');
+    return target;
+}
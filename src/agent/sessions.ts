@@ -0,0 +1,408 @@
+/**
+ * Session Transcripts
+ *
+ * Every interactive session is written as JSON lines to
+ * ~/.openpaean/sessions/<project>/<id>.jsonl: its messages, tool calls and
+ * results, and the conversation ID, so it can be listed, shown and resumed
+ * later (`openpaean sessions`, `openpaean --resume`).
+ *
+ * Tool arguments and results are redacted before they are written, and long
+ * results are shortened.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, statSync, unlinkSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { detectProject, getProjectId } from '../utils/project.js';
+import { redactAuditArgs } from '../mcp/audit.js';
+import { redactToolResult } from '../mcp/redaction.js';
+import type { McpToolResult } from './types.js';
+import type { ConversationMessage } from './provider.js';
+
+// ============================================
+// Types
+// ============================================
+
+/** Role of a message in a transcript */
+export type SessionMessageRole = 'user' | 'assistant' | 'error';
+
+/**
+ * A single transcript line
+ */
+export type SessionRecord =
+    | { type: 'session'; id: string; createdAt: string; cwd: string; project: string }
+    | { type: 'message'; timestamp: string; role: SessionMessageRole; content: string }
+    | {
+        type: 'tool_call';
+        timestamp: string;
+        callId: string;
+        server: string;
+        tool: string;
+        args: Record<string, unknown>;
+    }
+    | { type: 'tool_result'; timestamp: string; callId: string; tool: string; isError: boolean; content: string }
+    | { type: 'conversation'; timestamp: string; conversationId: string | null };
+
+/**
+ * Overview of a stored session
+ */
+export interface SessionSummary {
+    id: string;
+    /** Sessions directory name of the project */
+    project: string;
+    path: string;
+    cwd: string;
+    createdAt: string;
+    updatedAt: string;
+    messageCount: number;
+    toolCallCount: number;
+    conversationId: string | null;
+    /** First user message, on one line */
+    title: string;
+}
+
+/**
+ * A /history entry: a message, or a tool call with its outcome
+ */
+export type SessionHistoryEntry =
+    | Extract<SessionRecord, { type: 'message' }>
+    | (Extract<SessionRecord, { type: 'tool_call' }> & { isError?: boolean });
+
+/**
+ * One page of /history
+ */
+export interface SessionHistoryPage {
+    entries: SessionHistoryEntry[];
+    /** 1-based page number */
+    page: number;
+    pageCount: number;
+    total: number;
+}
+
+/** Tool results longer than this are shortened in transcripts */
+const MAX_RESULT_LENGTH = 4000;
+
+/** Entries per /history page */
+const HISTORY_PAGE_SIZE = 10;
+
+// ============================================
+// Paths
+// ============================================
+
+/**
+ * Get the directory holding the sessions of all projects
+ */
+export function getSessionsRoot(): string {
+    return join(homedir(), '.openpaean', 'sessions');
+}
+
+/**
+ * Get the sessions directory name of the project at `cwd`
+ */
+export function getProjectSessionKey(cwd: string = process.cwd()): string {
+    const id = getProjectId(detectProject(cwd));
+    return id.replace(/[^a-zA-Z0-9._-]+/g, '_').replace(/^[_.]+|_+$/g, '') || 'default';
+}
+
+/**
+ * Get the sessions directory of the project at `cwd`
+ */
+export function getSessionsDir(cwd: string = process.cwd()): string {
+    return join(getSessionsRoot(), getProjectSessionKey(cwd));
+}
+
+/**
+ * Create a sortable session ID, e.g. 20260131-142233-a1b2
+ */
+function createSessionId(): string {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    return `${stamp}-${randomBytes(2).toString('hex')}`;
+}
+
+// ============================================
+// Writing
+// ============================================
+
+/**
+ * Transcript of one session. Records are appended as they happen; the file
+ * is only created once there is something to keep.
+ */
+export class SessionTranscript {
+    readonly id: string;
+    readonly path: string;
+    private records: SessionRecord[];
+    private created: boolean;
+
+    private constructor(id: string, path: string, records: SessionRecord[], created: boolean) {
+        this.id = id;
+        this.path = path;
+        this.records = records;
+        this.created = created;
+    }
+
+    /**
+     * Start a new transcript for the project at `cwd`
+     */
+    static create(cwd: string = process.cwd()): SessionTranscript {
+        const id = createSessionId();
+        const project = getProjectSessionKey(cwd);
+        const path = join(getSessionsRoot(), project, `${id}.jsonl`);
+        return new SessionTranscript(id, path, [
+            { type: 'session', id, createdAt: new Date().toISOString(), cwd, project },
+        ], false);
+    }
+
+    /**
+     * Open a stored transcript to show or continue it
+     */
+    static load(path: string): SessionTranscript | null {
+        if (!existsSync(path)) return null;
+        const records = parseSessionLines(readFileSync(path, 'utf-8'));
+        const header = records[0];
+        if (header?.type !== 'session') return null;
+        return new SessionTranscript(header.id, path, records, true);
+    }
+
+    /**
+     * All records, oldest first
+     */
+    getRecords(): readonly SessionRecord[] {
+        return this.records;
+    }
+
+    /**
+     * The conversation ID the session last used
+     */
+    get conversationId(): string | null {
+        for (let i = this.records.length - 1; i >= 0; i--) {
+            const record = this.records[i];
+            if (record.type === 'conversation') return record.conversationId;
+        }
+        return null;
+    }
+
+    recordMessage(role: SessionMessageRole, content: string): void {
+        this.append({ type: 'message', timestamp: new Date().toISOString(), role, content });
+    }
+
+    recordToolCall(callId: string, server: string, tool: string, args: Record<string, unknown>): void {
+        this.append({
+            type: 'tool_call',
+            timestamp: new Date().toISOString(),
+            callId,
+            server,
+            tool,
+            args: redactAuditArgs(args),
+        });
+    }
+
+    recordToolResult(callId: string, tool: string, result: McpToolResult): void {
+        const text = redactToolResult(result).result.content
+            .map(item => item.text ?? `[${item.type}]`)
+            .join('\n');
+        this.append({
+            type: 'tool_result',
+            timestamp: new Date().toISOString(),
+            callId,
+            tool,
+            isError: result.isError,
+            content: text.length > MAX_RESULT_LENGTH
+                ? `${text.slice(0, MAX_RESULT_LENGTH)}\n... (${text.length - MAX_RESULT_LENGTH} more characters)`
+                : text,
+        });
+    }
+
+    /**
+     * Record the conversation ID (only when it changes)
+     */
+    recordConversation(conversationId: string | null): void {
+        if (conversationId === this.conversationId) return;
+        this.append({ type: 'conversation', timestamp: new Date().toISOString(), conversationId });
+    }
+
+    /**
+     * Append a record. Failures are swallowed: the transcript must never break the chat.
+     */
+    private append(record: SessionRecord): void {
+        const pending = this.created ? [record] : [...this.records, record];
+        this.records.push(record);
+        try {
+            mkdirSync(dirname(this.path), { recursive: true });
+            appendFileSync(this.path, pending.map(entry => JSON.stringify(entry)).join('\n') + '\n', { mode: 0o600 });
+            this.created = true;
+        } catch {
+            // Ignore: the transcript is best-effort
+        }
+    }
+}
+
+// ============================================
+// Reading
+// ============================================
+
+/**
+ * Parse transcript lines, skipping malformed ones
+ */
+export function parseSessionLines(content: string): SessionRecord[] {
+    const records: SessionRecord[] = [];
+    for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            records.push(JSON.parse(line) as SessionRecord);
+        } catch {
+            // Partially written or corrupted line
+        }
+    }
+    return records;
+}
+
+/**
+ * The user and assistant messages of a transcript, to restore the
+ * conversation history when it is resumed (see StreamOptions.history)
+ */
+export function getConversationHistory(transcript: SessionTranscript): ConversationMessage[] {
+    const messages: ConversationMessage[] = [];
+    for (const record of transcript.getRecords()) {
+        if (record.type === 'message' && record.role !== 'error') {
+            messages.push({ role: record.role, content: record.content });
+        }
+    }
+    return messages;
+}
+
+/**
+ * Summarize a stored transcript
+ */
+export function summarizeSession(transcript: SessionTranscript): SessionSummary | null {
+    const records = transcript.getRecords();
+    const header = records[0];
+    if (header?.type !== 'session') return null;
+
+    let messageCount = 0;
+    let toolCallCount = 0;
+    let title = '';
+    for (const record of records) {
+        if (record.type === 'message') {
+            messageCount++;
+            if (!title && record.role === 'user') {
+                title = record.content.replace(/\s+/g, ' ').trim();
+            }
+        } else if (record.type === 'tool_call') {
+            toolCallCount++;
+        }
+    }
+
+    let updatedAt = header.createdAt;
+    try {
+        updatedAt = statSync(transcript.path).mtime.toISOString();
+    } catch {
+        // Not written yet
+    }
+
+    return {
+        id: header.id,
+        project: header.project,
+        path: transcript.path,
+        cwd: header.cwd,
+        createdAt: header.createdAt,
+        updatedAt,
+        messageCount,
+        toolCallCount,
+        conversationId: transcript.conversationId,
+        title,
+    };
+}
+
+function listSessionsIn(dir: string): SessionSummary[] {
+    if (!existsSync(dir)) return [];
+    const summaries: SessionSummary[] = [];
+    for (const name of readdirSync(dir)) {
+        if (!name.endsWith('.jsonl')) continue;
+        const transcript = SessionTranscript.load(join(dir, name));
+        const summary = transcript && summarizeSession(transcript);
+        if (summary) summaries.push(summary);
+    }
+    return summaries;
+}
+
+/**
+ * List stored sessions, most recently updated first
+ * @param options.all - Include the sessions of every project, not just the one at `cwd`
+ */
+export function listSessions(options: { all?: boolean; cwd?: string } = {}): SessionSummary[] {
+    const root = getSessionsRoot();
+    const dirs = options.all
+        ? (existsSync(root) ? readdirSync(root).map(name => join(root, name)) : [])
+        : [getSessionsDir(options.cwd)];
+    return dirs
+        .flatMap(dir => listSessionsIn(dir))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Find a session by ID or unique ID prefix, in the project at `cwd` first,
+ * then in all projects
+ */
+export function findSession(id: string, cwd: string = process.cwd()): SessionSummary | null {
+    for (const all of [false, true]) {
+        const sessions = listSessions({ all, cwd });
+        const exact = sessions.find(session => session.id === id);
+        if (exact) return exact;
+
+        const matches = sessions.filter(session => session.id.startsWith(id));
+        if (matches.length > 1) {
+            throw new Error(`Session ID "${id}" is ambiguous: ${matches.map(session => session.id).join(', ')}`);
+        }
+        if (matches.length === 1) return matches[0];
+    }
+    return null;
+}
+
+/**
+ * Get the most recently updated session of the project at `cwd`
+ */
+export function getLatestSession(cwd: string = process.cwd()): SessionSummary | null {
+    return listSessions({ cwd })[0] ?? null;
+}
+
+/**
+ * Get a page of the messages and tool calls of a session, oldest first
+ * @param page - 1-based page number (default: the last page)
+ */
+export function getSessionHistoryPage(
+    transcript: SessionTranscript,
+    page?: number,
+    pageSize: number = HISTORY_PAGE_SIZE
+): SessionHistoryPage {
+    const records = transcript.getRecords();
+    const outcomes = new Map<string, boolean>();
+    for (const record of records) {
+        if (record.type === 'tool_result') outcomes.set(record.callId, record.isError);
+    }
+
+    const entries: SessionHistoryEntry[] = [];
+    for (const record of records) {
+        if (record.type === 'message') {
+            entries.push(record);
+        } else if (record.type === 'tool_call') {
+            entries.push({ ...record, isError: outcomes.get(record.callId) });
+        }
+    }
+
+    const pageCount = Math.max(1, Math.ceil(entries.length / pageSize));
+    const current = Math.min(Math.max(1, page ?? pageCount), pageCount);
+    return {
+        entries: entries.slice((current - 1) * pageSize, current * pageSize),
+        page: current,
+        pageCount,
+        total: entries.length,
+    };
+}
+
+/**
+ * Delete a stored session
+ */
+export function deleteSession(session: SessionSummary): void {
+    unlinkSync(session.path);
+}
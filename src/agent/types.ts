@@ -3,6 +3,8 @@
  * TypeScript types for agent streaming and callbacks
  */
 
+import type { RedactionReport } from '../mcp/redaction.js';
+
 /**
  * Agent stream event types from SSE
  */
@@ -59,9 +61,13 @@ export interface AgentStreamCallbacks {
         toolName: string,
         args: Record<string, unknown>
     ) => Promise<McpToolResult>;
+    /** Secrets were redacted from an MCP tool result before it was submitted */
+    onRedaction?: (callId: string, toolName: string, report: RedactionReport) => void;
     onGrounding?: (sources: Array<{ title?: string; url?: string; snippet?: string }>) => void;
     onDone?: (conversationId?: string) => void;
     onError?: (error: string) => void;
+    /** The connection dropped; the stream is resumed after `delayMs` */
+    onReconnect?: (attempt: number, delayMs: number) => void;
 }
 
 /**
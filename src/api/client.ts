@@ -7,7 +7,8 @@ import axios, { type AxiosInstance, type AxiosError, type InternalAxiosRequestCo
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import { getToken, getApiUrl, clearAuth, getRefreshToken, isTokenNearExpiry, storeAuth } from '../utils/config.js';
+import { getToken, getApiUrl, clearAuth } from '../utils/config.js';
+import { getValidToken, handleUnauthorized } from './token.js';
 
 const MAX_RETRIES = 3;
 const RETRY_BASE_DELAY_MS = 1000;
@@ -65,10 +66,7 @@ export function createApiClient(options?: { clearAuthOn401?: boolean }): AxiosIn
   });
 
   client.interceptors.request.use(async (config) => {
-    if (isTokenNearExpiry()) {
-      await refreshAuthToken();
-    }
-    const token = getToken();
+    const token = await getValidToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -79,10 +77,9 @@ export function createApiClient(options?: { clearAuthOn401?: boolean }): AxiosIn
     (response) => response,
     async (error: AxiosError<ApiError>) => {
       if (error.response?.status === 401 && clearAuthOn401) {
-        const refreshToken = getRefreshToken();
-        if (refreshToken && error.config && !(error.config as unknown as Record<string, unknown>)._retried) {
-          const refreshed = await refreshAuthToken();
-          if (refreshed) {
+        if (error.config && !(error.config as unknown as Record<string, unknown>)._retried) {
+          const outcome = await handleUnauthorized();
+          if (outcome === 'refreshed') {
             const config = error.config;
             (config as unknown as Record<string, unknown>)._retried = true;
             const token = getToken();
@@ -91,8 +88,12 @@ export function createApiClient(options?: { clearAuthOn401?: boolean }): AxiosIn
             }
             return client.request(config);
           }
+          // Keep the credentials when the refresh merely failed (network,
+          // server error): they may still be valid
+          if (outcome === 'rejected') {
+            clearAuth();
+          }
         }
-        clearAuth();
       }
 
       if (error.config && isRetryableError(error)) {
@@ -170,54 +171,6 @@ export function createPublicApiClient(): AxiosInstance {
   return client;
 }
 
-let isRefreshing = false;
-let refreshPromise: Promise<boolean> | null = null;
-
-async function refreshAuthToken(): Promise<boolean> {
-  if (isRefreshing && refreshPromise) return refreshPromise;
-
-  const refreshToken = getRefreshToken();
-  if (!refreshToken) return false;
-
-  isRefreshing = true;
-  refreshPromise = (async () => {
-    try {
-      const response = await axios.post(`${getApiUrl()}/auth/refresh-token`, {
-        refreshToken,
-      }, {
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': `OpenPaean-CLI/${cliVersion}`,
-        },
-        timeout: 10000,
-      });
-
-      const data = response.data as {
-        token?: string;
-        refreshToken?: string;
-        expiresAt?: string;
-      };
-
-      if (data.token) {
-        storeAuth({
-          token: data.token,
-          refreshToken: data.refreshToken,
-          expiresAt: data.expiresAt,
-        });
-        return true;
-      }
-      return false;
-    } catch {
-      return false;
-    } finally {
-      isRefreshing = false;
-      refreshPromise = null;
-    }
-  })();
-
-  return refreshPromise;
-}
-
 // Singleton instances
 let apiClient: AxiosInstance | null = null;
 let publicApiClient: AxiosInstance | null = null;
@@ -0,0 +1,185 @@
+/**
+ * Token Management
+ * Shared auth layer for the axios API client and raw fetch calls (SSE streams)
+ *
+ * Tokens are refreshed ahead of expiry, a 401 is retried once after a refresh,
+ * and listeners are told when the user has to log in again.
+ */
+
+import axios from 'axios';
+import { EventEmitter } from 'events';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { getToken, getApiUrl, getRefreshToken, isTokenNearExpiry, storeAuth } from '../utils/config.js';
+
+/** Shown when both the access token and the refresh token are no longer valid */
+export const RELOGIN_MESSAGE = 'Your session has expired. Run `openpaean login` to sign in again.';
+
+let userAgent = 'OpenPaean-CLI/unknown';
+try {
+  const packageJson = JSON.parse(
+    readFileSync(join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'package.json'), 'utf-8')
+  );
+  userAgent = `OpenPaean-CLI/${packageJson.version}`;
+} catch {
+  // Keep the fallback
+}
+
+/**
+ * Result of a token refresh: `rejected` means the refresh token is no longer
+ * valid (log in again), `failed` that the refresh could not be completed
+ * (network or server error) and may succeed later
+ */
+export type RefreshOutcome = 'refreshed' | 'rejected' | 'failed';
+
+const authEvents = new EventEmitter();
+let refreshPromise: Promise<RefreshOutcome> | null = null;
+// Token for which re-login was last announced, so it is only announced once
+let reloginNotifiedFor: string | null | undefined;
+// Refresh attempted by authFetch after a 401, keyed by the 401 response
+const unauthorizedOutcomes = new WeakMap<Response, RefreshOutcome>();
+
+/**
+ * Ask the API for a new access token with the stored refresh token
+ */
+async function requestRefresh(): Promise<RefreshOutcome> {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) return 'rejected';
+
+  try {
+    const response = await axios.post(`${getApiUrl()}/auth/refresh-token`, {
+      refreshToken,
+    }, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': userAgent,
+      },
+      timeout: 10000,
+    });
+
+    const data = response.data as {
+      token?: string;
+      refreshToken?: string;
+      expiresAt?: string;
+    };
+
+    if (data.token) {
+      storeAuth({
+        token: data.token,
+        refreshToken: data.refreshToken,
+        expiresAt: data.expiresAt,
+      });
+      return 'refreshed';
+    }
+    return 'rejected';
+  } catch (error) {
+    // The server turned the refresh token down; anything else (network,
+    // 5xx) may succeed on a later attempt
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    return status !== undefined && status >= 400 && status < 500 ? 'rejected' : 'failed';
+  }
+}
+
+/**
+ * Refresh the access token. Concurrent callers share one request.
+ */
+async function refresh(): Promise<RefreshOutcome> {
+  if (!refreshPromise) {
+    refreshPromise = requestRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  const outcome = await refreshPromise;
+  if (outcome === 'rejected') {
+    notifyReloginRequired();
+  }
+  return outcome;
+}
+
+/**
+ * Tell listeners the user has to log in again (once per dead token)
+ */
+function notifyReloginRequired(): void {
+  const token = getToken() ?? null;
+  if (reloginNotifiedFor === token) return;
+  reloginNotifiedFor = token;
+  authEvents.emit('relogin', RELOGIN_MESSAGE);
+}
+
+/**
+ * Refresh the access token with the stored refresh token
+ */
+export async function refreshAuthToken(): Promise<boolean> {
+  return (await refresh()) === 'refreshed';
+}
+
+/**
+ * Get the access token, refreshing it first if it is about to expire
+ */
+export async function getValidToken(): Promise<string | undefined> {
+  if (isTokenNearExpiry() && getRefreshToken()) {
+    await refresh();
+  }
+  return getToken();
+}
+
+/**
+ * Handle a 401 response: refresh the token. Retry on `refreshed`; only
+ * `rejected` means the stored credentials are dead.
+ */
+export async function handleUnauthorized(): Promise<RefreshOutcome> {
+  if (!getRefreshToken()) {
+    notifyReloginRequired();
+    return 'rejected';
+  }
+  return refresh();
+}
+
+/**
+ * Listen for the user having to log in again. Returns an unsubscribe function.
+ */
+export function onReloginRequired(listener: (message: string) => void): () => void {
+  authEvents.on('relogin', listener);
+  return () => {
+    authEvents.off('relogin', listener);
+  };
+}
+
+/**
+ * Outcome of the token refresh that authFetch attempted after this 401
+ * response (undefined if it did not attempt one)
+ */
+export function getRefreshOutcome(response: Response): RefreshOutcome | undefined {
+  return unauthorizedOutcomes.get(response);
+}
+
+/**
+ * `fetch` with the access token: refreshed ahead of expiry, and a 401 is
+ * retried once with a refreshed token. The request body must be re-sendable
+ * (a string, not a stream). If a 401 is returned because the refresh did not
+ * succeed, getRefreshOutcome tells why.
+ */
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | undefined) => {
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(url, { ...init, headers });
+  };
+
+  const response = await send(await getValidToken());
+  if (response.status !== 401 || init.signal?.aborted) {
+    return response;
+  }
+
+  const outcome = await handleUnauthorized();
+  if (outcome !== 'refreshed') {
+    unauthorizedOutcomes.set(response, outcome);
+    return response;
+  }
+  // Drain the rejected response before retrying
+  await response.body?.cancel().catch(() => {});
+  return send(getToken());
+}
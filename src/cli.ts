@@ -19,6 +19,10 @@ import { updateCommand } from './commands/update.js';
 import { gatewayCommand } from './commands/gateway.js';
 import { wechatCommand } from './commands/wechat.js';
 import { creditsCommand } from './commands/credits.js';
+import { auditCommand } from './commands/audit.js';
+import { mcpCommand } from './commands/mcp.js';
+import { pluginsCommand } from './commands/plugins.js';
+import { sessionsCommand } from './commands/sessions.js';
 import { getConfigPath } from './utils/config.js';
 
 // Read version from package.json
@@ -42,6 +46,9 @@ program
   .option('-n, --session-name <name>', 'Session name visible to web clients (used with --gateway)')
   .option('--wechat', 'Enable WeChat channel gateway')
   .option('-t, --tier <tier>', 'Model tier: lite, flash, pro (default: flash)', 'flash')
+  .option('--provider <provider>', 'Inference provider: paean (cloud) or openai (OpenAI-compatible server)')
+  .option('--resume [id]', 'Resume a stored session (default: the most recent one)')
+  .option('--continue', 'Continue the most recent session of this project')
   .action(async (options) => {
     if (options.config) {
       console.log(getConfigPath());
@@ -60,6 +67,9 @@ program
       gatewaySessionName: options.sessionName,
       wechatEnabled: options.wechat ?? false,
       modelTier: tier,
+      provider: options.provider,
+      resume: options.resume,
+      continueSession: options.continue ?? false,
     });
   });
 
@@ -74,6 +84,10 @@ program.addCommand(validateCommand);
 program.addCommand(gatewayCommand);
 program.addCommand(wechatCommand);
 program.addCommand(creditsCommand);
+program.addCommand(auditCommand);
+program.addCommand(mcpCommand);
+program.addCommand(pluginsCommand);
+program.addCommand(sessionsCommand);
 program.addCommand(updateCommand);
 
 // Parse arguments
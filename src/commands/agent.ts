@@ -6,10 +6,22 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { isAuthenticated } from '../utils/config.js';
+import { getInferenceProvider } from '../agent/service.js';
+import {
+    INFERENCE_PROVIDER_NAMES,
+    isInferenceProviderName,
+    setInferenceProviderName,
+} from '../agent/provider.js';
 import { startScrollingChat, startFullscreenChat } from '../agent/chat.ink.js';
-import { McpClient } from '../mcp/client.js';
-import { loadCustomToolsFromJson } from '../mcp/tools.js';
-import type { McpState, McpToolResult } from '../agent/types.js';
+import { SessionTranscript, findSession, getLatestSession, type SessionSummary } from '../agent/sessions.js';
+import { McpClient, type McpClientEvent } from '../mcp/client.js';
+import { loadCustomToolsFromJson, watchCustomToolsFile, createLocalToolProvider } from '../mcp/tools.js';
+import { loadPlugins, unloadPlugins, formatPluginSummary } from '../mcp/plugins.js';
+import { executeSystemTool, SYSTEM_TOOL_NAMES } from '../mcp/system.js';
+import { registerPromptCommands } from '../mcp/prompts.js';
+import { expandResourceMentions } from '../mcp/attachments.js';
+import { formatToolCollision } from '../mcp/namespacing.js';
+import type { McpState, McpToolInfo, McpToolResult } from '../agent/types.js';
 
 export const agentCommand = new Command('agent')
     .description('Start interactive AI agent mode (default)')
@@ -22,12 +34,10 @@ export const agentCommand = new Command('agent')
     .option('-n, --session-name <name>', 'Session name visible to web clients (used with --gateway)')
     .option('--wechat', 'Enable WeChat channel gateway')
     .option('-t, --tier <tier>', 'Model tier: lite, flash, pro (default: flash)', 'flash')
+    .option('--provider <provider>', 'Inference provider: paean (cloud) or openai (OpenAI-compatible server)')
+    .option('--resume [id]', 'Resume a stored session (default: the most recent one)')
+    .option('--continue', 'Continue the most recent session of this project')
     .action(async (options) => {
-        if (!isAuthenticated()) {
-            console.log(chalk.yellow('⚠️  Not logged in. Run `openpaean login` first.\n'));
-            process.exit(1);
-        }
-
         const tier = (['lite', 'flash', 'pro'].includes(options.tier) ? options.tier : 'flash') as 'lite' | 'flash' | 'pro';
 
         await runAgentMode({
@@ -40,6 +50,9 @@ export const agentCommand = new Command('agent')
             gatewaySessionName: options.sessionName,
             wechatEnabled: options.wechat ?? false,
             modelTier: tier,
+            provider: options.provider,
+            resume: options.resume,
+            continueSession: options.continue ?? false,
         });
     });
 
@@ -56,12 +69,49 @@ export async function runAgentMode(options: {
     gatewaySessionName?: string;
     wechatEnabled?: boolean;
     modelTier?: 'lite' | 'flash' | 'pro';
+    /** Inference provider for this run (default: the `provider` config key) */
+    provider?: string;
+    /** Session to resume: an ID (or prefix), or true for the most recent one */
+    resume?: string | boolean;
+    /** Continue the most recent session of this project */
+    continueSession?: boolean;
 }): Promise<void> {
-    if (!isAuthenticated()) {
+    if (options.provider !== undefined) {
+        if (!isInferenceProviderName(options.provider)) {
+            console.log(chalk.red(`Unknown provider "${options.provider}". Use one of: ${INFERENCE_PROVIDER_NAMES.join(', ')}`));
+            process.exit(1);
+        }
+        setInferenceProviderName(options.provider);
+    }
+
+    // A local OpenAI-compatible server works without a Paean account; the
+    // gateway relays through the cloud and still needs one
+    const needsLogin = getInferenceProvider().requiresLogin || options.gatewayEnabled;
+    if (needsLogin && !isAuthenticated()) {
         console.log(chalk.yellow('⚠️  Not logged in. Run `openpaean login` first.\n'));
         process.exit(1);
     }
 
+    // Reopen a stored session
+    let session: SessionTranscript | undefined;
+    if (options.resume || options.continueSession) {
+        let summary: SessionSummary | null;
+        try {
+            summary = typeof options.resume === 'string' ? findSession(options.resume) : getLatestSession();
+        } catch (error) {
+            console.log(chalk.red((error as Error).message));
+            process.exit(1);
+        }
+        const loaded = summary && SessionTranscript.load(summary.path);
+        if (!loaded) {
+            console.log(chalk.red(typeof options.resume === 'string'
+                ? `Session not found: ${options.resume}. Run \`openpaean sessions list\` to see stored sessions.`
+                : 'No stored sessions for this project yet.'));
+            process.exit(1);
+        }
+        session = loaded;
+    }
+
     const debug = options.debug ?? false;
     const enableMcp = options.mcp !== false;
     const enableFullscreen = options.fullscreen !== false;
@@ -69,6 +119,7 @@ export async function runAgentMode(options: {
     // Initialize MCP if enabled
     let mcpState: McpState | undefined;
     let mcpClient: McpClient | undefined;
+    let mcpConnecting: Promise<Map<string, McpToolInfo[] | Error>> | undefined;
 
     if (enableMcp) {
         mcpClient = new McpClient({ debug });
@@ -76,38 +127,15 @@ export async function runAgentMode(options: {
 
         if (serverNames.length > 0) {
             if (debug) {
-                console.log(chalk.dim(`[MCP] Found ${serverNames.length} configured server(s)`));
+                console.log(chalk.dim(`[MCP] Connecting to ${serverNames.length} configured server(s)`));
             }
 
-            // Connect to all servers
-            for (const name of serverNames) {
-                try {
-                    if (debug) {
-                        console.log(chalk.dim(`[MCP] Connecting to ${name}...`));
-                    }
-                    const tools = await mcpClient.connect(name);
-                    if (debug) {
-                        console.log(chalk.dim(`[MCP] Connected to ${name}: ${tools.length} tools`));
-                    }
-                } catch (error) {
-                    console.log(
-                        chalk.yellow(`⚠️  Failed to connect to MCP server "${name}": ${(error as Error).message}`)
-                    );
-                }
-            }
+            // Connect in the background so the chat is usable right away; the
+            // chat UIs show each server's status as it comes up
+            mcpConnecting = mcpClient.connectAll(serverNames);
 
-            // Build MCP state for API
-            const connectedServers = mcpClient.getConnectedServers();
-            if (connectedServers.length > 0) {
-                mcpState = {
-                    mcpEnabled: true,
-                    mcpServers: connectedServers.map((name) => ({
-                        name,
-                        connected: true,
-                        tools: Array.from(mcpClient!.getAllTools().get(name) || []),
-                    })),
-                };
-            }
+            // Ping servers and reconnect crashed ones with backoff
+            mcpClient.startSupervisor();
         }
     }
 
@@ -131,32 +159,75 @@ export async function runAgentMode(options: {
 
         // Load project-level custom tools (legacy first, then current)
         for (const projectToolsPath of projectToolsPaths) {
-            const projectCount = await loadCustomToolsFromJson(projectToolsPath);
-            if (projectCount > 0 && debug) {
-                console.log(chalk.dim(`[MCP] Loaded ${projectCount} custom tool(s) from ${projectToolsPath}`));
+            const count = await loadCustomToolsFromJson(projectToolsPath, {
+                onWarning: (warning) => console.error(chalk.yellow(`⚠️  ${warning}`)),
+            });
+            if (count > 0 && debug) {
+                console.log(chalk.dim(`[MCP] Loaded ${count} custom tool(s) from ${projectToolsPath}`));
             }
         }
 
         // Load global custom tools (legacy first, then current)
         for (const globalToolsPath of globalToolsPaths) {
-            const globalCount = await loadCustomToolsFromJson(globalToolsPath);
-            if (globalCount > 0 && debug) {
-                console.log(chalk.dim(`[MCP] Loaded ${globalCount} custom tool(s) from ${globalToolsPath}`));
+            const count = await loadCustomToolsFromJson(globalToolsPath, {
+                onWarning: (warning) => console.error(chalk.yellow(`⚠️  ${warning}`)),
+            });
+            if (count > 0 && debug) {
+                console.log(chalk.dim(`[MCP] Loaded ${count} custom tool(s) from ${globalToolsPath}`));
             }
         }
+
+        // Pick up edits to the tool files without restarting. The chat UI is
+        // running by then, so problems go through the MCP client's events.
+        for (const toolsPath of [...projectToolsPaths, ...globalToolsPaths]) {
+            watchCustomToolsFile(toolsPath, (_count, warnings, error) => {
+                if (error) {
+                    mcpClient?.notifyWarning(`Could not reload custom tools from ${toolsPath}: ${error.message}`);
+                }
+                for (const warning of warnings) {
+                    mcpClient?.notifyWarning(warning);
+                }
+                mcpClient?.notifyLocalToolsChanged();
+            });
+        }
     } catch (error) {
         if (debug) {
             console.log(chalk.dim(`[MCP] Custom tools loading skipped: ${(error as Error).message}`));
         }
     }
 
+    // Load plugin modules (.openpaean/plugins, ~/.openpaean/plugins); a
+    // broken plugin is reported and skipped
+    for (const plugin of await loadPlugins({ debug })) {
+        if (plugin.status === 'failed') {
+            console.error(chalk.yellow(`⚠️  Plugin "${plugin.name}" failed to load: ${plugin.error}`));
+        } else if (debug) {
+            console.log(chalk.dim(`[Plugins] ${formatPluginSummary(plugin)}`));
+        }
+        for (const warning of plugin.warnings) {
+            console.error(chalk.yellow(`⚠️  Plugin "${plugin.name}": ${warning}`));
+        }
+    }
+
+    // Advertise custom and plugin tools to the agent as the "local" server
+    mcpClient?.setLocalToolProvider(createLocalToolProvider());
+
     // Create MCP tool call handler
     const onMcpToolCall = async (
-        _callId: string,
+        callId: string,
         serverName: string,
         toolName: string,
         args: Record<string, unknown>
     ): Promise<McpToolResult> => {
+        // Built-in system tools run in-process so they go through the permission policy
+        if (SYSTEM_TOOL_NAMES.has(toolName) && !mcpClient?.isServerConnected(serverName)) {
+            const result = await executeSystemTool(toolName, args, { debug, callId }) as { success: boolean };
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result) }],
+                isError: !result.success,
+            };
+        }
+
         if (!mcpClient) {
             return {
                 content: [{ type: 'text', text: 'MCP client not available' }],
@@ -164,14 +235,40 @@ export async function runAgentMode(options: {
             };
         }
 
-        return mcpClient.callTool(serverName, toolName, args);
+        return mcpClient.callTool(serverName, toolName, args, { callId });
     };
 
     // Handle single message mode
     if (options.message) {
         const { sendMessage } = await import('../agent/chat.legacy.js');
         try {
-            const response = await sendMessage(options.message, {
+            // Single messages wait for the servers so their tools are available
+            if (mcpClient && mcpConnecting) {
+                for (const [name, result] of await mcpConnecting) {
+                    if (result instanceof Error) {
+                        console.error(chalk.yellow(`⚠️  Failed to connect to MCP server "${name}": ${result.message}`));
+                    }
+                }
+                for (const collision of mcpClient.getToolCollisions()) {
+                    if (collision.kind === 'renamed') {
+                        console.error(chalk.yellow(`⚠️  ${formatToolCollision(collision)}`));
+                    }
+                }
+            }
+            if (mcpClient) {
+                mcpState = mcpClient.getMcpState();
+            }
+
+            let message = options.message;
+            if (mcpClient) {
+                const expanded = await expandResourceMentions(message, mcpClient);
+                for (const error of expanded.errors) {
+                    console.error(chalk.yellow(`⚠️  Could not attach ${error}`));
+                }
+                message = expanded.message;
+            }
+
+            const response = await sendMessage(message, {
                 mcpState,
                 onMcpToolCall,
                 debug,
@@ -181,6 +278,7 @@ export async function runAgentMode(options: {
             console.error(chalk.red(`Error: ${(error as Error).message}`));
             process.exit(1);
         } finally {
+            await unloadPlugins();
             await mcpClient?.disconnectAll();
         }
         return;
@@ -212,6 +310,26 @@ export async function runAgentMode(options: {
         }
     }
 
+    // Keep MCP state current as servers connect, drop out or change their
+    // tool and prompt lists
+    const refreshMcpState = (): void => {
+        mcpState = mcpClient!.getMcpState();
+        gatewayService?.setMcpState(mcpState, onMcpToolCall, mcpClient);
+        wechatService?.setMcpState(mcpState, onMcpToolCall);
+        registerPromptCommands(mcpClient!);
+    };
+    mcpClient?.on('event', (event: McpClientEvent) => {
+        if (event.type === 'server_status' || event.type === 'tools_changed') {
+            refreshMcpState();
+        } else if (event.type === 'prompts_changed') {
+            registerPromptCommands(mcpClient!);
+        }
+    });
+    if (mcpClient) {
+        // Servers may have connected while the services were set up
+        refreshMcpState();
+    }
+
     // Start interactive chat (scrolling mode by default, fullscreen if requested)
     try {
         // Start background services
@@ -230,15 +348,19 @@ export async function runAgentMode(options: {
                 mcpState,
                 onMcpToolCall,
                 debug,
+                mcpClient,
                 modelTier: options.modelTier,
+                session,
             });
         } else {
             await startScrollingChat({
                 mcpState,
                 onMcpToolCall,
                 debug,
+                mcpClient,
                 wechatService,
                 modelTier: options.modelTier,
+                session,
             });
         }
     } finally {
@@ -248,6 +370,7 @@ export async function runAgentMode(options: {
         if (gatewayService) {
             await gatewayService.stop().catch(() => {});
         }
+        await unloadPlugins();
         await mcpClient?.disconnectAll();
     }
 }
@@ -0,0 +1,185 @@
+/**
+ * Audit Command
+ * Browse and follow the local tool call audit log
+ */
+
+import { Command } from 'commander';
+import { existsSync, openSync, readSync, closeSync, statSync } from 'fs';
+import {
+  getAuditLogPath,
+  readAuditLog,
+  parseAuditLines,
+  matchesAuditFilter,
+  type AuditEntry,
+  type AuditFilter,
+  type AuditChannel,
+} from '../mcp/audit.js';
+import { matchGlob } from '../utils/glob.js';
+import * as output from '../utils/output.js';
+
+const CHANNELS: AuditChannel[] = ['cli', 'gateway', 'wechat'];
+
+/** How often the log file is checked for new entries in --follow mode */
+const FOLLOW_INTERVAL_MS = 1000;
+
+interface AuditOptions {
+  since?: string;
+  until?: string;
+  channel?: string;
+  tool?: string;
+  conversation?: string;
+  limit: string;
+  follow?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Parse an absolute date ("2026-01-31", ISO timestamp) or a relative
+ * duration ("30m", "2h", "7d") counted back from now
+ */
+function parseWhen(value: string): Date {
+  const relative = value.match(/^(\d+)\s*(s|m|h|d|w)$/i);
+  if (relative) {
+    const unitMs: Record<string, number> = {
+      s: 1000,
+      m: 60 * 1000,
+      h: 60 * 60 * 1000,
+      d: 24 * 60 * 60 * 1000,
+      w: 7 * 24 * 60 * 60 * 1000,
+    };
+    return new Date(Date.now() - parseInt(relative[1], 10) * unitMs[relative[2].toLowerCase()]);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date or duration: ${value} (use e.g. 2026-01-31, 2h, 7d)`);
+  }
+  return date;
+}
+
+function buildFilter(options: AuditOptions): AuditFilter {
+  const filter: AuditFilter = {};
+
+  if (options.since) filter.since = parseWhen(options.since);
+  if (options.until) filter.until = parseWhen(options.until);
+  if (options.conversation) filter.conversationId = options.conversation;
+
+  if (options.channel) {
+    if (!CHANNELS.includes(options.channel as AuditChannel)) {
+      throw new Error(`Invalid channel: ${options.channel} (expected ${CHANNELS.join(', ')})`);
+    }
+    filter.channel = options.channel as AuditChannel;
+  }
+
+  if (options.tool) {
+    const pattern = options.tool;
+    filter.tool = (tool: string) => matchGlob(pattern, tool);
+  }
+
+  return filter;
+}
+
+function summarizeArgs(args: Record<string, unknown>): string {
+  const preferred = ['command', 'filePath', 'dirPath', 'path', 'pattern', 'url', 'pid', 'jobId'];
+  const key = preferred.find(k => args[k] !== undefined) ?? Object.keys(args)[0];
+  if (key === undefined) return '';
+  const value = typeof args[key] === 'string' ? args[key] as string : JSON.stringify(args[key]);
+  return `${key}=${output.truncate(value.replace(/\s+/g, ' '), 60)}`;
+}
+
+function printEntry(entry: AuditEntry, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(entry));
+    return;
+  }
+
+  const time = new Date(entry.timestamp).toLocaleString();
+  const status = entry.success ? output.colors.success('✓') : output.colors.error('✗');
+  const tool = entry.server ? `${entry.server}/${entry.tool}` : entry.tool;
+
+  console.log(
+    `${output.colors.dim(time)}  ${status} ${output.colors.primary(entry.channel.padEnd(7))} ` +
+    `${output.colors.bold(tool)} ${output.colors.dim(`(${output.formatDuration(entry.durationMs)}, ${entry.resultSize} chars)`)}`
+  );
+
+  const summary = summarizeArgs(entry.args);
+  if (summary) {
+    console.log(`    ${output.colors.dim(summary)}`);
+  }
+}
+
+/**
+ * Poll the log file for appended entries until interrupted
+ */
+function followLog(filter: AuditFilter, json: boolean): void {
+  const logPath = getAuditLogPath();
+  let offset = existsSync(logPath) ? statSync(logPath).size : 0;
+  let partial = '';
+
+  setInterval(() => {
+    if (!existsSync(logPath)) return;
+    const size = statSync(logPath).size;
+    if (size < offset) {
+      // Log was replaced; start over from the beginning
+      offset = 0;
+      partial = '';
+    }
+    if (size === offset) return;
+
+    const buffer = Buffer.alloc(size - offset);
+    const fd = openSync(logPath, 'r');
+    try {
+      readSync(fd, buffer, 0, buffer.length, offset);
+    } finally {
+      closeSync(fd);
+    }
+    offset = size;
+
+    const text = partial + buffer.toString('utf-8');
+    const lastNewline = text.lastIndexOf('\n');
+    partial = text.slice(lastNewline + 1);
+
+    for (const entry of parseAuditLines(text.slice(0, lastNewline + 1))) {
+      if (matchesAuditFilter(entry, filter)) printEntry(entry, json);
+    }
+  }, FOLLOW_INTERVAL_MS);
+}
+
+export const auditCommand = new Command('audit')
+  .description('Show the log of local tool calls (terminal, gateway, WeChat)')
+  .option('--since <when>', 'Only entries after a date or duration ago (e.g. 2026-01-31, 2h, 7d)')
+  .option('--until <when>', 'Only entries before a date or duration ago')
+  .option('-c, --channel <channel>', `Filter by channel (${CHANNELS.join(', ')})`)
+  .option('--tool <pattern>', 'Filter by tool name (glob, e.g. "paean_*_file")')
+  .option('--conversation <id>', 'Filter by conversation ID')
+  .option('--limit <n>', 'Number of most recent entries to show', '50')
+  .option('-f, --follow', 'Keep running and print new entries as they are logged')
+  .option('--json', 'Output entries as JSON lines')
+  .action((options: AuditOptions) => {
+    let filter: AuditFilter;
+    try {
+      filter = buildFilter(options);
+    } catch (err) {
+      output.error((err as Error).message);
+      process.exit(1);
+    }
+
+    const limit = Math.max(0, parseInt(options.limit, 10) || 50);
+    const entries = readAuditLog(filter).slice(-limit);
+
+    if (!options.json && entries.length === 0 && !options.follow) {
+      output.dim(`No matching entries in ${getAuditLogPath()}`);
+      return;
+    }
+
+    for (const entry of entries) {
+      printEntry(entry, options.json === true);
+    }
+
+    if (options.follow) {
+      if (!options.json) {
+        output.dim(`Following ${getAuditLogPath()} (Ctrl+C to stop)`);
+      }
+      followLog(filter, options.json === true);
+    }
+  });
@@ -0,0 +1,379 @@
+/**
+ * MCP Command
+ * Manage local MCP server configuration and check server connections
+ */
+
+import { Command } from 'commander';
+import {
+  McpClient,
+  resolveTransportType,
+  type McpConfigScope,
+  type McpServerConfig,
+} from '../mcp/client.js';
+import type { McpToolInfo } from '../agent/types.js';
+import * as output from '../utils/output.js';
+
+const SCOPES: McpConfigScope[] = ['global', 'project'];
+
+interface ScopeOption {
+  scope?: string;
+}
+
+interface AddOptions extends ScopeOption {
+  env: string[];
+  header: string[];
+  transport?: string;
+  cwd?: string;
+  force?: boolean;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseScope(value: string | undefined): McpConfigScope | undefined {
+  if (value === undefined) return undefined;
+  if (!SCOPES.includes(value as McpConfigScope)) {
+    throw new Error(`Invalid scope: ${value} (expected ${SCOPES.join(' or ')})`);
+  }
+  return value as McpConfigScope;
+}
+
+/**
+ * Parse repeated "KEY=VALUE" (or "Name: value" for headers) options
+ */
+function parsePairs(values: string[], separator: '=' | ':', label: string): Record<string, string> | undefined {
+  if (values.length === 0) return undefined;
+  const pairs: Record<string, string> = {};
+  for (const value of values) {
+    const index = value.indexOf(separator);
+    if (index <= 0) {
+      throw new Error(`Invalid ${label}: ${value} (expected ${separator === '=' ? 'KEY=VALUE' : 'Name: value'})`);
+    }
+    pairs[value.slice(0, index).trim()] = value.slice(index + 1).trim();
+  }
+  return pairs;
+}
+
+/**
+ * Resolve the scope a command acts on: the --scope option, or the scope
+ * that defines the server
+ */
+function resolveServerScope(client: McpClient, name: string, options: ScopeOption): McpConfigScope {
+  const scope = parseScope(options.scope) ?? client.findServerScope(name);
+  if (!scope || !client.readScopeConfig(scope).mcpServers[name]) {
+    const where = scope ? client.getScopeConfigPath(scope) : 'the global or project config';
+    throw new Error(`Server "${name}" not found in ${where}`);
+  }
+  return scope;
+}
+
+function describeServer(config: McpServerConfig): string {
+  if (config.url) return config.url;
+  return [config.command, ...(config.args || [])].filter(Boolean).join(' ');
+}
+
+function printTool(tool: McpToolInfo, withSchema: boolean): void {
+  console.log(`  ${output.colors.bold(tool.name)}`);
+  if (tool.description) {
+    const description = withSchema ? tool.description : output.truncate(tool.description.split('\n')[0], 100);
+    console.log(`    ${output.colors.dim(description)}`);
+  }
+  if (withSchema) {
+    const schema = JSON.stringify(tool.inputSchema, null, 2).split('\n');
+    for (const line of schema) {
+      console.log(`    ${line}`);
+    }
+  }
+}
+
+/**
+ * Connect to a single server, run `fn` and always disconnect
+ */
+async function withServer<T>(
+  name: string,
+  debug: boolean,
+  fn: (client: McpClient, tools: McpToolInfo[], latencyMs: number) => T | Promise<T>
+): Promise<T> {
+  const client = new McpClient({ debug });
+  if (!client.loadConfig()?.mcpServers[name]) {
+    throw new Error(`Server "${name}" not found in the global or project config`);
+  }
+
+  const startedAt = Date.now();
+  try {
+    await client.connect(name);
+    const tools = client.getAllTools().get(name) || [];
+    return await fn(client, tools, Date.now() - startedAt);
+  } catch (error) {
+    const detail = client.getServerError(name);
+    const message = (error as Error).message;
+    throw new Error(detail && detail !== message ? `${message}\n${detail}` : message);
+  } finally {
+    await client.disconnectAll();
+  }
+}
+
+function fail(error: unknown): never {
+  output.error((error as Error).message);
+  process.exit(1);
+}
+
+export const mcpCommand = new Command('mcp')
+  .description('Manage local MCP servers');
+
+// Subcommand: mcp list
+mcpCommand
+  .command('list')
+  .description('List configured MCP servers')
+  .option('--json', 'Output in JSON format')
+  .action((options) => {
+    const client = new McpClient();
+    const rows: Array<{ name: string; scope: McpConfigScope; config: McpServerConfig; overridden: boolean }> = [];
+
+    try {
+      const project = client.readScopeConfig('project').mcpServers;
+      const global = client.readScopeConfig('global').mcpServers;
+      for (const [name, config] of Object.entries(project)) {
+        rows.push({ name, scope: 'project', config, overridden: false });
+      }
+      for (const [name, config] of Object.entries(global)) {
+        rows.push({ name, scope: 'global', config, overridden: name in project });
+      }
+    } catch (error) {
+      fail(error);
+    }
+
+    if (options.json) {
+      output.json(rows.map(row => ({
+        name: row.name,
+        scope: row.scope,
+        transport: resolveTransportType(row.config),
+        enabled: !row.config.disabled && !row.overridden,
+        overridden: row.overridden,
+        config: row.config,
+      })));
+      return;
+    }
+
+    if (rows.length === 0) {
+      output.dim('No MCP servers configured. Add one with "openpaean mcp add <name> -- <command> [args...]".');
+      return;
+    }
+
+    output.header('MCP Servers');
+    for (const row of rows) {
+      let status = output.colors.success('enabled');
+      if (row.overridden) {
+        status = output.colors.dim('overridden by project');
+      } else if (row.config.disabled) {
+        status = output.colors.warning('disabled');
+      }
+      console.log(
+        `  ${output.colors.bold(row.name.padEnd(20))} ${output.colors.primary(row.scope.padEnd(8))} ` +
+        `${resolveTransportType(row.config).padEnd(6)} ${status}`
+      );
+      console.log(`    ${output.colors.dim(output.truncate(describeServer(row.config), 90))}`);
+    }
+    output.newline();
+    output.dim(`Global:  ${client.getScopeConfigPath('global')}`);
+    output.dim(`Project: ${client.getScopeConfigPath('project')}`);
+  });
+
+// Subcommand: mcp add
+mcpCommand
+  .command('add <name> <commandOrUrl> [args...]')
+  .description('Add a server (stdio command, or an http(s) URL for remote servers)')
+  .option('-s, --scope <scope>', 'Config to write: global or project', 'global')
+  .option('-e, --env <KEY=VALUE>', 'Environment variable for a stdio server (repeatable)', collect, [])
+  .option('-H, --header <header>', 'HTTP header for a remote server, e.g. "Authorization: Bearer ..." (repeatable)', collect, [])
+  .option('--transport <type>', 'Transport: stdio, http or sse (default: from commandOrUrl)')
+  .option('--cwd <dir>', 'Working directory for a stdio server')
+  .option('-f, --force', 'Replace an existing server with the same name')
+  .addHelpText('after', '\nPut "--" before the command when its arguments start with a dash:\n  openpaean mcp add github -- npx -y @modelcontextprotocol/server-github')
+  .action((name: string, commandOrUrl: string, args: string[], options: AddOptions) => {
+    const client = new McpClient();
+
+    try {
+      const scope = parseScope(options.scope)!;
+      const isUrl = /^https?:\/\//i.test(commandOrUrl);
+      const transport = options.transport ?? (isUrl ? undefined : 'stdio');
+      if (transport && !['stdio', 'http', 'sse'].includes(transport)) {
+        throw new Error(`Invalid transport: ${transport} (expected stdio, http or sse)`);
+      }
+      if (isUrl !== (transport !== 'stdio')) {
+        throw new Error(isUrl
+          ? 'The stdio transport needs a command, not a URL'
+          : `The ${transport} transport needs an http(s) URL`);
+      }
+
+      const server: McpServerConfig = isUrl
+        ? {
+          url: commandOrUrl,
+          headers: parsePairs(options.header, ':', 'header'),
+          transport: transport as McpServerConfig['transport'],
+        }
+        : {
+          command: commandOrUrl,
+          args: args.length > 0 ? args : undefined,
+          env: parsePairs(options.env, '=', 'environment variable'),
+          cwd: options.cwd,
+        };
+
+      const config = client.readScopeConfig(scope);
+      if (config.mcpServers[name] && !options.force) {
+        throw new Error(`Server "${name}" already exists in ${client.getScopeConfigPath(scope)} (use --force to replace it)`);
+      }
+
+      // Drop unset fields so the file stays tidy
+      config.mcpServers[name] = JSON.parse(JSON.stringify(server)) as McpServerConfig;
+      client.writeScopeConfig(scope, config);
+
+      output.success(`Added MCP server "${name}" to ${client.getScopeConfigPath(scope)}`);
+      output.dim(`Check it with "openpaean mcp test ${name}"`);
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+// Subcommand: mcp remove
+mcpCommand
+  .command('remove <name>')
+  .description('Remove a server from the config')
+  .option('-s, --scope <scope>', 'Config to edit: global or project (default: where the server is defined)')
+  .action((name: string, options: ScopeOption) => {
+    const client = new McpClient();
+
+    try {
+      const scope = resolveServerScope(client, name, options);
+      const config = client.readScopeConfig(scope);
+      delete config.mcpServers[name];
+      client.writeScopeConfig(scope, config);
+      output.success(`Removed MCP server "${name}" from ${client.getScopeConfigPath(scope)}`);
+
+      const other = scope === 'project' ? 'global' : 'project';
+      if (client.readScopeConfig(other).mcpServers[name]) {
+        output.warning(`"${name}" is still defined in the ${other} config (${client.getScopeConfigPath(other)})`);
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+/**
+ * Shared action for `mcp enable` and `mcp disable`
+ */
+function setServerDisabled(name: string, options: ScopeOption, disabled: boolean): void {
+  const client = new McpClient();
+
+  try {
+    const scope = resolveServerScope(client, name, options);
+    const config = client.readScopeConfig(scope);
+    if (disabled) {
+      config.mcpServers[name].disabled = true;
+    } else {
+      delete config.mcpServers[name].disabled;
+    }
+    client.writeScopeConfig(scope, config);
+    output.success(`${disabled ? 'Disabled' : 'Enabled'} MCP server "${name}" in ${client.getScopeConfigPath(scope)}`);
+  } catch (error) {
+    fail(error);
+  }
+}
+
+// Subcommand: mcp enable
+mcpCommand
+  .command('enable <name>')
+  .description('Connect to a disabled server again at startup')
+  .option('-s, --scope <scope>', 'Config to edit: global or project (default: where the server is defined)')
+  .action((name: string, options: ScopeOption) => setServerDisabled(name, options, false));
+
+// Subcommand: mcp disable
+mcpCommand
+  .command('disable <name>')
+  .description('Keep a server in the config but stop connecting to it at startup')
+  .option('-s, --scope <scope>', 'Config to edit: global or project (default: where the server is defined)')
+  .action((name: string, options: ScopeOption) => setServerDisabled(name, options, true));
+
+// Subcommand: mcp test
+mcpCommand
+  .command('test <name>')
+  .description('Connect to a server and show its latency, capabilities and tool schemas')
+  .option('--json', 'Output in JSON format')
+  .option('--verbose', 'Show MCP protocol debug logs')
+  .action(async (name: string, options) => {
+    const spin = options.json ? null : output.spinner(`Connecting to ${name}...`).start();
+
+    try {
+      await withServer(name, options.verbose === true, (client, tools, latencyMs) => {
+        spin?.stop();
+        const info = client.getServerInfo(name)!;
+        const resources = client.getAllResources().get(name)?.length ?? 0;
+        const prompts = client.getAllPrompts().get(name)?.length ?? 0;
+
+        if (options.json) {
+          output.json({ name, latencyMs, server: info, resources, prompts, tools });
+          return;
+        }
+
+        output.success(`Connected to "${name}" in ${output.formatDuration(latencyMs)}`);
+        output.newline();
+        if (info.name) {
+          output.tableRow('Server', info.version ? `${info.name} ${info.version}` : info.name, 12);
+        }
+        output.tableRow('Transport', info.transport, 12);
+        if (info.protocolVersion) {
+          output.tableRow('Protocol', info.protocolVersion, 12);
+        }
+        output.tableRow('Capabilities', Object.keys(info.capabilities).join(', ') || 'none', 12);
+        output.tableRow('Tools', String(tools.length), 12);
+        output.tableRow('Resources', String(resources), 12);
+        output.tableRow('Prompts', String(prompts), 12);
+
+        if (tools.length > 0) {
+          output.newline();
+          for (const tool of tools) {
+            printTool(tool, true);
+          }
+        }
+      });
+    } catch (error) {
+      spin?.stop();
+      output.error(`Failed to connect to "${name}"`);
+      output.dim((error as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Subcommand: mcp tools
+mcpCommand
+  .command('tools <name>')
+  .description('List the tools a server provides')
+  .option('--json', 'Output in JSON format')
+  .action(async (name: string, options) => {
+    const spin = options.json ? null : output.spinner(`Connecting to ${name}...`).start();
+
+    try {
+      await withServer(name, false, (_client, tools) => {
+        spin?.stop();
+
+        if (options.json) {
+          output.json(tools);
+          return;
+        }
+
+        if (tools.length === 0) {
+          output.dim(`"${name}" provides no tools.`);
+          return;
+        }
+
+        output.header(`${name} (${tools.length} tools)`);
+        for (const tool of tools) {
+          printTool(tool, false);
+        }
+      });
+    } catch (error) {
+      spin?.stop();
+      fail(error);
+    }
+  });
@@ -0,0 +1,66 @@
+/**
+ * Plugins Command
+ * Show the plugin modules the CLI loads
+ */
+
+import { Command } from 'commander';
+import { inspectPlugins, getPluginDirectories } from '../mcp/plugins.js';
+import * as output from '../utils/output.js';
+
+export const pluginsCommand = new Command('plugins')
+  .description('Manage plugin modules');
+
+// Subcommand: plugins list
+pluginsCommand
+  .command('list')
+  .description('List plugins in .openpaean/plugins and ~/.openpaean/plugins')
+  .option('--json', 'Output in JSON format')
+  .action(async (options) => {
+    // Imports each plugin to read its definition; factories and hooks are not run
+    const plugins = await inspectPlugins();
+
+    if (options.json) {
+      output.json(plugins);
+      return;
+    }
+
+    const directories = getPluginDirectories();
+    if (plugins.length === 0) {
+      output.dim('No plugins found. Add .js, .mjs or .ts modules to:');
+      for (const { dir } of directories) {
+        output.dim(`  ${dir}`);
+      }
+      return;
+    }
+
+    output.header('Plugins');
+    for (const plugin of plugins) {
+      const status = plugin.status === 'loaded'
+        ? output.colors.success('ok')
+        : output.colors.error('failed');
+      console.log(
+        `  ${output.colors.bold(plugin.name.padEnd(20))} ${output.colors.primary(plugin.scope.padEnd(8))} ` +
+        `${(plugin.version || '').padEnd(8)} ${status}`
+      );
+      if (plugin.description) {
+        console.log(`    ${output.colors.dim(output.truncate(plugin.description, 90))}`);
+      }
+      if (plugin.error) {
+        console.log(`    ${output.colors.error(plugin.error)}`);
+      }
+      for (const warning of plugin.warnings) {
+        console.log(`    ${output.colors.warning(warning)}`);
+      }
+      if (plugin.tools.length > 0) {
+        console.log(`    Tools:    ${plugin.tools.join(', ')}`);
+      }
+      if (plugin.commands.length > 0) {
+        console.log(`    Commands: ${plugin.commands.join(', ')}`);
+      }
+      console.log(`    ${output.colors.dim(plugin.path)}`);
+    }
+    output.newline();
+    for (const { dir, scope } of directories) {
+      output.dim(`${scope === 'global' ? 'Global: ' : 'Project:'} ${dir}`);
+    }
+  });
@@ -10,6 +10,12 @@ import { startMcpServer } from '../mcp/server.js';
 export const serveCommand = new Command('serve')
   .description('Start MCP server for AI agent integration')
   .option('--stdio', 'Use stdio transport (default)', true)
+  .option('--http', 'Serve over Streamable HTTP so several clients can share the server')
+  .option('--port <port>', 'HTTP port', '7777')
+  .option('--host <host>', 'HTTP interface to listen on', '127.0.0.1')
+  .option('--token <token>', 'Require this bearer token (default: $OPENPAEAN_SERVE_TOKEN, else a generated one)')
+  .option('--cors <origins>', 'Comma-separated browser origins allowed to connect ("*" for any)')
+  .option('--session-timeout <minutes>', 'Close idle HTTP sessions after this many minutes', '30')
   .option('--debug', 'Enable debug logging')
   .action(async (options) => {
     if (!isAuthenticated()) {
@@ -18,9 +24,27 @@ export const serveCommand = new Command('serve')
       process.exit(1);
     }
 
+    const port = parseInt(options.port, 10);
+    const sessionTimeout = parseFloat(options.sessionTimeout);
+    if (options.http && (!Number.isInteger(port) || port <= 0 || port > 65535)) {
+      console.error(`Error: Invalid port: ${options.port}`);
+      process.exit(1);
+    }
+
     try {
       await startMcpServer({
         debug: options.debug,
+        http: options.http
+          ? {
+            port,
+            host: options.host,
+            authToken: options.token || process.env.OPENPAEAN_SERVE_TOKEN || undefined,
+            allowedOrigins: options.cors
+              ? String(options.cors).split(',').map((origin: string) => origin.trim()).filter(Boolean)
+              : [],
+            sessionTimeoutMs: sessionTimeout > 0 ? sessionTimeout * 60 * 1000 : undefined,
+          }
+          : undefined,
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
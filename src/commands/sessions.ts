@@ -0,0 +1,151 @@
+/**
+ * Sessions Command
+ * List, show and delete stored session transcripts
+ */
+
+import { Command } from 'commander';
+import {
+  listSessions,
+  findSession,
+  deleteSession,
+  getSessionsDir,
+  SessionTranscript,
+  type SessionRecord,
+  type SessionSummary,
+} from '../agent/sessions.js';
+import * as output from '../utils/output.js';
+
+/**
+ * Look up a session or exit with an error
+ */
+function resolveSession(id: string): SessionSummary {
+  let session: SessionSummary | null;
+  try {
+    session = findSession(id);
+  } catch (error) {
+    output.error((error as Error).message);
+    process.exit(1);
+  }
+  if (!session) {
+    output.error(`Session not found: ${id}`);
+    process.exit(1);
+  }
+  return session;
+}
+
+function printRecord(record: SessionRecord, results: Map<string, SessionRecord>): void {
+  switch (record.type) {
+    case 'message':
+      if (record.role === 'user') {
+        console.log(`\n${output.colors.primary('◉')} ${output.colors.bold(record.content)}`);
+      } else if (record.role === 'assistant') {
+        console.log(`\n${record.content}`);
+      } else {
+        console.log(`\n${output.colors.error(`Error: ${record.content}`)}`);
+      }
+      break;
+
+    case 'tool_call': {
+      const result = results.get(record.callId);
+      const status = !result
+        ? output.colors.dim('…')
+        : result.type === 'tool_result' && result.isError
+          ? output.colors.error('✗')
+          : output.colors.success('✓');
+      const args = JSON.stringify(record.args);
+      console.log(
+        `${output.colors.dim('  ⚡')} ${output.colors.dim(`[${record.server}]`)} ${record.tool} ${status} ` +
+        output.colors.dim(output.truncate(args, 80))
+      );
+      break;
+    }
+  }
+}
+
+export const sessionsCommand = new Command('sessions')
+  .description('Browse stored sessions (resume one with openpaean --resume <id>)');
+
+// Subcommand: sessions list
+sessionsCommand
+  .command('list')
+  .description('List sessions of the current project, most recent first')
+  .option('--all', 'List sessions of all projects')
+  .option('--limit <n>', 'Number of sessions to show', '20')
+  .option('--json', 'Output in JSON format')
+  .action((options: { all?: boolean; limit: string; json?: boolean }) => {
+    const limit = Math.max(0, parseInt(options.limit, 10) || 20);
+    const sessions = listSessions({ all: options.all }).slice(0, limit);
+
+    if (options.json) {
+      output.json(sessions);
+      return;
+    }
+
+    if (sessions.length === 0) {
+      output.dim(`No sessions in ${getSessionsDir()}`);
+      return;
+    }
+
+    output.header('Sessions');
+    for (const session of sessions) {
+      const counts = `${session.messageCount} messages, ${session.toolCallCount} tool calls`;
+      console.log(
+        `  ${output.colors.bold(session.id)}  ${output.colors.dim(new Date(session.updatedAt).toLocaleString())}  ` +
+        output.colors.dim(counts)
+      );
+      console.log(`    ${output.truncate(session.title || '(no messages)', 90)}`);
+      if (options.all) {
+        console.log(`    ${output.colors.dim(session.cwd)}`);
+      }
+    }
+    output.newline();
+    output.dim('Resume with: openpaean --resume <id>');
+  });
+
+// Subcommand: sessions show
+sessionsCommand
+  .command('show <id>')
+  .description('Show the transcript of a session (ID or unique prefix)')
+  .option('--json', 'Output the raw transcript records')
+  .action((id: string, options: { json?: boolean }) => {
+    const session = resolveSession(id);
+    const transcript = SessionTranscript.load(session.path);
+    const records = transcript?.getRecords() ?? [];
+
+    if (options.json) {
+      output.json(records);
+      return;
+    }
+
+    output.header(`Session ${session.id}`);
+    output.tableRow('Started', new Date(session.createdAt).toLocaleString());
+    output.tableRow('Updated', new Date(session.updatedAt).toLocaleString());
+    output.tableRow('Directory', session.cwd);
+    if (session.conversationId) {
+      output.tableRow('Conversation', session.conversationId);
+    }
+
+    const results = new Map<string, SessionRecord>();
+    for (const record of records) {
+      if (record.type === 'tool_result') results.set(record.callId, record);
+    }
+    for (const record of records) {
+      printRecord(record, results);
+    }
+    output.newline();
+  });
+
+// Subcommand: sessions delete
+sessionsCommand
+  .command('delete <id>')
+  .description('Delete a session transcript (ID or unique prefix)')
+  .action((id: string) => {
+    const session = resolveSession(id);
+    try {
+      deleteSession(session);
+      output.success(`Deleted session ${session.id}`);
+    } catch (error) {
+      output.error(`Could not delete ${session.path}: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  });
@@ -11,6 +11,8 @@ import os from 'os';
 import { agentService } from '../agent/service.js';
 import type { McpToolResult, AgentStreamCallbacks, McpState } from '../agent/types.js';
 import { executeSystemTool } from '../mcp/system.js';
+import { auditToolCall } from '../mcp/audit.js';
+import { formatRedactionReport, type RedactionReport } from '../mcp/redaction.js';
 import { sendHeartbeat, type WorkerStatus as ApiWorkerStatus } from '../api/worker-api.js';
 import {
     pollGatewayRequests,
@@ -23,6 +25,7 @@ import {
     type GatewayStreamEvent,
 } from '../api/gateway-api.js';
 import { getConfig } from '../utils/config.js';
+import { onReloginRequired } from '../api/token.js';
 
 export interface GatewayConfig {
     pollInterval: number;
@@ -58,6 +61,7 @@ export type GatewayEvent =
     | { type: 'request_failed'; request: GatewayRequest; error: string }
     | { type: 'poll_empty' }
     | { type: 'error'; error: string }
+    | { type: 'auth_expired'; error: string }
     | { type: 'remote_content'; text: string; partial: boolean }
     | { type: 'remote_tool_call'; id: string; name: string; serverName?: string; isMcp: boolean }
     | { type: 'remote_tool_result'; id: string; name: string; status: 'completed' | 'error' }
@@ -70,6 +74,7 @@ export class GatewayService extends EventEmitter {
     private pollTimer: ReturnType<typeof setInterval> | null = null;
     private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
     private abortController: AbortController | null = null;
+    private unsubscribeRelogin: (() => void) | null = null;
 
     private mcpState: unknown = null;
     private onMcpToolCall: unknown = null;
@@ -139,6 +144,10 @@ export class GatewayService extends EventEmitter {
         };
 
         this.abortController = new AbortController();
+        this.unsubscribeRelogin = onReloginRequired((message) => {
+            this.log(message);
+            this.emit('event', { type: 'auth_expired', error: message } as GatewayEvent);
+        });
         this.emit('event', { type: 'started' } as GatewayEvent);
 
         await this.registerWithCloud();
@@ -181,6 +190,8 @@ export class GatewayService extends EventEmitter {
             this.abortController.abort();
             this.abortController = null;
         }
+        this.unsubscribeRelogin?.();
+        this.unsubscribeRelogin = null;
 
         if (this.mcpClient && typeof (this.mcpClient as { disconnectAll?: () => Promise<void> }).disconnectAll === 'function') {
             try {
@@ -344,42 +355,19 @@ export class GatewayService extends EventEmitter {
                     eventBuffer.push({ type: 'mcp_tool_call', data: { callId, serverName, toolName } });
                     this.emit('event', { type: 'remote_tool_call', id: callId, name: toolName, serverName, isMcp: true } as GatewayEvent);
 
-                    let mcpResult: McpToolResult;
-
-                    if (typeof this.onMcpToolCall === 'function') {
-                        try {
-                            mcpResult = await (this.onMcpToolCall as (
-                                callId: string,
-                                serverName: string,
-                                toolName: string,
-                                args: Record<string, unknown>
-                            ) => Promise<McpToolResult>)(callId, serverName, toolName, args);
-                        } catch (error) {
-                            mcpResult = {
-                                content: [{ type: 'text' as const, text: `Error: ${error instanceof Error ? error.message : error}` }],
-                                isError: true,
-                            };
-                        }
-                    } else if (toolName.startsWith('paean_execute') || toolName.startsWith('paean_check') || toolName.startsWith('paean_kill')) {
-                        const result = await executeSystemTool(toolName, args, {
-                            autonomousMode: true,
-                            debug: this.config.debug,
-                        }) as { success: boolean; [key: string]: unknown };
-                        mcpResult = {
-                            content: [{ type: 'text' as const, text: JSON.stringify(result) }],
-                            isError: !result.success,
-                        };
-                    } else {
-                        mcpResult = {
-                            content: [{ type: 'text' as const, text: 'MCP not available' }],
-                            isError: true,
-                        };
-                    }
+                    const mcpResult = await auditToolCall(
+                        { channel: 'gateway', conversationId: request.conversationHashKey, callId, serverName, toolName, args },
+                        () => this.runMcpToolCall(callId, serverName, toolName, args),
+                    );
 
                     this.emit('event', { type: 'remote_tool_result', id: callId, name: toolName, status: mcpResult.isError ? 'error' : 'completed' } as GatewayEvent);
                     return mcpResult;
                 },
 
+                onRedaction: (_callId: string, toolName: string, report: RedactionReport) => {
+                    this.log(`${toolName}: ${formatRedactionReport(report)}`);
+                },
+
                 onError: (error: string) => {
                     hasError = true;
                     errorMessage = error;
@@ -417,6 +405,48 @@ export class GatewayService extends EventEmitter {
         });
     }
 
+    /**
+     * Execute an MCP tool call for a remote request
+     */
+    private async runMcpToolCall(
+        callId: string,
+        serverName: string,
+        toolName: string,
+        args: Record<string, unknown>
+    ): Promise<McpToolResult> {
+        if (typeof this.onMcpToolCall === 'function') {
+            try {
+                return await (this.onMcpToolCall as (
+                    callId: string,
+                    serverName: string,
+                    toolName: string,
+                    args: Record<string, unknown>
+                ) => Promise<McpToolResult>)(callId, serverName, toolName, args);
+            } catch (error) {
+                return {
+                    content: [{ type: 'text' as const, text: `Error: ${error instanceof Error ? error.message : error}` }],
+                    isError: true,
+                };
+            }
+        }
+
+        if (toolName.startsWith('paean_execute') || toolName.startsWith('paean_check') || toolName.startsWith('paean_kill')) {
+            const result = await executeSystemTool(toolName, args, {
+                autonomousMode: true,
+                debug: this.config.debug,
+            }) as { success: boolean; [key: string]: unknown };
+            return {
+                content: [{ type: 'text' as const, text: JSON.stringify(result) }],
+                isError: !result.success,
+            };
+        }
+
+        return {
+            content: [{ type: 'text' as const, text: 'MCP not available' }],
+            isError: true,
+        };
+    }
+
     private async finishRequest(
         request: GatewayRequest,
         success: boolean,
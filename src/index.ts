@@ -5,6 +5,15 @@
 
 // API Client
 export { createApiClient, createNonClearingApiClient, getApiClient, getPublicApiClient } from './api/client.js';
+export {
+  authFetch,
+  getRefreshOutcome,
+  getValidToken,
+  refreshAuthToken,
+  onReloginRequired,
+  RELOGIN_MESSAGE,
+  type RefreshOutcome,
+} from './api/token.js';
 
 // Authentication
 export {
@@ -79,16 +88,45 @@ export {
 } from './utils/project.js';
 
 // MCP Server
-export { startMcpServer, type McpServerOptions } from './mcp/server.js';
-export { getMcpResources, readMcpResource } from './mcp/resources.js';
+export { startMcpServer, type McpServerOptions, type McpHttpOptions } from './mcp/server.js';
+export {
+  getMcpResources,
+  getMcpResourceTemplates,
+  readMcpResource,
+  onTasksChanged,
+  notifyTasksChanged,
+} from './mcp/resources.js';
+export { getMcpPrompts, getMcpPrompt } from './mcp/server-prompts.js';
 export {
   getMcpTools,
   executeMcpTool,
   registerCustomTools,
   unregisterCustomTool,
   loadCustomToolsFromJson,
+  watchCustomToolsFile,
+  getCustomTools,
+  createLocalToolProvider,
+  LOCAL_TOOLS_SERVER_NAME,
+  TASK_MUTATION_TOOL_NAMES,
   type CustomToolHandler,
+  type LoadCustomToolsOptions,
 } from './mcp/tools.js';
+export { expandTemplate, expandArgv, type CustomToolDefinition } from './mcp/custom-tools.js';
+
+// Plugins (.openpaean/plugins modules with tools, slash commands and hooks)
+export {
+  loadPlugins,
+  unloadPlugins,
+  inspectPlugins,
+  getLoadedPlugins,
+  getPluginCommands,
+  runPluginCommand,
+  type OpenPaeanPlugin,
+  type PluginCommand,
+  type PluginCommandResult,
+  type PluginContext,
+  type PluginInfo,
+} from './mcp/plugins.js';
 
 // System Tools (shell, filesystem, process)
 export {
@@ -97,8 +135,77 @@ export {
   isCommandWhitelisted,
   isDangerousCommand,
   getCommandWhitelist,
+  onShellOutput,
+  abortShellCommands,
+  type ShellOutputEvent,
 } from './mcp/system.js';
 
+// Tool Permission Policy (allow / ask / deny rules for guarded system tools)
+export {
+  authorizeToolCall,
+  evaluatePermission,
+  setApprovalHandler,
+  clearSessionPermissions,
+  GUARDED_TOOL_NAMES,
+  type PermissionRule,
+  type PermissionAction,
+  type ApprovalRequest,
+  type ApprovalDecision,
+  type ApprovalHandler,
+} from './mcp/permissions.js';
+
+// Filesystem Sandbox (workspace roots + sensitive-path denylist)
+export {
+  checkPathAccess,
+  getWorkspaceRoots,
+  getSensitivePathPatterns,
+  type PathAccessMode,
+  type PathAccessResult,
+} from './mcp/sandbox.js';
+
+// Background Jobs (captured output of background shell commands)
+export {
+  startBackgroundJob,
+  listBackgroundJobs,
+  getBackgroundJob,
+  getJobOutput,
+  stopBackgroundJob,
+  getRunningJobCount,
+  clearAllBackgroundJobs,
+  getJobToolDefinitions,
+  executeJobTool,
+  JOB_TOOL_NAMES,
+  type BackgroundJob,
+  type JobOutputLine,
+  type JobStatus,
+} from './mcp/jobs.js';
+
+// Tool Call Audit Log (append-only record of local tool calls)
+export {
+  auditToolCall,
+  appendAuditEntry,
+  readAuditLog,
+  getAuditLogPath,
+  redactAuditArgs,
+  type AuditEntry,
+  type AuditContext,
+  type AuditFilter,
+  type AuditChannel,
+} from './mcp/audit.js';
+
+// Tool Result Redaction (secrets scrubbed before results are submitted)
+export {
+  redactToolResult,
+  redactText,
+  registerRedactionDetector,
+  unregisterRedactionDetector,
+  getRedactionDetectors,
+  formatRedactionReport,
+  type RedactionDetector,
+  type RedactionReport,
+  type RedactionRuleConfig,
+} from './mcp/redaction.js';
+
 // Loop Tools (session-scoped, prompt-injection based recurring tasks)
 export {
   getLoopToolDefinitions,
@@ -129,12 +236,77 @@ export {
 } from './mcp/cli-agents.js';
 
 // MCP Client (for local MCP server integration)
-export { McpClient } from './mcp/client.js';
+export {
+  McpClient,
+  resolveTransportType,
+  RESOURCE_TOOL_NAMES,
+  type McpServerConfig,
+  type McpConfig,
+  type McpConfigScope,
+  type McpServerInfo,
+  type McpServerTimeouts,
+  type McpServerStatus,
+  type McpServerState,
+  type McpSupervisorOptions,
+  type LocalToolProvider,
+  type McpResourceInfo,
+  type McpResourceTemplateInfo,
+  type McpResourceContents,
+  type McpPromptInfo,
+  type McpPromptResult,
+  type McpClientEvent,
+  type McpLogLevel,
+} from './mcp/client.js';
+export type { McpTransport, McpTransportType } from './mcp/transport.js';
+export {
+  namespaceToolName,
+  buildToolNamespace,
+  isToolAllowed,
+  formatToolCollision,
+  TOOL_NAME_SEPARATOR,
+  type ToolFilter,
+  type NamespacedTool,
+  type ToolCollision,
+} from './mcp/namespacing.js';
+export { resolveServerConfig, resolveConfigValue, interpolateVariables } from './mcp/interpolation.js';
+export {
+  validateToolArguments,
+  formatArgumentErrors,
+  type ArgumentValidation,
+} from './mcp/schema.js';
+
+// MCP server prompts as slash commands, resources as @server:uri attachments
+export {
+  getPromptCommands,
+  registerPromptCommands,
+  findPromptCommand,
+  parsePromptArguments,
+  expandPromptCommand,
+  type PromptCommand,
+} from './mcp/prompts.js';
+export {
+  findResourceMentions,
+  expandResourceMentions,
+  type ResourceMention,
+} from './mcp/attachments.js';
 
 // Agent Mode
 export {
   AgentService,
   agentService,
+  PaeanCloudProvider,
+  OpenAICompatibleProvider,
+  getInferenceProvider,
+  setInferenceProviderName,
+  type InferenceProvider,
+  type InferenceProviderName,
+  SessionTranscript,
+  listSessions,
+  findSession,
+  exportSession,
+  type SessionExportFormat,
+  type SessionRecord,
+  type SessionSummary,
   startChat,
   sendMessage,
   renderMarkdown,
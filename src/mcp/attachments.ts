@@ -0,0 +1,103 @@
+/**
+ * MCP Resource Attachments
+ * Expand `@server:uri` mentions in user input into the resource contents
+ *
+ *   Summarize @docs:file:///guides/setup.md
+ *
+ * reads `file:///guides/setup.md` from the connected `docs` server and
+ * appends it to the message. Mentions of servers that are not connected or
+ * expose no resources are left as plain text.
+ */
+
+import type { McpClient, McpResourceContents } from './client.js';
+
+/**
+ * A resource mention found in user input
+ */
+export interface ResourceMention {
+    /** Mention as typed, e.g. "@docs:file:///setup.md" */
+    raw: string;
+    serverName: string;
+    uri: string;
+}
+
+/** Larger text resources are truncated to this many characters */
+const MAX_ATTACHMENT_CHARS = 100000;
+
+const MENTION_PATTERN = /(^|\s)@([A-Za-z0-9_.-]+):(\S+)/g;
+
+/**
+ * Find `@server:uri` mentions of the given servers
+ */
+export function findResourceMentions(message: string, serverNames: Set<string>): ResourceMention[] {
+    const mentions: ResourceMention[] = [];
+    for (const match of message.matchAll(MENTION_PATTERN)) {
+        const serverName = match[2];
+        if (!serverNames.has(serverName)) continue;
+
+        // Trailing punctuation belongs to the sentence, not the URI
+        const uri = match[3].replace(/[.,;:!?)\]'"]+$/, '');
+        if (!uri) continue;
+
+        mentions.push({ raw: `@${serverName}:${uri}`, serverName, uri });
+    }
+    return mentions;
+}
+
+function renderContents(mention: ResourceMention, contents: McpResourceContents[]): string {
+    const blocks = contents.map((item) => {
+        const mimeType = item.mimeType ? ` mimeType="${item.mimeType}"` : '';
+        let body: string;
+        if (item.text !== undefined) {
+            body = item.text.length > MAX_ATTACHMENT_CHARS
+                ? `${item.text.slice(0, MAX_ATTACHMENT_CHARS)}\n[... truncated, ${item.text.length} characters total]`
+                : item.text;
+        } else {
+            body = `[Binary content, ${Math.floor((item.blob?.length || 0) * 3 / 4)} bytes]`;
+        }
+        return `<attached-resource server="${mention.serverName}" uri="${item.uri}"${mimeType}>\n${body}\n</attached-resource>`;
+    });
+    return blocks.join('\n\n');
+}
+
+/**
+ * Read every resource mentioned in a message and append the contents.
+ * Resources that cannot be read are reported in `errors` and skipped.
+ */
+export async function expandResourceMentions(
+    message: string,
+    client: McpClient
+): Promise<{ message: string; attached: ResourceMention[]; errors: string[] }> {
+    const serverNames = new Set(client.getAllResources().keys());
+    const mentions = findResourceMentions(message, serverNames);
+    if (mentions.length === 0) {
+        return { message, attached: [], errors: [] };
+    }
+
+    const attached: ResourceMention[] = [];
+    const errors: string[] = [];
+    const blocks: string[] = [];
+    const seen = new Set<string>();
+
+    for (const mention of mentions) {
+        if (seen.has(mention.raw)) continue;
+        seen.add(mention.raw);
+
+        try {
+            const contents = await client.readResource(mention.serverName, mention.uri);
+            if (contents.length === 0) {
+                errors.push(`${mention.raw}: resource is empty`);
+                continue;
+            }
+            blocks.push(renderContents(mention, contents));
+            attached.push(mention);
+        } catch (error) {
+            errors.push(`${mention.raw}: ${(error as Error).message}`);
+        }
+    }
+
+    if (blocks.length === 0) {
+        return { message, attached, errors };
+    }
+    return { message: `${message}\n\n${blocks.join('\n\n')}`, attached, errors };
+}
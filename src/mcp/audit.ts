@@ -0,0 +1,209 @@
+/**
+ * Tool Call Audit Log (Open Source)
+ *
+ * Keeps a durable record of every local tool call the agent makes, whichever
+ * channel asked for it (terminal, gateway, WeChat).
+ *
+ * Entries are appended as JSON lines to ~/.openpaean/audit.jsonl. The file is
+ * only ever appended to; arguments are redacted before they are written and
+ * results are recorded by size and hash, never by content.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type { McpToolResult } from '../agent/types.js';
+import { getRedactionDetectors, redactText, type RedactionDetector } from './redaction.js';
+
+// ============================================
+// Types
+// ============================================
+
+/** Where a tool call came from */
+export type AuditChannel = 'cli' | 'gateway' | 'wechat';
+
+/**
+ * A single audit log entry
+ */
+export interface AuditEntry {
+    /** ISO timestamp of when the call started */
+    timestamp: string;
+    channel: AuditChannel;
+    conversationId: string | null;
+    callId: string;
+    server: string;
+    tool: string;
+    /** Arguments with secrets and large values redacted */
+    args: Record<string, unknown>;
+    durationMs: number;
+    success: boolean;
+    /** Total length of the result text */
+    resultSize: number;
+    /** sha256 of the result text (first 16 hex characters) */
+    resultHash: string;
+}
+
+/**
+ * Context of a tool call being audited
+ */
+export interface AuditContext {
+    channel: AuditChannel;
+    conversationId?: string | null;
+    callId: string;
+    serverName: string;
+    toolName: string;
+    args: Record<string, unknown>;
+}
+
+/**
+ * Audit log filter (all fields optional)
+ */
+export interface AuditFilter {
+    since?: Date;
+    until?: Date;
+    channel?: AuditChannel;
+    /** Tool name, or a predicate for glob matching */
+    tool?: string | ((tool: string) => boolean);
+    conversationId?: string;
+}
+
+// ============================================
+// Redaction
+// ============================================
+
+/** Argument keys whose values are never written to the log */
+const SECRET_KEY_PATTERN = /token|secret|password|passwd|api[_-]?key|auth|credential|cookie|private[_-]?key/i;
+
+/** Longer string values are shortened to this many characters */
+const MAX_ARG_STRING_LENGTH = 200;
+
+function redactValue(key: string, value: unknown, depth: number, detectors: RedactionDetector[]): unknown {
+    if (SECRET_KEY_PATTERN.test(key)) return '[REDACTED]';
+
+    if (typeof value === 'string') {
+        const redacted = redactText(value, detectors).text;
+        return redacted.length > MAX_ARG_STRING_LENGTH
+            ? `${redacted.slice(0, MAX_ARG_STRING_LENGTH)}… (${redacted.length} chars)`
+            : redacted;
+    }
+    if (depth >= 4 || value === null || typeof value !== 'object') return value;
+    if (Array.isArray(value)) {
+        return value.map(item => redactValue('', item, depth + 1, detectors));
+    }
+    return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>)
+            .map(([k, v]) => [k, redactValue(k, v, depth + 1, detectors)])
+    );
+}
+
+/**
+ * Redact tool arguments for the audit log and session transcripts:
+ * secret-looking keys are masked, string values go through the redaction
+ * detectors (tokens inside commands, URLs, file contents) and long strings
+ * are shortened.
+ */
+export function redactAuditArgs(args: Record<string, unknown>): Record<string, unknown> {
+    return redactValue('', args, 0, getRedactionDetectors()) as Record<string, unknown>;
+}
+
+// ============================================
+// Writing
+// ============================================
+
+/**
+ * Get the audit log file path
+ */
+export function getAuditLogPath(): string {
+    return join(homedir(), '.openpaean', 'audit.jsonl');
+}
+
+/**
+ * Append an entry to the audit log.
+ * Failures are swallowed: auditing must never break a tool call.
+ */
+export function appendAuditEntry(entry: AuditEntry): void {
+    try {
+        const logPath = getAuditLogPath();
+        mkdirSync(dirname(logPath), { recursive: true });
+        appendFileSync(logPath, JSON.stringify(entry) + '\n', { mode: 0o600 });
+    } catch {
+        // Ignore: the log is best-effort
+    }
+}
+
+/**
+ * Run a tool call and record it in the audit log
+ */
+export async function auditToolCall(
+    context: AuditContext,
+    run: () => Promise<McpToolResult>
+): Promise<McpToolResult> {
+    const startedAt = new Date();
+    let result: McpToolResult | undefined;
+
+    try {
+        result = await run();
+        return result;
+    } finally {
+        const text = result?.content.map(item => item.text ?? '').join('\n') ?? '';
+        appendAuditEntry({
+            timestamp: startedAt.toISOString(),
+            channel: context.channel,
+            conversationId: context.conversationId ?? null,
+            callId: context.callId,
+            server: context.serverName,
+            tool: context.toolName,
+            args: redactAuditArgs(context.args),
+            durationMs: Date.now() - startedAt.getTime(),
+            success: result !== undefined && !result.isError,
+            resultSize: text.length,
+            resultHash: createHash('sha256').update(text).digest('hex').slice(0, 16),
+        });
+    }
+}
+
+// ============================================
+// Reading
+// ============================================
+
+/**
+ * Parse audit log lines, skipping malformed ones
+ */
+export function parseAuditLines(content: string): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            entries.push(JSON.parse(line) as AuditEntry);
+        } catch {
+            // Partially written or corrupted line
+        }
+    }
+    return entries;
+}
+
+/**
+ * Check an entry against a filter
+ */
+export function matchesAuditFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+    const time = new Date(entry.timestamp).getTime();
+    if (filter.since && time < filter.since.getTime()) return false;
+    if (filter.until && time > filter.until.getTime()) return false;
+    if (filter.channel && entry.channel !== filter.channel) return false;
+    if (filter.conversationId && entry.conversationId !== filter.conversationId) return false;
+    if (filter.tool) {
+        const matches = typeof filter.tool === 'function' ? filter.tool(entry.tool) : entry.tool === filter.tool;
+        if (!matches) return false;
+    }
+    return true;
+}
+
+/**
+ * Read audit log entries matching a filter (oldest first)
+ */
+export function readAuditLog(filter: AuditFilter = {}): AuditEntry[] {
+    const logPath = getAuditLogPath();
+    if (!existsSync(logPath)) return [];
+    return parseAuditLines(readFileSync(logPath, 'utf-8')).filter(entry => matchesAuditFilter(entry, filter));
+}
@@ -223,6 +223,7 @@ export function getCliAgentTools(): Tool[] {
                 type: 'object',
                 properties: {},
             },
+            annotations: { readOnlyHint: true, openWorldHint: false },
         },
         {
             name: 'openpaean_invoke_cli_agent',
@@ -258,6 +259,7 @@ export function getCliAgentTools(): Tool[] {
                 },
                 required: ['agent', 'prompt'],
             },
+            annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
         },
     ];
 }
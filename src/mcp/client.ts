@@ -1,7 +1,8 @@
 /**
  * MCP Client
  * Local MCP server management for CLI
- * Spawns and manages MCP servers using stdio transport
+ * Spawns and manages MCP servers over stdio, or connects to remote / local
+ * HTTP servers using the SSE or Streamable HTTP transports (see transport.ts)
  * 
  * Supports loading MCP server configs from multiple sources:
  * 1. Global config: ~/.openpaean/mcp_config.json (legacy: ~/.paean/mcp_config.json)
@@ -12,23 +13,74 @@
  * via simple JSON configuration files without writing code.
  */
 
-import { spawn, type ChildProcess } from 'child_process';
-import { createInterface, type Interface as ReadlineInterface } from 'readline';
+import { EventEmitter } from 'events';
 import { homedir } from 'os';
-import { join } from 'path';
-import { readFileSync, existsSync } from 'fs';
-import type { McpToolInfo, McpToolResult, McpContentItem } from '../agent/types.js';
+import { join, dirname } from 'path';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import type { McpToolInfo, McpToolResult, McpContentItem, McpState } from '../agent/types.js';
+import {
+    StdioTransport,
+    SseTransport,
+    StreamableHttpTransport,
+    type McpTransport,
+    type McpTransportHandlers,
+    type McpTransportType,
+} from './transport.js';
+import {
+    buildToolNamespace,
+    formatToolCollision,
+    isToolAllowed,
+    namespaceToolName,
+    type NamespacedTool,
+    type ToolCollision,
+    type ToolFilter,
+} from './namespacing.js';
+import { resolveServerConfig } from './interpolation.js';
+import { validateToolArguments, formatArgumentErrors } from './schema.js';
 
 /**
  * MCP server configuration
+ *
+ * Local servers set `command` (stdio). HTTP servers set `url`, optional
+ * `headers` (e.g. Authorization) and `transport`: 'http' for Streamable
+ * HTTP (the default when `url` is set) or 'sse' for the legacy HTTP+SSE
+ * transport. Servers with `disabled: true` stay in the config but are not
+ * connected at startup. `timeouts` overrides the default request timeouts.
+ * `allowTools` / `denyTools` (glob patterns) limit the tools exposed to the
+ * agent, which sees them as `<server>__<tool>` (see namespacing.ts).
+ * String values may use `${VAR}`, `${VAR:-default}` and `@file:` /
+ * `@keychain:` secret references (see interpolation.ts).
  */
-export interface McpServerConfig {
-    command: string;
-    args: string[];
+export interface McpServerConfig extends ToolFilter {
+    command?: string;
+    args?: string[];
     env?: Record<string, string>;
     cwd?: string;
+    url?: string;
+    headers?: Record<string, string>;
+    transport?: McpTransportType;
+    disabled?: boolean;
+    timeouts?: McpServerTimeouts;
 }
 
+/**
+ * Per-server timeouts in milliseconds
+ */
+export interface McpServerTimeouts {
+    /** Each step of connecting: initialize and the tools / resources / prompts listings (default 10000) */
+    startup?: number;
+    /** Other requests such as health-check pings and list refreshes (default 30000) */
+    request?: number;
+    /** tools/call, resources/read and prompts/get (default 60000) */
+    toolCall?: number;
+}
+
+const DEFAULT_TIMEOUTS: Required<McpServerTimeouts> = {
+    startup: 10000,
+    request: 30000,
+    toolCall: 60000,
+};
+
 /**
  * MCP configuration file format
  * 
@@ -40,6 +92,10 @@ export interface McpServerConfig {
  *       "command": "npx",
  *       "args": ["-y", "@my-org/mcp-server"],
  *       "env": { "API_KEY": "..." }
+ *     },
+ *     "remote-server": {
+ *       "url": "https://mcp.example.com/mcp",
+ *       "headers": { "Authorization": "Bearer ..." }
  *     }
  *   }
  * }
@@ -49,6 +105,23 @@ export interface McpConfig {
     mcpServers: Record<string, McpServerConfig>;
 }
 
+/**
+ * Config file an MCP server is defined in: the global
+ * ~/.openpaean/mcp_config.json or the project's .openpaean/mcp.json
+ */
+export type McpConfigScope = 'global' | 'project';
+
+/**
+ * Details announced by a server in its initialize result
+ */
+export interface McpServerInfo {
+    name?: string;
+    version?: string;
+    protocolVersion?: string;
+    transport: McpTransportType;
+    capabilities: Record<string, unknown>;
+}
+
 /**
  * JSON-RPC request
  */
@@ -60,11 +133,14 @@ interface JsonRpcRequest {
 }
 
 /**
- * JSON-RPC response
+ * JSON-RPC message from the server: a response (id), a request (id + method)
+ * or a notification (method only)
  */
 interface JsonRpcResponse {
     jsonrpc: '2.0';
-    id: number;
+    id?: number | string;
+    method?: string;
+    params?: Record<string, unknown>;
     result?: unknown;
     error?: {
         code: number;
@@ -73,15 +149,167 @@ interface JsonRpcResponse {
     };
 }
 
+/**
+ * Resource exposed by an MCP server (resources/list)
+ */
+export interface McpResourceInfo {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+/**
+ * Parameterized resource URI (resources/templates/list)
+ */
+export interface McpResourceTemplateInfo {
+    uriTemplate: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+/**
+ * Contents of a resource (resources/read)
+ */
+export interface McpResourceContents {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    /** Base64-encoded binary content */
+    blob?: string;
+}
+
+/**
+ * Prompt template exposed by an MCP server (prompts/list)
+ */
+export interface McpPromptInfo {
+    name: string;
+    description?: string;
+    arguments?: Array<{
+        name: string;
+        description?: string;
+        required?: boolean;
+    }>;
+}
+
+/**
+ * Expanded prompt (prompts/get)
+ */
+export interface McpPromptResult {
+    description?: string;
+    messages: Array<{
+        role: 'user' | 'assistant';
+        content: {
+            type: string;
+            text?: string;
+            data?: string;
+            mimeType?: string;
+            resource?: McpResourceContents;
+        };
+    }>;
+}
+
+/**
+ * Log level of notifications/message (RFC 5424 syslog levels)
+ */
+export type McpLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+/**
+ * Connection status of a configured server
+ *
+ * - connecting:   first connection attempt in progress
+ * - connected:    initialized and serving tools
+ * - reconnecting: connection lost; the supervisor retries with backoff
+ * - failed:       could not connect (or reconnecting gave up)
+ * - disconnected: connection lost and no supervisor is running
+ */
+export type McpServerStatus = 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'disconnected';
+
+/**
+ * Status of a configured server as tracked by McpClient
+ */
+export interface McpServerState {
+    name: string;
+    status: McpServerStatus;
+    toolCount: number;
+    error?: string;
+    /** Time the last successful connection took */
+    latencyMs?: number;
+    /** Reconnect attempts since the connection was lost */
+    attempt?: number;
+    /** Delay before the next reconnect attempt */
+    retryInMs?: number;
+}
+
+/**
+ * Tools that run in-process (JSON-defined tools, plugins), advertised to the
+ * agent like the tools of a connected server
+ */
+export interface LocalToolProvider {
+    /** Server name the tools are advertised under */
+    name: string;
+    listTools(): McpToolInfo[];
+    callTool(toolName: string, args: Record<string, unknown>): Promise<McpToolResult>;
+}
+
+/**
+ * Health supervision settings (see McpClient.startSupervisor)
+ */
+export interface McpSupervisorOptions {
+    /** How often connected servers are pinged (default 30000) */
+    intervalMs?: number;
+    /** First reconnect delay, doubled on each failed attempt (default 1000) */
+    backoffBaseMs?: number;
+    /** Upper bound of the reconnect delay (default 60000) */
+    backoffMaxMs?: number;
+    /** Give up after this many failed attempts (default 8) */
+    maxAttempts?: number;
+}
+
+/**
+ * Events emitted by McpClient (listen with `client.on('event', ...)`)
+ */
+export type McpClientEvent =
+    | { type: 'server_status'; serverName: string; state: McpServerState }
+    | { type: 'warning'; serverName?: string; message: string }
+    | { type: 'tools_changed'; serverName: string; tools: McpToolInfo[] }
+    | { type: 'resources_changed'; serverName: string; resources: McpResourceInfo[] }
+    | { type: 'prompts_changed'; serverName: string; prompts: McpPromptInfo[] }
+    | {
+        type: 'progress';
+        serverName: string;
+        /** Agent call ID of the tool call reporting progress, when known */
+        callId?: string;
+        toolName?: string;
+        progress: number;
+        total?: number;
+        message?: string;
+    }
+    | { type: 'log'; serverName: string; level: McpLogLevel; logger?: string; message: string };
+
+/**
+ * Virtual tools that give the agent access to a server's resources
+ */
+export const RESOURCE_TOOL_NAMES = new Set(['list_mcp_resources', 'read_mcp_resource']);
+
+/** Upper bound on pages fetched from paginated list methods */
+const MAX_LIST_PAGES = 20;
+
 /**
  * Connected MCP server instance
  */
 interface McpServerInstance {
     name: string;
-    process: ChildProcess;
-    stdin: NodeJS.WritableStream;
-    stdout: ReadlineInterface;
+    transport: McpTransport;
     tools: McpToolInfo[];
+    /** Capabilities announced in the initialize result */
+    capabilities: Record<string, unknown>;
+    serverInfo?: { name?: string; version?: string };
+    protocolVersion?: string;
+    resources: McpResourceInfo[];
+    resourceTemplates: McpResourceTemplateInfo[];
+    prompts: McpPromptInfo[];
     requestId: number;
     pendingRequests: Map<number, {
         resolve: (value: unknown) => void;
@@ -89,18 +317,45 @@ interface McpServerInstance {
     }>;
     connected: boolean;
     lastError?: string;
+    timeouts: Required<McpServerTimeouts>;
+    toolFilter: ToolFilter;
+    /** Set while the client closes the connection on purpose */
+    closing?: boolean;
+}
+
+/**
+ * Determine which transport a server config uses
+ */
+export function resolveTransportType(config: McpServerConfig): McpTransportType {
+    if (config.transport) return config.transport;
+    return config.url ? 'http' : 'stdio';
 }
 
 /**
  * MCP Client class
  */
-export class McpClient {
+export class McpClient extends EventEmitter {
     private servers: Map<string, McpServerInstance> = new Map();
     private configPath: string;
     private legacyConfigPath: string;
     private debug: boolean;
+    /** progressToken -> tool call it belongs to */
+    private progressTokens = new Map<string, { callId?: string; toolName: string }>();
+    private progressCounter = 0;
+    private states = new Map<string, McpServerState>();
+    private supervisor: { timer: NodeJS.Timeout; options: Required<McpSupervisorOptions> } | null = null;
+    private reconnectTimers = new Map<string, NodeJS.Timeout>();
+    private healthCheckRunning = false;
+    /** Advertised tool name -> server tool (rebuilt when tool lists change) */
+    private toolNamespace = new Map<string, NamespacedTool>();
+    private toolCollisions: ToolCollision[] = [];
+    private reportedCollisions = new Set<string>();
+    /** Server order of the config at the last connect; decides which server keeps a contested tool name */
+    private configOrder: string[] = [];
+    private localTools?: LocalToolProvider;
 
     constructor(options?: { debug?: boolean }) {
+        super();
         this.debug = options?.debug ?? false;
         this.configPath = join(homedir(), '.openpaean', 'mcp_config.json');
         this.legacyConfigPath = join(homedir(), '.paean', 'mcp_config.json');
@@ -253,6 +508,55 @@ export class McpClient {
         return merged;
     }
 
+    /**
+     * Get the config file path of a scope (legacy ~/.paean files are read
+     * by loadConfig but never written)
+     */
+    getScopeConfigPath(scope: McpConfigScope): string {
+        return scope === 'global'
+            ? this.configPath
+            : join(process.cwd(), '.openpaean', 'mcp.json');
+    }
+
+    /**
+     * Read the config file of a single scope (empty when the file doesn't exist)
+     * @throws Error if the file is not valid JSON
+     */
+    readScopeConfig(scope: McpConfigScope): McpConfig {
+        const path = this.getScopeConfigPath(scope);
+        if (!existsSync(path)) {
+            return { mcpServers: {} };
+        }
+        try {
+            const config = JSON.parse(readFileSync(path, 'utf-8')) as McpConfig;
+            return { ...config, mcpServers: config.mcpServers || {} };
+        } catch (error) {
+            throw new Error(`Invalid MCP config ${path}: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Write the config file of a single scope, keeping unknown top-level keys
+     */
+    writeScopeConfig(scope: McpConfigScope, config: McpConfig): void {
+        const path = this.getScopeConfigPath(scope);
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+    }
+
+    /**
+     * Find the scope that defines a server. The project scope wins, matching
+     * the precedence of loadConfig.
+     */
+    findServerScope(serverName: string): McpConfigScope | undefined {
+        for (const scope of ['project', 'global'] as const) {
+            if (this.readScopeConfig(scope).mcpServers[serverName]) {
+                return scope;
+            }
+        }
+        return undefined;
+    }
+
     /**
      * Get the path to the project-level MCP tools JSON file
      * (.openpaean/mcp_tools.json in current project)
@@ -262,114 +566,128 @@ export class McpClient {
     }
 
     /**
-     * List configured server names
+     * List configured server names (disabled servers are skipped)
      */
     listServers(): string[] {
         const config = this.loadConfig();
         if (!config?.mcpServers) return [];
-        return Object.keys(config.mcpServers);
+        return Object.keys(config.mcpServers).filter(name => !config.mcpServers[name].disabled);
+    }
+
+    /**
+     * Connect to several servers in parallel (all enabled servers by default).
+     * Each server reports its progress through `server_status` events; the
+     * returned promise settles once every attempt has finished.
+     */
+    async connectAll(serverNames: string[] = this.listServers()): Promise<Map<string, McpToolInfo[] | Error>> {
+        for (const name of serverNames) {
+            this.setState(name, { status: 'connecting', toolCount: 0 });
+        }
+
+        const results = await Promise.allSettled(serverNames.map(name => this.connect(name)));
+        const outcome = new Map<string, McpToolInfo[] | Error>();
+        results.forEach((result, index) => {
+            outcome.set(serverNames[index], result.status === 'fulfilled' ? result.value : result.reason as Error);
+        });
+        return outcome;
     }
 
     /**
      * Connect to an MCP server with improved error handling
      */
     async connect(serverName: string): Promise<McpToolInfo[]> {
+        // A manual connect replaces a pending supervisor retry
+        const pendingRetry = this.reconnectTimers.get(serverName);
+        if (pendingRetry) {
+            clearTimeout(pendingRetry);
+            this.reconnectTimers.delete(serverName);
+        }
+
+        const startedAt = Date.now();
+        try {
+            const tools = await this.openConnection(serverName);
+            this.setState(serverName, {
+                status: 'connected',
+                toolCount: this.getServerTools(this.servers.get(serverName)!).length,
+                latencyMs: Date.now() - startedAt,
+            });
+            return tools;
+        } catch (error) {
+            this.setState(serverName, { status: 'failed', toolCount: 0, error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Start the transport, initialize the server and load its tools, resources and prompts
+     */
+    private async openConnection(serverName: string): Promise<McpToolInfo[]> {
         const config = this.loadConfig();
         if (!config?.mcpServers?.[serverName]) {
             throw new Error(`Server "${serverName}" not found in config`);
         }
 
         const serverConfig = config.mcpServers[serverName];
-        this.log(`Connecting to ${serverName}:`, serverConfig.command, serverConfig.args);
-
-        // Resolve command (prefer bunx over npx for speed)
-        const command = this.resolveCommand(serverConfig.command);
-        this.log(`Using command: ${command}`);
-
-        // Spawn the process with detached to prevent signal propagation
-        const proc = spawn(command, serverConfig.args, {
-            cwd: serverConfig.cwd,
-            env: { ...process.env, ...serverConfig.env },
-            stdio: ['pipe', 'pipe', 'pipe'],
-            detached: false, // Keep attached but don't forward signals
-        });
-
-        // Prevent unhandled promise rejection if process exits
-        proc.on('error', () => { });
-
-        if (!proc.stdin || !proc.stdout) {
-            throw new Error('Failed to create process pipes');
+        this.configOrder = Object.keys(config.mcpServers);
+
+        // Close what is left of an earlier connection (e.g. a crashed server
+        // being reconnected) so its process or stream is not leaked
+        const previous = this.servers.get(serverName);
+        if (previous) {
+            previous.closing = true;
+            previous.connected = false;
+            this.rejectPending(previous, `Server "${serverName}" reconnecting`);
+            await previous.transport.close().catch(() => { });
         }
 
-        // Create readline interface for stdout
-        const stdout = createInterface({
-            input: proc.stdout,
-            crlfDelay: Infinity,
-        });
+        // Handlers only run once the transport is started, after `instance` exists
+        const handlers: McpTransportHandlers = {
+            onMessage: (message) => this.handleMessage(instance, message),
+            onClose: (error) => {
+                const wasConnected = instance.connected;
+                instance.connected = false;
+                if (error) {
+                    instance.lastError = error;
+                }
+                this.rejectPending(instance, error || 'Connection closed');
+                // Don't delete from servers map - keep for status reporting
+                if (wasConnected && !instance.closing) {
+                    this.handleConnectionLost(instance, error || 'Connection closed');
+                }
+            },
+            log: (message, ...args) => this.log(`[${serverName}] ${message}`, ...args),
+        };
 
         const instance: McpServerInstance = {
             name: serverName,
-            process: proc,
-            stdin: proc.stdin,
-            stdout,
+            transport: await this.createTransport(serverName, serverConfig, handlers),
             tools: [],
+            capabilities: {},
+            resources: [],
+            resourceTemplates: [],
+            prompts: [],
             requestId: 0,
             pendingRequests: new Map(),
             connected: false,
+            timeouts: { ...DEFAULT_TIMEOUTS, ...serverConfig.timeouts },
+            toolFilter: { allowTools: serverConfig.allowTools, denyTools: serverConfig.denyTools },
         };
 
-        // Collect stderr for debugging (capped to prevent unbounded growth)
-        let stderrBuffer = '';
-        if (proc.stderr) {
-            proc.stderr.on('data', (data) => {
-                const text = data.toString();
-                stderrBuffer += text;
-                if (stderrBuffer.length > 2048) {
-                    stderrBuffer = stderrBuffer.slice(-2048);
-                }
-                this.log(`[${serverName} stderr] ${text.trim()}`);
-            });
-        }
-
-        // Handle stdout lines
-        stdout.on('line', (line) => {
-            this.handleLine(instance, line);
-        });
-
-        // Handle process errors
-        proc.on('error', (error) => {
-            this.log(`Process error for ${serverName}:`, error);
-            instance.lastError = error.message;
-            instance.connected = false;
-        });
-
-        proc.on('exit', (code, signal) => {
-            this.log(`Process ${serverName} exited with code ${code}, signal ${signal}`);
-            instance.connected = false;
-            if (code !== 0 && stderrBuffer) {
-                instance.lastError = stderrBuffer.slice(-500); // Keep last 500 chars
-            }
-            // Don't delete from servers map - keep for status reporting
-        });
-
         // Store the instance before initialization
         this.servers.set(serverName, instance);
 
         try {
-            // Give process time to start
-            await new Promise(resolve => setTimeout(resolve, 500));
-
-            // Check if process is still running
-            if (proc.exitCode !== null) {
-                throw new Error(`Process exited immediately with code ${proc.exitCode}. ${stderrBuffer.slice(-200)}`);
-            }
+            await instance.transport.start();
 
             // Initialize the server with timeout
-            await this.initializeWithTimeout(instance, 10000);
+            await this.initializeWithTimeout(instance, instance.timeouts.startup);
 
             // List tools
-            const tools = await this.listToolsWithTimeout(instance, 10000);
+            const tools = await this.listToolsWithTimeout(instance, instance.timeouts.startup);
             instance.tools = tools;
+
+            // Resources and prompts are optional; failures don't block the connection
+            await this.loadServerFeatures(instance, instance.timeouts.startup);
             instance.connected = true;
 
             this.log(`Successfully connected to ${serverName} with ${tools.length} tools`);
@@ -379,10 +697,9 @@ export class McpClient {
             instance.lastError = (error as Error).message;
             this.log(`Failed to initialize ${serverName}:`, error);
 
-            // Kill the process if it's still running
-            if (proc.exitCode === null) {
-                proc.kill();
-            }
+            // Stop the process / close the connection
+            instance.closing = true;
+            await instance.transport.close();
 
             // Remove from servers map on failure
             this.servers.delete(serverName);
@@ -390,6 +707,46 @@ export class McpClient {
         }
     }
 
+    /**
+     * Create the transport for a server config
+     */
+    private async createTransport(
+        serverName: string,
+        rawConfig: McpServerConfig,
+        handlers: McpTransportHandlers
+    ): Promise<McpTransport> {
+        // ${VAR} and @file: / @keychain: references; logs below show the raw config
+        const serverConfig = await resolveServerConfig(serverName, rawConfig);
+        const type = resolveTransportType(serverConfig);
+
+        if (type === 'sse' || type === 'http') {
+            if (!serverConfig.url) {
+                throw new Error(`Server "${serverName}" uses the ${type} transport but has no "url"`);
+            }
+            this.log(`Connecting to ${serverName} (${type}):`, rawConfig.url);
+            const options = { url: serverConfig.url, headers: serverConfig.headers };
+            return type === 'sse'
+                ? new SseTransport(options, handlers)
+                : new StreamableHttpTransport(options, handlers);
+        }
+
+        if (!serverConfig.command) {
+            throw new Error(`Server "${serverName}" has neither "command" nor "url"`);
+        }
+        this.log(`Connecting to ${serverName}:`, rawConfig.command, rawConfig.args);
+
+        // Resolve command (prefer bunx over npx for speed)
+        const command = this.resolveCommand(serverConfig.command);
+        this.log(`Using command: ${command}`);
+
+        return new StdioTransport({
+            command,
+            args: serverConfig.args || [],
+            env: serverConfig.env,
+            cwd: serverConfig.cwd,
+        }, handlers);
+    }
+
     /**
      * Resolve command to full path, preferring bunx over npx
      */
@@ -408,38 +765,135 @@ export class McpClient {
     }
 
     /**
-     * Handle a line from stdout
+     * Handle a JSON-RPC message from the server
      */
-    private handleLine(instance: McpServerInstance, line: string): void {
-        const trimmed = line.trim();
-        if (!trimmed) return;
+    private handleMessage(instance: McpServerInstance, message: unknown): void {
+        const response = message as JsonRpcResponse;
+        if (!response || typeof response !== 'object') return;
 
-        // Skip common npm/shell noise
-        if (!trimmed.startsWith('{')) {
-            this.log(`[${instance.name}] Non-JSON: ${trimmed.substring(0, 80)}`);
+        // Server-initiated requests and notifications
+        if (response.method) {
+            if (response.id !== undefined) {
+                this.handleServerRequest(instance, response.id, response.method);
+            } else {
+                this.handleNotification(instance, response.method, response.params || {});
+            }
             return;
         }
 
-        try {
-            const response = JSON.parse(trimmed) as JsonRpcResponse;
+        // Handle responses with id
+        if (typeof response.id === 'number') {
+            const pending = instance.pendingRequests.get(response.id);
+            if (pending) {
+                instance.pendingRequests.delete(response.id);
+                if (response.error) {
+                    // Keep the JSON-RPC error code so callers can tell an answer from a failure
+                    pending.reject(Object.assign(new Error(response.error.message), { code: response.error.code }));
+                } else {
+                    pending.resolve(response.result);
+                }
+            }
+        }
+    }
 
-            // Handle responses with id
-            if (response.id !== undefined) {
-                const pending = instance.pendingRequests.get(response.id);
-                if (pending) {
-                    instance.pendingRequests.delete(response.id);
-                    if (response.error) {
-                        pending.reject(new Error(response.error.message));
-                    } else {
-                        pending.resolve(response.result);
+    /**
+     * Answer a request sent by the server (only ping is supported)
+     */
+    private handleServerRequest(instance: McpServerInstance, id: number | string, method: string): void {
+        const reply = method === 'ping'
+            ? { jsonrpc: '2.0', id, result: {} }
+            : { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } };
+        instance.transport.send(reply).catch((error: Error) => {
+            this.log(`Failed to answer ${method} from ${instance.name}:`, error.message);
+        });
+    }
+
+    /**
+     * Handle a notification sent by the server
+     */
+    private handleNotification(instance: McpServerInstance, method: string, params: Record<string, unknown>): void {
+        const serverName = instance.name;
+
+        switch (method) {
+            case 'notifications/tools/list_changed':
+                this.listToolsWithTimeout(instance, instance.timeouts.request).then((tools) => {
+                    instance.tools = tools;
+                    this.log(`${serverName} tool list changed: ${tools.length} tools`);
+                    if (instance.connected) {
+                        this.rebuildToolNamespace();
+                        this.emitEvent({ type: 'tools_changed', serverName, tools: this.getServerTools(instance) });
                     }
-                }
+                }).catch((error: Error) => this.log(`Failed to refresh tools of ${serverName}:`, error.message));
+                break;
+
+            case 'notifications/resources/list_changed':
+                this.listAll<McpResourceInfo>(instance, 'resources/list', 'resources').then((resources) => {
+                    instance.resources = resources;
+                    if (instance.connected) {
+                        this.emitEvent({ type: 'resources_changed', serverName, resources });
+                    }
+                }).catch((error: Error) => this.log(`Failed to refresh resources of ${serverName}:`, error.message));
+                break;
+
+            case 'notifications/prompts/list_changed':
+                this.listAll<McpPromptInfo>(instance, 'prompts/list', 'prompts').then((prompts) => {
+                    instance.prompts = prompts;
+                    if (instance.connected) {
+                        this.emitEvent({ type: 'prompts_changed', serverName, prompts });
+                    }
+                }).catch((error: Error) => this.log(`Failed to refresh prompts of ${serverName}:`, error.message));
+                break;
+
+            case 'notifications/progress': {
+                const call = this.progressTokens.get(String(params.progressToken));
+                this.emitEvent({
+                    type: 'progress',
+                    serverName,
+                    callId: call?.callId,
+                    toolName: call?.toolName,
+                    progress: Number(params.progress) || 0,
+                    total: typeof params.total === 'number' ? params.total : undefined,
+                    message: typeof params.message === 'string' ? params.message : undefined,
+                });
+                break;
             }
-        } catch (error) {
-            this.log(`[${instance.name}] JSON parse error:`, error);
+
+            case 'notifications/message': {
+                const data = params.data;
+                const message = typeof data === 'string' ? data : JSON.stringify(data);
+                this.log(`[${serverName} ${params.level}] ${message}`);
+                this.emitEvent({
+                    type: 'log',
+                    serverName,
+                    level: (params.level as McpLogLevel) || 'info',
+                    logger: typeof params.logger === 'string' ? params.logger : undefined,
+                    message,
+                });
+                break;
+            }
+
+            default:
+                this.log(`Unhandled notification from ${serverName}: ${method}`);
         }
     }
 
+    /**
+     * Emit a client event
+     */
+    private emitEvent(event: McpClientEvent): void {
+        this.emit('event', event);
+    }
+
+    /**
+     * Reject all pending requests so their callers don't hang
+     */
+    private rejectPending(instance: McpServerInstance, reason: string): void {
+        for (const [, pending] of instance.pendingRequests) {
+            pending.reject(new Error(reason));
+        }
+        instance.pendingRequests.clear();
+    }
+
     /**
      * Send a JSON-RPC request with timeout
      */
@@ -447,11 +901,11 @@ export class McpClient {
         instance: McpServerInstance,
         method: string,
         params?: unknown,
-        timeoutMs: number = 30000
+        timeoutMs: number = instance.timeouts.request
     ): Promise<unknown> {
-        // Check if process is still alive
-        if (instance.process.exitCode !== null) {
-            throw new Error(`Server process has exited (code ${instance.process.exitCode})`);
+        // Check if process / connection is still alive
+        if (!instance.transport.isAlive()) {
+            throw new Error(instance.lastError || 'Server connection is closed');
         }
 
         const id = ++instance.requestId;
@@ -479,12 +933,10 @@ export class McpClient {
                 },
             });
 
-            const message = JSON.stringify(request) + '\n';
-            instance.stdin.write(message, (err) => {
-                if (err) {
+            instance.transport.send(request).catch((err: Error) => {
+                if (instance.pendingRequests.delete(id)) {
                     clearTimeout(timeout);
-                    instance.pendingRequests.delete(id);
-                    reject(new Error(`Failed to write to stdin: ${err.message}`));
+                    reject(err);
                 }
             });
             this.log(`Sent ${method} request (id=${id})`);
@@ -510,21 +962,42 @@ export class McpClient {
             }
         }
 
-        await this.sendRequest(instance, 'initialize', {
-            protocolVersion: '2024-11-05',
+        const result = await this.sendRequest(instance, 'initialize', {
+            // Streamable HTTP was introduced in 2025-03-26
+            protocolVersion: instance.transport.type === 'http' ? '2025-03-26' : '2024-11-05',
             capabilities: {},
             clientInfo: {
                 name: 'openpaean-cli',
                 version: McpClient.cachedCliVersion!,
             },
-        }, timeoutMs);
+        }, timeoutMs) as {
+            protocolVersion?: string;
+            capabilities?: Record<string, unknown>;
+            serverInfo?: { name?: string; version?: string };
+        } | undefined;
+
+        instance.capabilities = result?.capabilities || {};
+        instance.serverInfo = result?.serverInfo;
+        instance.protocolVersion = result?.protocolVersion;
+
+        if (result?.protocolVersion) {
+            instance.transport.setProtocolVersion?.(result.protocolVersion);
+        }
 
         // Send initialized notification
-        const notification = JSON.stringify({
+        await instance.transport.send({
             jsonrpc: '2.0',
             method: 'notifications/initialized',
-        }) + '\n';
-        instance.stdin.write(notification);
+        });
+
+        // Streamable HTTP: open the stream for server-initiated notifications
+        instance.transport.listen?.();
+
+        // Ask for log messages (debug mode shows them all)
+        if (instance.capabilities.logging) {
+            this.sendRequest(instance, 'logging/setLevel', { level: this.debug ? 'debug' : 'info' }, timeoutMs)
+                .catch((error: Error) => this.log(`logging/setLevel failed for ${instance.name}:`, error.message));
+        }
     }
 
     /**
@@ -547,42 +1020,295 @@ export class McpClient {
     }
 
     /**
-     * Call a tool on a connected server (with auto-reconnect)
+     * Fetch every page of a paginated list method (resources/list, prompts/list, ...)
      */
-    async callTool(
+    private async listAll<T>(
+        instance: McpServerInstance,
+        method: string,
+        key: string,
+        timeoutMs: number = instance.timeouts.request
+    ): Promise<T[]> {
+        const items: T[] = [];
+        let cursor: string | undefined;
+
+        for (let page = 0; page < MAX_LIST_PAGES; page++) {
+            const result = await this.sendRequest(instance, method, cursor ? { cursor } : undefined, timeoutMs) as
+                Record<string, unknown> | undefined;
+            items.push(...((result?.[key] as T[] | undefined) || []));
+            cursor = result?.nextCursor as string | undefined;
+            if (!cursor) break;
+        }
+
+        return items;
+    }
+
+    /**
+     * Load resources, resource templates and prompts the server advertises
+     */
+    private async loadServerFeatures(instance: McpServerInstance, timeoutMs: number): Promise<void> {
+        if (instance.capabilities.resources) {
+            try {
+                instance.resources = await this.listAll<McpResourceInfo>(instance, 'resources/list', 'resources', timeoutMs);
+            } catch (error) {
+                this.log(`resources/list failed for ${instance.name}:`, error);
+            }
+            try {
+                instance.resourceTemplates = await this.listAll<McpResourceTemplateInfo>(
+                    instance, 'resources/templates/list', 'resourceTemplates', timeoutMs
+                );
+            } catch (error) {
+                this.log(`resources/templates/list failed for ${instance.name}:`, error);
+            }
+        }
+
+        if (instance.capabilities.prompts) {
+            try {
+                instance.prompts = await this.listAll<McpPromptInfo>(instance, 'prompts/list', 'prompts', timeoutMs);
+            } catch (error) {
+                this.log(`prompts/list failed for ${instance.name}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Get a connected server, or throw
+     */
+    private requireServer(serverName: string): McpServerInstance {
+        const instance = this.servers.get(serverName);
+        if (!instance || !instance.connected || !instance.transport.isAlive()) {
+            throw new Error(`Server "${serverName}" not connected`);
+        }
+        return instance;
+    }
+
+    /**
+     * List resources of a connected server (refreshes the cached list)
+     */
+    async listResources(serverName: string): Promise<McpResourceInfo[]> {
+        const instance = this.requireServer(serverName);
+        instance.resources = await this.listAll<McpResourceInfo>(instance, 'resources/list', 'resources');
+        return instance.resources;
+    }
+
+    /**
+     * List resource templates of a connected server (refreshes the cached list)
+     */
+    async listResourceTemplates(serverName: string): Promise<McpResourceTemplateInfo[]> {
+        const instance = this.requireServer(serverName);
+        instance.resourceTemplates = await this.listAll<McpResourceTemplateInfo>(
+            instance, 'resources/templates/list', 'resourceTemplates'
+        );
+        return instance.resourceTemplates;
+    }
+
+    /**
+     * Read a resource from a connected server
+     */
+    async readResource(serverName: string, uri: string): Promise<McpResourceContents[]> {
+        const instance = this.requireServer(serverName);
+        const result = await this.sendRequest(instance, 'resources/read', { uri }, instance.timeouts.toolCall) as {
+            contents?: McpResourceContents[];
+        };
+        return result?.contents || [];
+    }
+
+    /**
+     * List prompts of a connected server (refreshes the cached list)
+     */
+    async listPrompts(serverName: string): Promise<McpPromptInfo[]> {
+        const instance = this.requireServer(serverName);
+        instance.prompts = await this.listAll<McpPromptInfo>(instance, 'prompts/list', 'prompts');
+        return instance.prompts;
+    }
+
+    /**
+     * Expand a prompt template on a connected server
+     */
+    async getPrompt(
         serverName: string,
+        promptName: string,
+        args: Record<string, string> = {}
+    ): Promise<McpPromptResult> {
+        const instance = this.requireServer(serverName);
+        const result = await this.sendRequest(instance, 'prompts/get', {
+            name: promptName,
+            arguments: args,
+        }, instance.timeouts.toolCall) as McpPromptResult | undefined;
+        return { description: result?.description, messages: result?.messages || [] };
+    }
+
+    /**
+     * Whether the server supports resources and doesn't define a tool of the same name
+     */
+    private hasResourceTools(instance: McpServerInstance): boolean {
+        return Boolean(instance.capabilities.resources) &&
+            !instance.tools.some(tool => RESOURCE_TOOL_NAMES.has(tool.name));
+    }
+
+    /**
+     * Tool definitions for reading a server's resources
+     */
+    private getResourceTools(instance: McpServerInstance): McpToolInfo[] {
+        const examples = instance.resources.slice(0, 20).map(r => `${r.uri} (${r.name})`);
+        const templates = instance.resourceTemplates.slice(0, 10).map(t => t.uriTemplate);
+        const known = [
+            examples.length > 0 ? `Known resources: ${examples.join(', ')}.` : '',
+            templates.length > 0 ? `URI templates: ${templates.join(', ')}.` : '',
+        ].filter(Boolean).join(' ');
+
+        return [
+            {
+                name: 'list_mcp_resources',
+                description: `List the resources (files, documents, records) exposed by the ${instance.name} MCP server, including URI templates.`,
+                inputSchema: { type: 'object', properties: {} },
+            },
+            {
+                name: 'read_mcp_resource',
+                description: `Read a resource from the ${instance.name} MCP server by URI.${known ? ` ${known}` : ''}`,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        uri: { type: 'string', description: 'Resource URI' },
+                    },
+                    required: ['uri'],
+                },
+            },
+        ];
+    }
+
+    /**
+     * Execute list_mcp_resources / read_mcp_resource
+     */
+    private async callResourceTool(
+        instance: McpServerInstance,
         toolName: string,
-        args: Record<string, unknown> = {}
+        args: Record<string, unknown>
     ): Promise<McpToolResult> {
-        let instance = this.servers.get(serverName);
+        if (toolName === 'list_mcp_resources') {
+            const [resources, resourceTemplates] = await Promise.all([
+                this.listResources(instance.name),
+                this.listResourceTemplates(instance.name).catch(() => instance.resourceTemplates),
+            ]);
+            return {
+                content: [{ type: 'text', text: JSON.stringify({ resources, resourceTemplates }, null, 2) }],
+                isError: false,
+            };
+        }
 
-        // Auto-reconnect if server died
-        if (!instance || !instance.connected || instance.process.exitCode !== null) {
-            this.log(`Server ${serverName} not connected, attempting reconnect...`);
+        if (typeof args.uri !== 'string' || !args.uri) {
+            return { content: [{ type: 'text', text: 'Missing required argument: uri' }], isError: true };
+        }
 
-            try {
-                await this.connect(serverName);
-                instance = this.servers.get(serverName);
-            } catch (error) {
+        const contents = await this.readResource(instance.name, args.uri);
+        return {
+            content: contents.map((item): McpContentItem => {
+                if (item.text !== undefined) {
+                    return { type: 'text', text: item.text };
+                }
+                if (item.blob && item.mimeType?.startsWith('image/')) {
+                    return { type: 'image', data: item.blob, mimeType: item.mimeType };
+                }
                 return {
-                    content: [{ type: 'text', text: `Failed to reconnect to "${serverName}": ${(error as Error).message}` }],
-                    isError: true,
+                    type: 'text',
+                    text: `[Binary resource ${item.uri} (${item.mimeType || 'unknown type'}, ${Math.floor((item.blob?.length || 0) * 3 / 4)} bytes)]`,
                 };
+            }),
+            isError: false,
+        };
+    }
+
+    /**
+     * Get cached resources of all connected servers
+     */
+    getAllResources(): Map<string, McpResourceInfo[]> {
+        const result = new Map<string, McpResourceInfo[]>();
+        for (const [name, instance] of this.servers) {
+            if (instance.connected && instance.transport.isAlive() && instance.capabilities.resources) {
+                result.set(name, instance.resources);
             }
         }
+        return result;
+    }
 
-        if (!instance || !instance.connected) {
+    /**
+     * Get cached prompts of all connected servers
+     */
+    getAllPrompts(): Map<string, McpPromptInfo[]> {
+        const result = new Map<string, McpPromptInfo[]>();
+        for (const [name, instance] of this.servers) {
+            if (instance.connected && instance.transport.isAlive() && instance.prompts.length > 0) {
+                result.set(name, instance.prompts);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Call a tool on a connected server. Crashed servers are not reconnected
+     * here; the supervisor brings them back (see startSupervisor).
+     */
+    async callTool(
+        serverName: string,
+        toolName: string,
+        args: Record<string, unknown> = {},
+        options: { callId?: string } = {}
+    ): Promise<McpToolResult> {
+        if (this.isLocalToolServer(serverName)) {
+            return this.localTools!.callTool(toolName, args);
+        }
+
+        const instance = this.servers.get(serverName);
+
+        if (!instance || !instance.connected || !instance.transport.isAlive()) {
             return {
-                content: [{ type: 'text', text: `Server "${serverName}" not available` }],
+                content: [{ type: 'text', text: this.describeUnavailable(serverName) }],
                 isError: true,
             };
         }
 
+        toolName = this.resolveToolName(serverName, toolName);
+        if (!isToolAllowed(toolName, instance.toolFilter)) {
+            return {
+                content: [{ type: 'text', text: `Tool "${toolName}" is not enabled for server "${serverName}"` }],
+                isError: true,
+            };
+        }
+
+        // Reject malformed calls before they reach the server, listing every
+        // violation so the model can correct them in one go
+        const tool = this.getServerTools(instance).find(candidate => candidate.name === toolName);
+        if (tool) {
+            const validation = validateToolArguments(tool.inputSchema, args);
+            if (!validation.valid) {
+                return {
+                    content: [{ type: 'text', text: formatArgumentErrors(toolName, validation.errors) }],
+                    isError: true,
+                };
+            }
+            args = validation.args;
+        }
+
+        if (RESOURCE_TOOL_NAMES.has(toolName) && this.hasResourceTools(instance)) {
+            try {
+                return await this.callResourceTool(instance, toolName, args);
+            } catch (error) {
+                return {
+                    content: [{ type: 'text', text: `Resource request failed: ${(error as Error).message}` }],
+                    isError: true,
+                };
+            }
+        }
+
+        // Progress notifications carry this token back (see handleNotification)
+        const progressToken = `progress-${++this.progressCounter}`;
+        this.progressTokens.set(progressToken, { callId: options.callId, toolName });
+
         try {
             const result = await this.sendRequest(instance, 'tools/call', {
                 name: toolName,
                 arguments: args,
-            }, 60000) as {
+                _meta: { progressToken },
+            }, instance.timeouts.toolCall) as {
                 content?: Array<{ type: string; text?: string; data?: string; mimeType?: string }>;
                 isError?: boolean;
             };
@@ -597,12 +1323,13 @@ export class McpClient {
                 isError: result?.isError ?? false,
             };
         } catch (error) {
-            instance.connected = false;
             instance.lastError = (error as Error).message;
             return {
                 content: [{ type: 'text', text: `Tool call failed: ${(error as Error).message}` }],
                 isError: true,
             };
+        } finally {
+            this.progressTokens.delete(progressToken);
         }
     }
 
@@ -612,68 +1339,224 @@ export class McpClient {
     isServerConnected(serverName: string): boolean {
         const instance = this.servers.get(serverName);
         if (!instance) return false;
-        return instance.connected && instance.process.exitCode === null;
+        return instance.connected && instance.transport.isAlive();
+    }
+
+    /**
+     * Get the server details announced at initialization
+     */
+    getServerInfo(serverName: string): McpServerInfo | undefined {
+        const instance = this.servers.get(serverName);
+        if (!instance) return undefined;
+        return {
+            name: instance.serverInfo?.name,
+            version: instance.serverInfo?.version,
+            protocolVersion: instance.protocolVersion,
+            transport: instance.transport.type,
+            capabilities: instance.capabilities,
+        };
     }
 
     /**
      * Get last error for a server
      */
     getServerError(serverName: string): string | undefined {
-        return this.servers.get(serverName)?.lastError;
+        return this.servers.get(serverName)?.lastError ?? this.states.get(serverName)?.error;
     }
 
     /**
      * Disconnect from a server with proper cleanup
      */
     async disconnect(serverName: string): Promise<void> {
+        const pendingRetry = this.reconnectTimers.get(serverName);
+        if (pendingRetry) {
+            clearTimeout(pendingRetry);
+            this.reconnectTimers.delete(serverName);
+        }
+
         const instance = this.servers.get(serverName);
         if (!instance) return;
 
         // Reject any pending requests so their callers don't hang
-        for (const [, pending] of instance.pendingRequests) {
-            pending.reject(new Error(`Server "${serverName}" disconnecting`));
-        }
-        instance.pendingRequests.clear();
+        this.rejectPending(instance, `Server "${serverName}" disconnecting`);
 
-        // Close the readline interface (stops reading stdout)
-        try {
-            instance.stdout.close();
-        } catch {
-            // Ignore errors during cleanup
-        }
-
-        // Remove event listeners to prevent memory leaks
-        instance.process.removeAllListeners('error');
-        instance.process.removeAllListeners('exit');
-        if (instance.process.stderr) {
-            instance.process.stderr.removeAllListeners('data');
-        }
-
-        // Kill the process
-        if (instance.process.exitCode === null) {
-            instance.process.kill();
-        }
+        // Kill the process / close the connection
+        instance.closing = true;
+        await instance.transport.close();
 
         instance.connected = false;
         this.servers.delete(serverName);
+        this.rebuildToolNamespace();
     }
 
     /**
      * Disconnect from all servers
      */
     async disconnectAll(): Promise<void> {
+        this.stopSupervisor();
         for (const name of this.servers.keys()) {
             await this.disconnect(name);
         }
     }
 
+    /**
+     * Record a server's status and emit a `server_status` event
+     */
+    private setState(serverName: string, state: Omit<McpServerState, 'name'>): void {
+        const next: McpServerState = { name: serverName, ...state };
+        this.states.set(serverName, next);
+        this.rebuildToolNamespace();
+        this.emitEvent({ type: 'server_status', serverName, state: next });
+    }
+
+    /**
+     * Status of every server a connection was attempted for
+     */
+    getServerStates(): McpServerState[] {
+        return Array.from(this.states.values());
+    }
+
+    /**
+     * Explain why a tool call cannot reach a server
+     */
+    private describeUnavailable(serverName: string): string {
+        const state = this.states.get(serverName);
+        if (state?.status === 'reconnecting') {
+            const retry = state.retryInMs !== undefined ? `, next attempt in ${Math.ceil(state.retryInMs / 1000)}s` : '';
+            return `Server "${serverName}" is reconnecting (attempt ${state.attempt}${retry}). Try again shortly.`;
+        }
+        if (state?.status === 'connecting') {
+            return `Server "${serverName}" is still connecting. Try again shortly.`;
+        }
+        const error = state?.error || this.servers.get(serverName)?.lastError;
+        return `Server "${serverName}" not available${error ? `: ${error}` : ''}`;
+    }
+
+    /**
+     * Start health supervision: ping connected servers periodically and
+     * reconnect servers whose connection was lost, with exponential backoff
+     */
+    startSupervisor(options: McpSupervisorOptions = {}): void {
+        this.stopSupervisor();
+        const resolved: Required<McpSupervisorOptions> = {
+            intervalMs: options.intervalMs ?? 30000,
+            backoffBaseMs: options.backoffBaseMs ?? 1000,
+            backoffMaxMs: options.backoffMaxMs ?? 60000,
+            maxAttempts: options.maxAttempts ?? 8,
+        };
+        const timer = setInterval(() => {
+            // Skip a round while pings of the previous one are still pending
+            if (this.healthCheckRunning) return;
+            this.healthCheckRunning = true;
+            this.checkHealth()
+                .catch((error: Error) => this.log('Health check failed:', error.message))
+                .finally(() => { this.healthCheckRunning = false; });
+        }, resolved.intervalMs);
+        timer.unref();
+        this.supervisor = { timer, options: resolved };
+    }
+
+    /**
+     * Stop health supervision and cancel pending reconnects
+     */
+    stopSupervisor(): void {
+        if (this.supervisor) {
+            clearInterval(this.supervisor.timer);
+            this.supervisor = null;
+        }
+        for (const timer of this.reconnectTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.reconnectTimers.clear();
+    }
+
+    /**
+     * Ping every connected server; servers that don't answer are treated as lost
+     */
+    private async checkHealth(): Promise<void> {
+        const checks = Array.from(this.servers.values())
+            .filter(instance => instance.connected)
+            .map(async (instance) => {
+                try {
+                    await this.sendRequest(instance, 'ping');
+                } catch (error) {
+                    // An error response still proves the server is alive
+                    if (typeof (error as { code?: unknown }).code === 'number') return;
+                    if (!instance.connected || instance.closing) return;
+                    this.log(`${instance.name} failed health check:`, (error as Error).message);
+                    instance.connected = false;
+                    instance.lastError = (error as Error).message;
+                    this.handleConnectionLost(instance, `Health check failed: ${(error as Error).message}`);
+                }
+            });
+        await Promise.all(checks);
+    }
+
+    /**
+     * A connected server went away: schedule a reconnect when supervised
+     */
+    private handleConnectionLost(instance: McpServerInstance, reason: string): void {
+        this.log(`Lost connection to ${instance.name}: ${reason}`);
+        if (this.servers.get(instance.name) === instance) {
+            this.servers.delete(instance.name);
+        }
+        // Stop a process that is still running but no longer answers
+        this.rejectPending(instance, reason);
+        instance.closing = true;
+        instance.transport.close().catch(() => { });
+
+        if (!this.supervisor) {
+            this.setState(instance.name, { status: 'disconnected', toolCount: 0, error: reason });
+            return;
+        }
+        this.scheduleReconnect(instance.name, 1, reason);
+    }
+
+    /**
+     * Retry connecting after an exponentially growing delay
+     */
+    private scheduleReconnect(serverName: string, attempt: number, reason: string): void {
+        if (!this.supervisor) return;
+        const { backoffBaseMs, backoffMaxMs, maxAttempts } = this.supervisor.options;
+
+        if (attempt > maxAttempts) {
+            this.reconnectTimers.delete(serverName);
+            this.setState(serverName, {
+                status: 'failed',
+                toolCount: 0,
+                error: `Gave up reconnecting after ${maxAttempts} attempts: ${reason}`,
+            });
+            return;
+        }
+
+        const delay = Math.min(backoffBaseMs * 2 ** (attempt - 1), backoffMaxMs);
+        this.setState(serverName, { status: 'reconnecting', toolCount: 0, error: reason, attempt, retryInMs: delay });
+
+        const timer = setTimeout(() => {
+            this.reconnectTimers.delete(serverName);
+            const startedAt = Date.now();
+            this.openConnection(serverName).then(() => {
+                this.log(`Reconnected to ${serverName} after ${attempt} attempt(s)`);
+                this.setState(serverName, {
+                    status: 'connected',
+                    toolCount: this.getServerTools(this.servers.get(serverName)!).length,
+                    latencyMs: Date.now() - startedAt,
+                });
+            }).catch((error: Error) => {
+                this.scheduleReconnect(serverName, attempt + 1, error.message);
+            });
+        }, delay);
+        timer.unref();
+        this.reconnectTimers.set(serverName, timer);
+    }
+
     /**
      * Get connected server names (only truly connected)
      */
     getConnectedServers(): string[] {
         const connected: string[] = [];
         for (const [name, instance] of this.servers) {
-            if (instance.connected && instance.process.exitCode === null) {
+            if (instance.connected && instance.transport.isAlive()) {
                 connected.push(name);
             }
         }
@@ -686,21 +1569,147 @@ export class McpClient {
     getAllTools(): Map<string, McpToolInfo[]> {
         const result = new Map<string, McpToolInfo[]>();
         for (const [name, instance] of this.servers) {
-            if (instance.connected && instance.process.exitCode === null) {
-                result.set(name, instance.tools);
+            if (instance.connected && instance.transport.isAlive()) {
+                result.set(name, this.getServerTools(instance));
             }
         }
         return result;
     }
 
+    /**
+     * Server tools plus the resource tools, when the server has resources
+     */
+    private getServerTools(instance: McpServerInstance): McpToolInfo[] {
+        const tools = this.hasResourceTools(instance)
+            ? [...instance.tools, ...this.getResourceTools(instance)]
+            : instance.tools;
+        return tools.filter(tool => isToolAllowed(tool.name, instance.toolFilter));
+    }
+
+    /**
+     * Reassign advertised tool names and warn about new collisions.
+     * Servers are namespaced in config order so names stay stable.
+     */
+    private rebuildToolNamespace(): void {
+        const connected = this.getConnectedServers()
+            .sort((a, b) => this.configOrder.indexOf(a) - this.configOrder.indexOf(b));
+        const tools = this.getAllTools();
+        const namespace = buildToolNamespace(connected.map(name => ({ name, tools: tools.get(name) || [] })));
+
+        this.toolNamespace = new Map(namespace.tools.map(tool => [tool.name, tool]));
+        this.toolCollisions = namespace.collisions;
+
+        for (const collision of namespace.collisions) {
+            const key = `${collision.kind}:${collision.sources.join(',')}`;
+            if (this.reportedCollisions.has(key)) continue;
+            this.reportedCollisions.add(key);
+
+            const message = formatToolCollision(collision);
+            this.log(message);
+            // Shared names are resolved by namespacing; only clashes of namespaced names need attention
+            if (collision.kind === 'renamed') {
+                this.emitEvent({ type: 'warning', message });
+            }
+        }
+    }
+
+    /**
+     * Advertise in-process tools alongside the server tools (or stop, with
+     * no provider). A configured server with the same name takes precedence.
+     */
+    setLocalToolProvider(provider: LocalToolProvider | undefined): void {
+        this.localTools = provider;
+        this.notifyLocalToolsChanged();
+    }
+
+    /**
+     * Show a warning in the chat UIs (e.g. a problem found when local tools
+     * are reloaded while the session runs)
+     */
+    notifyWarning(message: string): void {
+        this.emitEvent({ type: 'warning', message });
+    }
+
+    /**
+     * Tell listeners that the in-process tool list changed
+     */
+    notifyLocalToolsChanged(): void {
+        if (!this.localTools) return;
+        this.emitEvent({ type: 'tools_changed', serverName: this.localTools.name, tools: this.localTools.listTools() });
+    }
+
+    private isLocalToolServer(serverName: string): boolean {
+        return !!this.localTools && this.localTools.name === serverName && !this.servers.has(serverName);
+    }
+
+    /**
+     * Collisions found among the tools of connected servers
+     */
+    getToolCollisions(): ToolCollision[] {
+        return this.toolCollisions;
+    }
+
+    /**
+     * Map an advertised (namespaced) tool name back to the server's own name.
+     * Plain tool names are passed through unchanged.
+     */
+    resolveToolName(serverName: string, toolName: string): string {
+        const entry = this.toolNamespace.get(toolName);
+        if (entry && entry.serverName === serverName) {
+            return entry.toolName;
+        }
+        // Name advertised before the tool list changed
+        const prefix = namespaceToolName(serverName, '');
+        const tools = this.servers.get(serverName)?.tools || [];
+        if (toolName.startsWith(prefix) && !tools.some(tool => tool.name === toolName)) {
+            const stripped = toolName.slice(prefix.length);
+            if (tools.some(tool => tool.name === stripped)) {
+                return stripped;
+            }
+        }
+        return toolName;
+    }
+
+    /**
+     * Build the MCP state sent to the agent (undefined when nothing is connected)
+     */
+    getMcpState(): McpState | undefined {
+        const connectedServers = this.getConnectedServers();
+        const localTools = this.localTools && this.isLocalToolServer(this.localTools.name)
+            ? this.localTools.listTools()
+            : [];
+        if (connectedServers.length === 0 && localTools.length === 0) return undefined;
+
+        const tools = this.getAllTools();
+        const advertised = new Map<string, string>();
+        for (const entry of this.toolNamespace.values()) {
+            advertised.set(`${entry.serverName}\0${entry.toolName}`, entry.name);
+        }
+
+        return {
+            mcpEnabled: true,
+            mcpServers: [
+                ...connectedServers.map((name) => ({
+                    name,
+                    connected: true,
+                    tools: (tools.get(name) || []).map(tool => ({
+                        ...tool,
+                        name: advertised.get(`${name}\0${tool.name}`) ?? tool.name,
+                    })),
+                })),
+                ...(localTools.length > 0 ? [{ name: this.localTools!.name, connected: true, tools: localTools }] : []),
+            ],
+        };
+    }
+
     /**
      * Get total tool count across all connected servers
      */
     getTotalToolCount(): number {
         let count = 0;
         for (const instance of this.servers.values()) {
-            if (instance.connected && instance.process.exitCode === null) {
-                count += instance.tools.length;
+            if (instance.connected && instance.transport.isAlive()) {
+                count += this.getServerTools(instance).length;
             }
         }
         return count;
@@ -84,6 +84,7 @@ export function getContextToolDefinitions(): Tool[] {
           },
         },
       },
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
     },
     {
       name: 'paean_context_compact',
@@ -111,6 +112,7 @@ export function getContextToolDefinitions(): Tool[] {
         },
         required: ['summary'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: false },
     },
   ];
 }
@@ -0,0 +1,327 @@
+/**
+ * JSON-defined Custom Tools
+ * Turn tool definitions from mcp_tools.json into handlers that run a process
+ *
+ * A tool runs either a shell command (`command`) or a program with an argument
+ * list (`argv`, no shell involved). `{{name}}` placeholders in `argv`, `env`
+ * and `stdinTemplate` are replaced by tool arguments; dotted names reach into
+ * nested objects (`{{options.depth}}`). An `argv` entry that is only a
+ * placeholder expands to one entry per element of an array argument and is
+ * dropped when the argument is missing, so values never need quoting.
+ * Argument values starting with "-" are refused, so the model cannot pass
+ * options to the program, unless they come after a literal "--" entry.
+ *
+ * ```json
+ * {
+ *   "name": "search_notes",
+ *   "inputSchema": { "type": "object", "properties": { "query": { "type": "string" } } },
+ *   "argv": ["rg", "--json", "--", "{{query}}", "notes/"],
+ *   "env": { "RG_CONFIG_PATH": "{{config}}" },
+ *   "stdin": "json",
+ *   "output": "lines",
+ *   "cwd": ".."
+ * }
+ * ```
+ *
+ * - `stdin`: "json" pipes the arguments as JSON, "text" pipes `stdinTemplate`
+ *   (default "{{input}}")
+ * - `output`: "json" parses stdout as JSON, "text" returns it as a string,
+ *   "lines" as an array of non-empty lines. Without it, JSON is tried first.
+ * - `cwd` is relative to the directory of the JSON file
+ *
+ * The arguments are always available as JSON in `MCP_TOOL_INPUT`.
+ */
+
+import { spawn } from 'child_process';
+import { resolve } from 'path';
+import type { CustomToolHandler } from './tools.js';
+
+/**
+ * A tool entry of mcp_tools.json
+ */
+export interface CustomToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  /** Shell command line */
+  command?: string;
+  /** Program and arguments, run without a shell */
+  argv?: string[];
+  /** Extra environment variables; values may contain placeholders */
+  env?: Record<string, string>;
+  stdin?: 'json' | 'text';
+  /** Text piped to stdin when `stdin` is "text" */
+  stdinTemplate?: string;
+  output?: 'json' | 'text' | 'lines';
+  /** Working directory, relative to the JSON file */
+  cwd?: string;
+  /** Timeout in milliseconds (default 60000) */
+  timeout?: number;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g;
+const SINGLE_PLACEHOLDER_PATTERN = /^\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}$/;
+
+/** Output kept per stream; anything beyond it is dropped */
+const MAX_OUTPUT_BYTES = 5 * 1024 * 1024;
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/** Time between SIGTERM and SIGKILL when a tool times out */
+const KILL_GRACE_MS = 2000;
+
+/**
+ * Check a definition, returning a description of the first problem
+ */
+export function validateCustomToolDefinition(def: CustomToolDefinition): string | null {
+  if (!def.name) return 'missing "name"';
+  if (!def.command && !def.argv) return `tool "${def.name}" needs "command" or "argv"`;
+  if (def.command && def.argv) return `tool "${def.name}" has both "command" and "argv"`;
+  if (def.argv && (!Array.isArray(def.argv) || def.argv.length === 0 || def.argv.some((part) => typeof part !== 'string'))) {
+    return `tool "${def.name}": "argv" must be a non-empty array of strings`;
+  }
+  if (def.stdin && def.stdin !== 'json' && def.stdin !== 'text') {
+    return `tool "${def.name}": "stdin" must be "json" or "text"`;
+  }
+  if (def.output && !['json', 'text', 'lines'].includes(def.output)) {
+    return `tool "${def.name}": "output" must be "json", "text" or "lines"`;
+  }
+  return null;
+}
+
+function lookupArgument(args: Record<string, unknown>, path: string): unknown {
+  let value: unknown = args;
+  for (const part of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function stringifyArgument(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Replace `{{name}}` placeholders in a string
+ */
+export function expandTemplate(template: string, args: Record<string, unknown>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, path: string) => stringifyArgument(lookupArgument(args, path)));
+}
+
+/**
+ * Expand an argv template. Whole-entry placeholders spread arrays and drop
+ * missing arguments; anything else is substituted in place. Throws when an
+ * argument would turn into an option, i.e. starts with "-" before a "--" entry.
+ */
+export function expandArgv(argv: string[], args: Record<string, unknown>): string[] {
+  const result: string[] = [];
+  let endOfOptions = false;
+
+  const push = (template: string, value: string) => {
+    if (!endOfOptions && value.startsWith('-') && !template.startsWith('-')) {
+      throw new Error(`Argument "${value}" starts with "-" and would be read as an option`);
+    }
+    result.push(value);
+  };
+
+  for (const part of argv) {
+    if (part === '--') {
+      endOfOptions = true;
+      result.push(part);
+      continue;
+    }
+    const single = part.match(SINGLE_PLACEHOLDER_PATTERN);
+    if (!single) {
+      push(part, expandTemplate(part, args));
+      continue;
+    }
+    const value = lookupArgument(args, single[1]);
+    if (value === undefined || value === null) continue;
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      push(part, stringifyArgument(item));
+    }
+  }
+  return result;
+}
+
+interface ProcessOutput {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+/**
+ * Run a tool process in its own process group. On timeout the whole group
+ * (shells and their children) gets SIGTERM, then SIGKILL.
+ */
+function runProcess(
+  file: string,
+  args: string[],
+  options: { shell: boolean; cwd: string; env: NodeJS.ProcessEnv; input?: string; timeout: number }
+): Promise<ProcessOutput> {
+  return new Promise((resolvePromise, reject) => {
+    const useProcessGroup = process.platform !== 'win32';
+    const child = spawn(file, args, {
+      cwd: options.cwd,
+      env: options.env,
+      shell: options.shell,
+      detached: useProcessGroup,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    const output = { stdout: '', stderr: '' };
+    let timedOut = false;
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      // Decode as a stream so multi-byte characters split across chunks survive
+      child[stream].setEncoding('utf-8');
+      child[stream].on('data', (chunk: string) => {
+        if (output[stream].length < MAX_OUTPUT_BYTES) {
+          output[stream] += chunk.slice(0, MAX_OUTPUT_BYTES - output[stream].length);
+        }
+      });
+    }
+
+    const killGroup = (signal: NodeJS.Signals) => {
+      try {
+        if (useProcessGroup && child.pid) {
+          process.kill(-child.pid, signal);
+        } else {
+          child.kill(signal);
+        }
+      } catch {
+        // Already exited
+      }
+    };
+
+    // The SIGKILL is not cancelled on close: group members that detached
+    // their stdio and ignore SIGTERM outlive the tool's main process
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup('SIGTERM');
+      setTimeout(() => killGroup('SIGKILL'), KILL_GRACE_MS);
+    }, options.timeout);
+
+    const finish = () => {
+      clearTimeout(timer);
+    };
+
+    child.on('error', (error) => {
+      finish();
+      reject(error);
+    });
+    child.on('close', (exitCode) => {
+      finish();
+      resolvePromise({ exitCode, ...output, timedOut });
+    });
+
+    // Programs that don't read stdin may close it early
+    child.stdin.on('error', () => { });
+    child.stdin.end(options.input);
+  });
+}
+
+function parseOutput(output: CustomToolDefinition['output'], stdout: string, stderr: string): unknown {
+  const text = stdout.trim();
+  const stderrText = stderr.trim() || undefined;
+
+  switch (output) {
+    case 'json':
+      try {
+        return JSON.parse(text);
+      } catch {
+        return {
+          success: false,
+          error: 'Tool output is not valid JSON',
+          stdout: text,
+          stderr: stderrText,
+        };
+      }
+    case 'text':
+      return { success: true, output: text, stderr: stderrText };
+    case 'lines':
+      return {
+        success: true,
+        lines: text.split(/\r?\n/).filter((line) => line.trim() !== ''),
+        stderr: stderrText,
+      };
+    default:
+      // Legacy behaviour: JSON when it parses, text otherwise
+      try {
+        return JSON.parse(text);
+      } catch {
+        return { success: true, output: text, stderr: stderrText };
+      }
+  }
+}
+
+/**
+ * Create the handler that runs a JSON-defined tool
+ * @param baseDir directory of the JSON file, for relative `cwd`s
+ */
+export function createCustomToolHandler(def: CustomToolDefinition, baseDir: string): CustomToolHandler {
+  const cwd = def.cwd ? resolve(baseDir, def.cwd) : undefined;
+  const timeout = def.timeout || DEFAULT_TIMEOUT_MS;
+
+  return async (args) => {
+    const env: NodeJS.ProcessEnv = {
+      ...process.env,
+      MCP_TOOL_INPUT: JSON.stringify(args),
+      MCP_TOOL_NAME: def.name,
+    };
+    for (const [key, template] of Object.entries(def.env || {})) {
+      env[key] = expandTemplate(String(template), args);
+    }
+
+    let input: string | undefined;
+    if (def.stdin === 'json') {
+      input = JSON.stringify(args);
+    } else if (def.stdin === 'text') {
+      input = expandTemplate(def.stdinTemplate ?? '{{input}}', args);
+    }
+
+    let argv: string[];
+    try {
+      argv = def.argv ? expandArgv(def.argv, args) : [def.command!];
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+    const [file, ...fileArgs] = argv;
+    if (!file) {
+      return { success: false, error: `Tool "${def.name}" expanded to an empty command` };
+    }
+
+    let result: ProcessOutput;
+    try {
+      result = await runProcess(file, fileArgs, {
+        shell: !def.argv,
+        cwd: cwd || process.cwd(),
+        env,
+        input,
+        timeout,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as Error).message || 'Custom tool execution failed',
+      };
+    }
+
+    if (result.timedOut || result.exitCode !== 0) {
+      return {
+        success: false,
+        error: result.timedOut
+          ? `Tool timed out after ${timeout}ms`
+          : `Tool exited with code ${result.exitCode ?? 'unknown'}`,
+        stdout: result.stdout.trim(),
+        stderr: result.stderr.trim(),
+      };
+    }
+
+    return parseOutput(def.output, result.stdout, result.stderr);
+  };
+}
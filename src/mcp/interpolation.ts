@@ -0,0 +1,181 @@
+/**
+ * MCP Config Interpolation
+ * Resolve environment variables and secret references in server configs
+ *
+ * String values of `command`, `args`, `env`, `cwd`, `url` and `headers` may
+ * contain:
+ *
+ *   ${VAR}                 value of the environment variable VAR (must be set)
+ *   ${VAR:-default}        VAR, or "default" when VAR is unset or empty
+ *   $${...}                a literal "${...}"
+ *
+ * A secret reference at the end of a value (the whole value, or after a
+ * space as in "Bearer @keychain:github") is replaced by the secret:
+ *
+ *   @file:~/.secrets/github-token       contents of the file (trimmed)
+ *   @keychain:service                   password stored in the OS keychain
+ *   @keychain:service/account           ... for a specific account
+ *
+ * Keychain lookups use `security` on macOS and `secret-tool` (libsecret) on
+ * Linux. References are resolved when the server is connected, so secrets
+ * never have to be written into mcp.json.
+ */
+
+import { execFile } from 'child_process';
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { resolve } from 'path';
+import { promisify } from 'util';
+import type { McpServerConfig } from './client.js';
+
+const VARIABLE_PATTERN = /\$(\$?)\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+const SECRET_PATTERN = /(^|\s)@(file|keychain):(\S+)$/;
+
+/** Keychain lookups that take longer than this are treated as failed */
+const KEYCHAIN_TIMEOUT_MS = 5000;
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Replace `${VAR}` and `${VAR:-default}` in a string
+ * @throws Error naming the variable when it is unset and has no default
+ */
+export function interpolateVariables(value: string, env: NodeJS.ProcessEnv = process.env): string {
+    return value.replace(VARIABLE_PATTERN, (match, escaped: string, name: string, fallback?: string) => {
+        if (escaped) {
+            return match.slice(1);
+        }
+        const resolved = env[name];
+        if (resolved !== undefined && resolved !== '') {
+            return resolved;
+        }
+        if (fallback !== undefined) {
+            return fallback;
+        }
+        throw new Error(`references environment variable ${name}, which is not set`);
+    });
+}
+
+function expandHome(path: string): string {
+    return path === '~' || path.startsWith('~/') ? homedir() + path.slice(1) : path;
+}
+
+async function readFileSecret(path: string): Promise<string> {
+    const fullPath = resolve(expandHome(path));
+    let content: string;
+    try {
+        content = (await readFile(fullPath, 'utf-8')).trim();
+    } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        throw new Error(`references ${fullPath}, which ${code === 'ENOENT' ? 'does not exist' : `cannot be read (${code})`}`);
+    }
+    if (!content) {
+        throw new Error(`references ${fullPath}, which is empty`);
+    }
+    return content;
+}
+
+/**
+ * Look up a keychain item. Runs asynchronously so servers connecting in
+ * parallel are not held up by a slow (or prompting) keychain.
+ */
+async function readKeychainSecret(reference: string): Promise<string> {
+    const slash = reference.indexOf('/');
+    const service = slash === -1 ? reference : reference.slice(0, slash);
+    const account = slash === -1 ? undefined : reference.slice(slash + 1);
+    if (!service) {
+        throw new Error('has an empty @keychain: reference');
+    }
+
+    let command: string;
+    let args: string[];
+    if (process.platform === 'darwin') {
+        command = 'security';
+        args = ['find-generic-password', '-s', service, ...(account ? ['-a', account] : []), '-w'];
+    } else if (process.platform === 'linux') {
+        command = 'secret-tool';
+        args = ['lookup', 'service', service, ...(account ? ['account', account] : [])];
+    } else {
+        throw new Error(`uses @keychain:, which is not supported on ${process.platform}`);
+    }
+
+    let secret: string;
+    try {
+        const { stdout } = await execFileAsync(command, args, {
+            encoding: 'utf-8',
+            timeout: KEYCHAIN_TIMEOUT_MS,
+        });
+        secret = stdout.trim();
+    } catch (error) {
+        const err = error as NodeJS.ErrnoException;
+        if (err.code === 'ENOENT') {
+            throw new Error(`uses @keychain:, but "${command}" is not installed`);
+        }
+        secret = '';
+    }
+    if (!secret) {
+        throw new Error(`references keychain item "${reference}", which was not found`);
+    }
+    return secret;
+}
+
+/**
+ * Resolve a single config value: variables first (they may form a secret
+ * reference), then a trailing secret reference
+ */
+export async function resolveConfigValue(value: string, env: NodeJS.ProcessEnv = process.env): Promise<string> {
+    const interpolated = interpolateVariables(value, env);
+    const match = interpolated.match(SECRET_PATTERN);
+    if (!match) {
+        return interpolated;
+    }
+    const [reference, separator, kind, target] = match;
+    const secret = kind === 'file' ? await readFileSecret(target) : await readKeychainSecret(target);
+    return interpolated.slice(0, interpolated.length - reference.length) + separator + secret;
+}
+
+/**
+ * Resolve variables and secret references in every string field of a server
+ * config. The original config is left unchanged.
+ * @throws Error naming the server and field (e.g. "env.GITHUB_TOKEN") of the
+ * first value that cannot be resolved
+ */
+export async function resolveServerConfig(
+    serverName: string,
+    config: McpServerConfig,
+    env: NodeJS.ProcessEnv = process.env
+): Promise<McpServerConfig> {
+    const resolveField = async (field: string, value: string): Promise<string> => {
+        try {
+            return await resolveConfigValue(value, env);
+        } catch (error) {
+            throw new Error(`MCP server "${serverName}": ${field} ${(error as Error).message}`);
+        }
+    };
+    const resolveMap = async (field: string, map?: Record<string, string>): Promise<Record<string, string> | undefined> => {
+        if (!map) return undefined;
+        const entries: Array<[string, string]> = [];
+        for (const [key, value] of Object.entries(map)) {
+            entries.push([key, await resolveField(`${field}.${key}`, String(value))]);
+        }
+        return Object.fromEntries(entries);
+    };
+
+    let args: string[] | undefined;
+    if (config.args) {
+        args = [];
+        for (const [index, arg] of config.args.entries()) {
+            args.push(await resolveField(`args[${index}]`, String(arg)));
+        }
+    }
+
+    return {
+        ...config,
+        command: config.command !== undefined ? await resolveField('command', config.command) : undefined,
+        args,
+        env: await resolveMap('env', config.env),
+        cwd: config.cwd !== undefined ? expandHome(await resolveField('cwd', config.cwd)) : undefined,
+        url: config.url !== undefined ? await resolveField('url', config.url) : undefined,
+        headers: await resolveMap('headers', config.headers),
+    };
+}
@@ -0,0 +1,481 @@
+/**
+ * Background Job Manager (Open Source)
+ *
+ * Tracks commands started with `paean_execute_shell` in background mode so
+ * the agent can follow their output and find out whether they crashed.
+ *
+ * Key behaviour:
+ * - stdout/stderr are captured into an in-memory ring buffer (most recent
+ *   lines) and appended to a log file under ~/.openpaean/jobs/.
+ * - Each job runs in its own process group; stopping a job signals the
+ *   whole group so shells and their children go down together.
+ * - All jobs are session-scoped: running jobs are terminated on process exit.
+ */
+
+import { type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { spawn, type ChildProcess } from 'child_process';
+import { randomBytes } from 'crypto';
+import { createWriteStream, mkdirSync, readdirSync, statSync, unlinkSync, type WriteStream } from 'fs';
+import { type Socket } from 'net';
+import { homedir } from 'os';
+import { join } from 'path';
+
+// ============================================
+// Types
+// ============================================
+
+export type JobStatus = 'running' | 'exited' | 'stopped' | 'failed';
+
+export interface BackgroundJob {
+  id: string;
+  command: string;
+  cwd: string;
+  pid: number | null;
+  status: JobStatus;
+  exitCode: number | null;
+  signal: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  /** Full output log (the ring buffer only keeps the most recent lines) */
+  logFile: string;
+  /** Total number of output lines produced so far */
+  lineCount: number;
+  /** A stop signal was sent; the status stays "running" until the job exits */
+  stopRequested: boolean;
+}
+
+export interface JobOutputLine {
+  /** 1-based line number across the job's whole output */
+  line: number;
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+interface InternalJob extends BackgroundJob {
+  child: ChildProcess;
+  buffer: JobOutputLine[];
+  partial: { stdout: string; stderr: string };
+  log: WriteStream;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+/** Lines kept in memory per job */
+const RING_BUFFER_LINES = 2000;
+
+/** Lines returned by paean_job_output when no range is given */
+const DEFAULT_TAIL_LINES = 100;
+
+/** Log files older than this are removed when the first job starts */
+const LOG_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Get the directory holding background job logs
+ */
+export function getJobsDir(): string {
+  return join(homedir(), '.openpaean', 'jobs');
+}
+
+// ============================================
+// In-Memory Registry (session-scoped)
+// ============================================
+
+const jobs = new Map<string, InternalJob>();
+
+let cleanupRegistered = false;
+
+function ensureCleanupRegistered(): void {
+  if (cleanupRegistered) return;
+  cleanupRegistered = true;
+
+  const cleanup = () => {
+    for (const job of jobs.values()) {
+      if (job.status === 'running') signalJob(job, 'SIGTERM');
+    }
+  };
+
+  // Signals are left to the owning command (e.g. the HTTP server shuts down
+  // gracefully first); jobs go when the process actually exits
+  process.on('exit', cleanup);
+
+  pruneOldLogs();
+}
+
+function pruneOldLogs(): void {
+  try {
+    const dir = getJobsDir();
+    const cutoff = Date.now() - LOG_RETENTION_MS;
+    for (const name of readdirSync(dir)) {
+      const path = join(dir, name);
+      if (statSync(path).mtimeMs < cutoff) unlinkSync(path);
+    }
+  } catch {
+    // Directory missing or not readable: nothing to prune
+  }
+}
+
+function generateId(): string {
+  return randomBytes(4).toString('hex');
+}
+
+function toPublicJob(job: InternalJob): BackgroundJob {
+  return {
+    id: job.id,
+    command: job.command,
+    cwd: job.cwd,
+    pid: job.pid,
+    status: job.status,
+    exitCode: job.exitCode,
+    signal: job.signal,
+    startedAt: job.startedAt,
+    endedAt: job.endedAt,
+    logFile: job.logFile,
+    lineCount: job.lineCount,
+    stopRequested: job.stopRequested,
+  };
+}
+
+function appendOutput(job: InternalJob, stream: 'stdout' | 'stderr', chunk: string): void {
+  job.log.write(chunk);
+
+  const lines = (job.partial[stream] + chunk).split('\n');
+  job.partial[stream] = lines.pop() ?? '';
+
+  for (const text of lines) {
+    job.buffer.push({ line: ++job.lineCount, stream, text: text.replace(/\r$/, '') });
+  }
+  if (job.buffer.length > RING_BUFFER_LINES) {
+    job.buffer.splice(0, job.buffer.length - RING_BUFFER_LINES);
+  }
+}
+
+function flushPartial(job: InternalJob): void {
+  for (const stream of ['stdout', 'stderr'] as const) {
+    if (job.partial[stream]) {
+      appendOutput(job, stream, '\n');
+    }
+  }
+}
+
+function finishJob(job: InternalJob, status: JobStatus, exitCode: number | null, signal: string | null): void {
+  flushPartial(job);
+  job.status = status;
+  job.exitCode = exitCode;
+  job.signal = signal;
+  job.endedAt = new Date().toISOString();
+  job.log.end();
+}
+
+/**
+ * Signal the job's whole process group, falling back to the process itself
+ */
+function signalJob(job: InternalJob, signal: NodeJS.Signals): boolean {
+  if (job.pid === null) return false;
+  try {
+    process.kill(-job.pid, signal);
+    return true;
+  } catch {
+    try {
+      return job.child.kill(signal);
+    } catch {
+      return false;
+    }
+  }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Start a command as a background job and capture its output
+ */
+export function startBackgroundJob(command: string, cwd: string): BackgroundJob {
+  ensureCleanupRegistered();
+
+  const id = generateId();
+  const jobsDir = getJobsDir();
+  mkdirSync(jobsDir, { recursive: true });
+  const logFile = join(jobsDir, `${id}.log`);
+
+  const child = spawn(command, {
+    cwd,
+    detached: true,
+    stdio: ['ignore', 'pipe', 'pipe'],
+    shell: true,
+  });
+
+  const job: InternalJob = {
+    id,
+    command,
+    cwd,
+    pid: child.pid ?? null,
+    status: 'running',
+    exitCode: null,
+    signal: null,
+    startedAt: new Date().toISOString(),
+    endedAt: null,
+    logFile,
+    lineCount: 0,
+    stopRequested: false,
+    child,
+    buffer: [],
+    partial: { stdout: '', stderr: '' },
+    // The output is not redacted, so keep the log private
+    log: createWriteStream(logFile, { flags: 'a', mode: 0o600 }),
+  };
+  jobs.set(id, job);
+
+  child.stdout?.setEncoding('utf-8');
+  child.stderr?.setEncoding('utf-8');
+  child.stdout?.on('data', (chunk: string) => appendOutput(job, 'stdout', chunk));
+  child.stderr?.on('data', (chunk: string) => appendOutput(job, 'stderr', chunk));
+
+  // A failing log file must not take the session down; the ring buffer still works
+  job.log.on('error', () => {});
+
+  child.on('error', (error) => {
+    if (job.endedAt) return;
+    appendOutput(job, 'stderr', `${error.message}\n`);
+    finishJob(job, 'failed', null, null);
+  });
+
+  child.on('close', (code, signal) => {
+    if (job.endedAt) return;
+    finishJob(job, job.stopRequested || signal ? 'stopped' : 'exited', code, signal);
+  });
+
+  // Don't keep the CLI alive just because a background job is running
+  child.unref();
+  (child.stdout as Socket | null)?.unref();
+  (child.stderr as Socket | null)?.unref();
+
+  return toPublicJob(job);
+}
+
+/**
+ * List all background jobs of this session (newest first)
+ */
+export function listBackgroundJobs(): BackgroundJob[] {
+  return Array.from(jobs.values())
+    .map(toPublicJob)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Get a background job by ID
+ */
+export function getBackgroundJob(jobId: string): BackgroundJob | null {
+  const job = jobs.get(jobId);
+  return job ? toPublicJob(job) : null;
+}
+
+/**
+ * Get buffered output lines for a job.
+ * `since` returns lines after that line number (for incremental polling);
+ * otherwise the last `tail` lines are returned.
+ */
+export function getJobOutput(
+  jobId: string,
+  options: { since?: number; tail?: number; stream?: 'stdout' | 'stderr' } = {}
+): JobOutputLine[] | null {
+  const job = jobs.get(jobId);
+  if (!job) return null;
+
+  let lines = job.buffer;
+  if (options.stream) lines = lines.filter(l => l.stream === options.stream);
+  if (options.since !== undefined) {
+    const since = options.since;
+    return lines.filter(l => l.line > since);
+  }
+  return lines.slice(-(options.tail ?? DEFAULT_TAIL_LINES));
+}
+
+/**
+ * Stop a running background job (signals its whole process group). The job
+ * keeps the "running" status until it has actually exited, so a job that
+ * ignores the signal can be stopped again with SIGKILL.
+ */
+export function stopBackgroundJob(jobId: string, signal: NodeJS.Signals = 'SIGTERM'): boolean {
+  const job = jobs.get(jobId);
+  if (!job || job.status !== 'running') return false;
+
+  const sent = signalJob(job, signal);
+  if (sent) job.stopRequested = true;
+  return sent;
+}
+
+/**
+ * Get the number of running background jobs (for status display)
+ */
+export function getRunningJobCount(): number {
+  return Array.from(jobs.values()).filter(j => j.status === 'running').length;
+}
+
+/**
+ * Stop all running jobs and forget finished ones (for session cleanup)
+ */
+export function clearAllBackgroundJobs(): void {
+  for (const job of jobs.values()) {
+    if (job.status === 'running') signalJob(job, 'SIGTERM');
+  }
+  jobs.clear();
+}
+
+// ============================================
+// MCP Tool Definitions
+// ============================================
+
+export function getJobToolDefinitions(): Tool[] {
+  return [
+    {
+      name: 'paean_job_output',
+      description:
+        'Read the captured stdout/stderr of a background job started with paean_execute_shell ' +
+        '(background: true). Returns the most recent lines by default; pass "since" with the last ' +
+        'line number you saw to poll for new output. Also reports whether the job is still running ' +
+        'and its exit code.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          jobId: {
+            type: 'string',
+            description: 'The ID of the background job',
+          },
+          since: {
+            type: 'number',
+            description: 'Only return lines after this line number',
+          },
+          tail: {
+            type: 'number',
+            description: `Number of most recent lines to return (default: ${DEFAULT_TAIL_LINES})`,
+          },
+          stream: {
+            type: 'string',
+            enum: ['stdout', 'stderr'],
+            description: 'Only return lines from this stream (default: both)',
+          },
+        },
+        required: ['jobId'],
+      },
+      annotations: { readOnlyHint: true, openWorldHint: false },
+    },
+    {
+      name: 'paean_job_list',
+      description:
+        'List background jobs started in this session with their command, PID, status, ' +
+        'exit code and log file.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      annotations: { readOnlyHint: true, openWorldHint: false },
+    },
+    {
+      name: 'paean_job_stop',
+      description:
+        'Stop a running background job. The signal is sent to the job\'s whole process group.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          jobId: {
+            type: 'string',
+            description: 'The ID of the background job to stop',
+          },
+          signal: {
+            type: 'string',
+            enum: ['SIGTERM', 'SIGKILL', 'SIGINT'],
+            description: 'Signal to send (default: SIGTERM)',
+          },
+        },
+        required: ['jobId'],
+      },
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+    },
+  ];
+}
+
+export const JOB_TOOL_NAMES = new Set([
+  'paean_job_output',
+  'paean_job_list',
+  'paean_job_stop',
+]);
+
+// ============================================
+// MCP Tool Execution
+// ============================================
+
+export async function executeJobTool(
+  toolName: string,
+  args: Record<string, unknown>,
+): Promise<unknown> {
+  switch (toolName) {
+    case 'paean_job_output': {
+      const jobId = args.jobId as string;
+      if (!jobId) return { success: false, error: 'jobId is required' };
+
+      const job = getBackgroundJob(jobId);
+      const stream = args.stream === 'stdout' || args.stream === 'stderr' ? args.stream : undefined;
+      const lines = getJobOutput(jobId, {
+        since: args.since as number | undefined,
+        tail: args.tail as number | undefined,
+        stream,
+      });
+      if (!job || !lines) return { success: false, error: `Job not found: ${jobId}` };
+
+      const oldestBuffered = jobs.get(jobId)!.buffer[0]?.line ?? job.lineCount + 1;
+      return {
+        success: true,
+        job,
+        output: lines.map(l => l.stream === 'stderr' ? `[stderr] ${l.text}` : l.text).join('\n'),
+        fromLine: lines[0]?.line ?? null,
+        toLine: lines[lines.length - 1]?.line ?? null,
+        ...(oldestBuffered > 1 ? {
+          note: `Lines before ${oldestBuffered} are only in the log file: ${job.logFile}`,
+        } : {}),
+      };
+    }
+
+    case 'paean_job_list': {
+      const all = listBackgroundJobs();
+      return {
+        success: true,
+        jobs: all,
+        count: all.length,
+        running: all.filter(j => j.status === 'running').length,
+      };
+    }
+
+    case 'paean_job_stop': {
+      const jobId = args.jobId as string;
+      const signal = (args.signal as NodeJS.Signals) || 'SIGTERM';
+      if (!jobId) return { success: false, error: 'jobId is required' };
+
+      const job = getBackgroundJob(jobId);
+      if (!job) return { success: false, error: `Job not found: ${jobId}` };
+      if (job.status !== 'running') {
+        return { success: false, error: `Job ${jobId} is not running (status: ${job.status})`, job };
+      }
+
+      if (!['SIGTERM', 'SIGKILL', 'SIGINT'].includes(signal)) {
+        return { success: false, error: `Invalid signal: ${signal}` };
+      }
+
+      const stopped = stopBackgroundJob(jobId, signal);
+      return stopped
+        ? {
+          success: true,
+          message: signal === 'SIGKILL'
+            ? `Sent ${signal} to job ${jobId} (PID ${job.pid})`
+            : `Sent ${signal} to job ${jobId} (PID ${job.pid}); if it is still running later, stop it with SIGKILL`,
+          jobId,
+        }
+        : { success: false, error: `Failed to signal job ${jobId}` };
+    }
+
+    default:
+      return { success: false, error: `Unknown job tool: ${toolName}` };
+  }
+}
@@ -385,6 +385,7 @@ export function getLoopToolDefinitions(): Tool[] {
         },
         required: ['schedule', 'prompt'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
     },
     {
       name: 'paean_loop_list',
@@ -395,6 +396,7 @@ export function getLoopToolDefinitions(): Tool[] {
         type: 'object',
         properties: {},
       },
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     {
       name: 'paean_loop_remove',
@@ -410,6 +412,7 @@ export function getLoopToolDefinitions(): Tool[] {
         },
         required: ['jobId'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
     },
     {
       name: 'paean_loop_get',
@@ -425,6 +428,7 @@ export function getLoopToolDefinitions(): Tool[] {
         },
         required: ['jobId'],
       },
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     {
       name: 'paean_loop_pause',
@@ -439,6 +443,7 @@ export function getLoopToolDefinitions(): Tool[] {
         },
         required: ['jobId'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
     },
     {
       name: 'paean_loop_resume',
@@ -453,6 +458,7 @@ export function getLoopToolDefinitions(): Tool[] {
         },
         required: ['jobId'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
     },
   ];
 }
@@ -0,0 +1,106 @@
+/**
+ * MCP tool namespacing: advertised names, collisions and allow / deny lists
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    MAX_TOOL_NAME_LENGTH,
+    buildToolNamespace,
+    formatToolCollision,
+    isToolAllowed,
+    namespaceToolName,
+} from './namespacing.js';
+
+describe('namespaceToolName', () => {
+    it('joins the server and tool name', () => {
+        expect(namespaceToolName('github', 'search')).toBe('github__search');
+    });
+
+    it('replaces characters model APIs reject', () => {
+        expect(namespaceToolName('my.server', 'tool name/v2')).toBe('my_server__tool_name_v2');
+        expect(namespaceToolName('docs-site', 'get_page')).toBe('docs-site__get_page');
+    });
+
+    it('shortens long names deterministically, keeping them distinct', () => {
+        const server = 'a-very-long-server-name-for-testing';
+        const first = namespaceToolName(server, 'a_tool_with_an_equally_long_name_one');
+        const second = namespaceToolName(server, 'a_tool_with_an_equally_long_name_two');
+
+        expect(first).toHaveLength(MAX_TOOL_NAME_LENGTH);
+        expect(second).toHaveLength(MAX_TOOL_NAME_LENGTH);
+        expect(first).not.toBe(second);
+        expect(namespaceToolName(server, 'a_tool_with_an_equally_long_name_one')).toBe(first);
+    });
+});
+
+describe('isToolAllowed', () => {
+    it('allows every tool without lists', () => {
+        expect(isToolAllowed('delete_repo', {})).toBe(true);
+        expect(isToolAllowed('delete_repo', { allowTools: [] })).toBe(true);
+    });
+
+    it('only allows tools matching allowTools', () => {
+        const filter = { allowTools: ['get_*', 'search'] };
+        expect(isToolAllowed('get_issue', filter)).toBe(true);
+        expect(isToolAllowed('search', filter)).toBe(true);
+        expect(isToolAllowed('create_issue', filter)).toBe(false);
+    });
+
+    it('lets denyTools win over allowTools', () => {
+        const filter = { allowTools: ['*'], denyTools: ['delete_*'] };
+        expect(isToolAllowed('delete_repo', filter)).toBe(false);
+        expect(isToolAllowed('list_repos', filter)).toBe(true);
+    });
+});
+
+describe('buildToolNamespace', () => {
+    it('keeps tools of the same name on different servers apart', () => {
+        const { tools, collisions } = buildToolNamespace([
+            { name: 'github', tools: [{ name: 'search' }, { name: 'get_issue' }] },
+            { name: 'docs', tools: [{ name: 'search' }] },
+        ]);
+
+        expect(tools).toEqual([
+            { name: 'github__search', serverName: 'github', toolName: 'search' },
+            { name: 'github__get_issue', serverName: 'github', toolName: 'get_issue' },
+            { name: 'docs__search', serverName: 'docs', toolName: 'search' },
+        ]);
+        expect(collisions).toEqual([{
+            kind: 'shared',
+            name: 'search',
+            sources: ['github/search', 'docs/search'],
+            resolvedAs: ['github__search', 'docs__search'],
+        }]);
+        expect(formatToolCollision(collisions[0])).toBe(
+            'Tool "search" is provided by 2 servers; available as github__search, docs__search'
+        );
+    });
+
+    it('suffixes names that still clash, the first server keeping the plain name', () => {
+        const { tools, collisions } = buildToolNamespace([
+            { name: 'my.server', tools: [{ name: 'run' }] },
+            { name: 'my_server', tools: [{ name: 'run' }] },
+        ]);
+
+        expect(tools.map(tool => tool.name)).toEqual(['my_server__run', 'my_server__run_2']);
+        const renamed = collisions.find(collision => collision.kind === 'renamed')!;
+        expect(renamed).toEqual({
+            kind: 'renamed',
+            name: 'my_server__run',
+            sources: ['my.server/run', 'my_server/run'],
+            resolvedAs: ['my_server__run', 'my_server__run_2'],
+        });
+        expect(formatToolCollision(renamed)).toContain('the second is available as "my_server__run_2"');
+    });
+
+    it('gives the same names for the same server order', () => {
+        const servers = [
+            { name: 'a.b', tools: [{ name: 'x' }] },
+            { name: 'a_b', tools: [{ name: 'x' }] },
+            { name: 'a-b', tools: [{ name: 'x' }] },
+        ];
+        const names = buildToolNamespace(servers).tools.map(tool => tool.name);
+        expect(names).toEqual(['a_b__x', 'a_b__x_2', 'a-b__x']);
+        expect(buildToolNamespace(servers).tools.map(tool => tool.name)).toEqual(names);
+    });
+});
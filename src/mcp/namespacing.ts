@@ -0,0 +1,157 @@
+/**
+ * MCP Tool Namespacing
+ * Give tools from different MCP servers distinct, deterministic names
+ *
+ * Each server tool is advertised to the agent as `<server>__<tool>`, so two
+ * servers can both expose `search` (as `github__search` and `docs__search`).
+ * Names are limited to the characters and length accepted by model APIs;
+ * names that still clash after that get a numeric suffix and a warning.
+ *
+ * Per-server `allowTools` / `denyTools` glob lists in the MCP config decide
+ * which tools are exposed at all.
+ */
+
+import { createHash } from 'crypto';
+import { matchGlob } from '../utils/glob.js';
+
+/** Separator between the server and the tool part of a namespaced name */
+export const TOOL_NAME_SEPARATOR = '__';
+
+/** Longest tool name accepted by the model APIs */
+export const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Tool allow / deny lists of a server (glob patterns on the server's tool names)
+ */
+export interface ToolFilter {
+    /** Only expose tools matching one of these patterns (default: all) */
+    allowTools?: string[];
+    /** Hide tools matching one of these patterns; wins over allowTools */
+    denyTools?: string[];
+}
+
+/**
+ * A server tool and the name it is advertised under
+ */
+export interface NamespacedTool {
+    /** Advertised name, e.g. "github__search" */
+    name: string;
+    serverName: string;
+    toolName: string;
+}
+
+/**
+ * Tools that ended up with the same name
+ *
+ * - shared:  servers expose the same tool name; namespacing keeps them apart
+ * - renamed: namespaced names clashed; later tools got a numeric suffix
+ */
+export interface ToolCollision {
+    kind: 'shared' | 'renamed';
+    name: string;
+    /** "server/tool" of every tool involved */
+    sources: string[];
+    /** Advertised names, in the order of `sources` */
+    resolvedAs: string[];
+}
+
+/**
+ * Check a tool name against a server's allow / deny lists
+ */
+export function isToolAllowed(toolName: string, filter: ToolFilter): boolean {
+    if (filter.denyTools?.some(pattern => matchGlob(pattern, toolName))) {
+        return false;
+    }
+    if (filter.allowTools && filter.allowTools.length > 0) {
+        return filter.allowTools.some(pattern => matchGlob(pattern, toolName));
+    }
+    return true;
+}
+
+/**
+ * Replace characters that tool names may not contain
+ */
+function sanitizeNamePart(value: string): string {
+    return value.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/**
+ * Cut a name to the maximum length, keeping it unique with a short hash
+ */
+function limitLength(name: string): string {
+    if (name.length <= MAX_TOOL_NAME_LENGTH) return name;
+    const hash = createHash('sha256').update(name).digest('hex').slice(0, 8);
+    return `${name.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+/**
+ * Namespaced name of a server tool, e.g. ("github", "search") -> "github__search"
+ */
+export function namespaceToolName(serverName: string, toolName: string): string {
+    return limitLength(`${sanitizeNamePart(serverName)}${TOOL_NAME_SEPARATOR}${sanitizeNamePart(toolName)}`);
+}
+
+/**
+ * Assign advertised names to the tools of several servers. Servers are
+ * processed in the given order, so the first one keeps the plain name when
+ * namespaced names clash.
+ */
+export function buildToolNamespace(
+    servers: Array<{ name: string; tools: Array<{ name: string }> }>
+): { tools: NamespacedTool[]; collisions: ToolCollision[] } {
+    const tools: NamespacedTool[] = [];
+    const taken = new Map<string, NamespacedTool>();
+    const byToolName = new Map<string, NamespacedTool[]>();
+    const collisions: ToolCollision[] = [];
+
+    for (const server of servers) {
+        for (const tool of server.tools) {
+            const base = namespaceToolName(server.name, tool.name);
+            let name = base;
+            for (let suffix = 2; taken.has(name); suffix++) {
+                name = limitLength(`${base}_${suffix}`);
+            }
+
+            const entry: NamespacedTool = { name, serverName: server.name, toolName: tool.name };
+            if (name !== base) {
+                const first = taken.get(base)!;
+                collisions.push({
+                    kind: 'renamed',
+                    name: base,
+                    sources: [`${first.serverName}/${first.toolName}`, `${server.name}/${tool.name}`],
+                    resolvedAs: [first.name, name],
+                });
+            }
+
+            taken.set(name, entry);
+            tools.push(entry);
+            byToolName.set(tool.name, [...(byToolName.get(tool.name) || []), entry]);
+        }
+    }
+
+    for (const [toolName, entries] of byToolName) {
+        const servers = new Set(entries.map(entry => entry.serverName));
+        if (servers.size > 1) {
+            collisions.push({
+                kind: 'shared',
+                name: toolName,
+                sources: entries.map(entry => `${entry.serverName}/${entry.toolName}`),
+                resolvedAs: entries.map(entry => entry.name),
+            });
+        }
+    }
+
+    return { tools, collisions };
+}
+
+/**
+ * Human-readable description of a collision
+ */
+export function formatToolCollision(collision: ToolCollision): string {
+    if (collision.kind === 'shared') {
+        return `Tool "${collision.name}" is provided by ${collision.sources.length} servers; ` +
+            `available as ${collision.resolvedAs.join(', ')}`;
+    }
+    return `Tool name "${collision.name}" is used by both ${collision.sources.join(' and ')}; ` +
+        `the second is available as "${collision.resolvedAs[1]}"`;
+}
@@ -0,0 +1,185 @@
+/**
+ * Permission policy: rule precedence and remembered approval answers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    authorizeToolCall,
+    clearSessionPermissions,
+    evaluatePermission,
+    parseApprovalAnswer,
+    setApprovalHandler,
+    type ApprovalDecision,
+    type PermissionRule,
+    type PermissionsFile,
+} from './permissions.js';
+
+describe('tool permissions', () => {
+    const originalCwd = process.cwd();
+    let project: string;
+
+    function writeProjectRules(rules: PermissionRule[]): void {
+        mkdirSync(join(project, '.openpaean'), { recursive: true });
+        writeFileSync(join(project, '.openpaean', 'permissions.json'), JSON.stringify({ rules }));
+    }
+
+    function readProjectRules(): PermissionRule[] {
+        const file = JSON.parse(readFileSync(join(project, '.openpaean', 'permissions.json'), 'utf-8')) as PermissionsFile;
+        return file.rules || [];
+    }
+
+    /**
+     * Answer every approval prompt with the given decision, counting the prompts
+     */
+    function answerPrompts(decision: ApprovalDecision): { count: number } {
+        const prompts = { count: 0 };
+        setApprovalHandler(async () => {
+            prompts.count++;
+            return decision;
+        });
+        return prompts;
+    }
+
+    const shell = (command: string) => ({ command });
+
+    beforeEach(() => {
+        project = mkdtempSync(join(tmpdir(), 'openpaean-permissions-'));
+        process.chdir(project);
+    });
+
+    afterEach(() => {
+        setApprovalHandler(null);
+        clearSessionPermissions();
+        process.chdir(originalCwd);
+        rmSync(project, { recursive: true, force: true });
+    });
+
+    describe('evaluatePermission', () => {
+        it('lets tools outside the guarded set through', () => {
+            writeProjectRules([{ tool: '*', action: 'deny' }]);
+            expect(evaluatePermission('paean_read_file', { filePath: 'a.txt' }).action).toBe('allow');
+        });
+
+        it('checks deny rules before ask and allow rules', () => {
+            writeProjectRules([
+                { tool: 'paean_execute_shell', action: 'allow', command: 'git *' },
+                { tool: 'paean_execute_shell', action: 'ask', command: 'git *' },
+                { tool: 'paean_execute_shell', action: 'deny', command: 'git push*' },
+            ]);
+            expect(evaluatePermission('paean_execute_shell', shell('git push origin main')).action).toBe('deny');
+            expect(evaluatePermission('paean_execute_shell', shell('git status')).action).toBe('ask');
+        });
+
+        it('falls back to the built-in default', () => {
+            expect(evaluatePermission('paean_execute_shell', shell('ls')).action).toBe('ask');
+            expect(evaluatePermission('paean_execute_shell', shell('ls'), { preApproved: true }).action).toBe('allow');
+        });
+
+        it('matches relative path rules against the project root', () => {
+            writeProjectRules([{ tool: 'paean_write_file', action: 'allow', path: 'src/**' }]);
+            expect(evaluatePermission('paean_write_file', { filePath: join(project, 'src', 'a', 'b.ts') }).action).toBe('allow');
+            expect(evaluatePermission('paean_write_file', { filePath: 'src/c.ts' }).action).toBe('allow');
+            expect(evaluatePermission('paean_write_file', { filePath: join(project, 'docs', 'a.md') }).action).toBe('ask');
+        });
+
+        it('ignores malformed rules and unreadable files', () => {
+            writeProjectRules([
+                { tool: 'paean_execute_shell', action: 'maybe' } as unknown as PermissionRule,
+            ]);
+            expect(evaluatePermission('paean_execute_shell', shell('ls'), { preApproved: true }).action).toBe('allow');
+
+            writeFileSync(join(project, '.openpaean', 'permissions.json'), '{ not json');
+            expect(evaluatePermission('paean_execute_shell', shell('ls'), { preApproved: true }).action).toBe('allow');
+        });
+    });
+
+    describe('authorizeToolCall', () => {
+        it('refuses calls matching an ask rule when nobody can approve them', async () => {
+            writeProjectRules([{ tool: 'paean_execute_shell', action: 'ask' }]);
+            const outcome = await authorizeToolCall('paean_execute_shell', shell('ls'), { preApproved: true });
+            expect(outcome.action).toBe('unattended');
+            expect(outcome.action === 'unattended' && outcome.reason).toContain('Needs approval');
+        });
+
+        it('reports a denied prompt', async () => {
+            answerPrompts('deny');
+            expect(await authorizeToolCall('paean_execute_shell', shell('ls'))).toEqual({
+                action: 'deny',
+                reason: 'User denied paean_execute_shell',
+            });
+        });
+
+        it('asks again after "allow once"', async () => {
+            const prompts = answerPrompts('allow_once');
+            await authorizeToolCall('paean_execute_shell', shell('make'));
+            await authorizeToolCall('paean_execute_shell', shell('make'));
+            expect(prompts.count).toBe(2);
+        });
+
+        it('remembers "allow for session" even when an ask rule matches', async () => {
+            writeProjectRules([{ tool: 'paean_execute_shell', action: 'ask' }]);
+            const prompts = answerPrompts('allow_session');
+
+            expect((await authorizeToolCall('paean_execute_shell', shell('make build'))).action).toBe('allow');
+            expect((await authorizeToolCall('paean_execute_shell', shell('make build'))).action).toBe('allow');
+            expect(prompts.count).toBe(1);
+
+            await authorizeToolCall('paean_execute_shell', shell('make clean'));
+            expect(prompts.count).toBe(2);
+
+            clearSessionPermissions();
+            await authorizeToolCall('paean_execute_shell', shell('make build'));
+            expect(prompts.count).toBe(3);
+        });
+
+        it('saves "allow for project" as an exact remembered rule', async () => {
+            writeProjectRules([{ tool: 'paean_execute_shell', action: 'ask' }]);
+            const prompts = answerPrompts('allow_project');
+
+            await authorizeToolCall('paean_execute_shell', shell('rm -f *.log'));
+            expect(readProjectRules()).toContainEqual({
+                tool: 'paean_execute_shell',
+                action: 'allow',
+                remembered: true,
+                command: 'rm -f \\*.log',
+            });
+
+            await authorizeToolCall('paean_execute_shell', shell('rm -f *.log'));
+            expect(prompts.count).toBe(1);
+
+            // The glob characters of the answered command are literal
+            await authorizeToolCall('paean_execute_shell', shell('rm -f important.log'));
+            expect(prompts.count).toBe(2);
+        });
+
+        it('escapes remembered paths', async () => {
+            const prompts = answerPrompts('allow_session');
+            await authorizeToolCall('paean_write_file', { filePath: 'app/[id]/page.tsx' });
+            await authorizeToolCall('paean_write_file', { filePath: 'app/[id]/page.tsx' });
+            expect(prompts.count).toBe(1);
+
+            await authorizeToolCall('paean_write_file', { filePath: 'app/i/page.tsx' });
+            expect(prompts.count).toBe(2);
+        });
+
+        it('does not let a remembered answer override a deny rule', async () => {
+            answerPrompts('allow_session');
+            await authorizeToolCall('paean_execute_shell', shell('git push'));
+            writeProjectRules([{ tool: 'paean_execute_shell', action: 'deny', command: 'git push*' }]);
+
+            const outcome = await authorizeToolCall('paean_execute_shell', shell('git push'));
+            expect(outcome.action).toBe('deny');
+        });
+    });
+
+    it('parses typed prompt answers', () => {
+        expect(parseApprovalAnswer(' Y ')).toBe('allow_once');
+        expect(parseApprovalAnswer('s')).toBe('allow_session');
+        expect(parseApprovalAnswer('always')).toBe('allow_project');
+        expect(parseApprovalAnswer('')).toBe('deny');
+        expect(parseApprovalAnswer('whatever')).toBe('deny');
+    });
+});
@@ -0,0 +1,355 @@
+/**
+ * Tool Permission Policy (Open Source)
+ *
+ * Decides whether a guarded system tool call (shell, file writes and edits,
+ * process kills, downloads) may run, needs the user's approval, or is refused.
+ *
+ * Rules are loaded from:
+ * 1. Global: ~/.openpaean/permissions.json
+ * 2. Project: .openpaean/permissions.json (also stores "always allow" answers)
+ * plus "allow for this session" answers kept in memory.
+ *
+ * Example .openpaean/permissions.json:
+ * ```json
+ * {
+ *   "rules": [
+ *     { "tool": "paean_execute_shell", "action": "allow", "command": "npm run *" },
+ *     { "tool": "paean_execute_shell", "action": "deny", "command": "git push*" },
+ *     { "tool": "paean_write_file", "action": "allow", "path": "src/**" },
+ *     { "tool": "paean_write_file", "action": "deny", "path": "**\/.env*" }
+ *   ]
+ * }
+ * ```
+ *
+ * Evaluation order: deny rules, then the user's remembered answers (session
+ * and "always allow" rules), then ask rules, then the other allow rules
+ * (project, global), then the built-in default. Relative path patterns are
+ * matched against the project root (current working directory).
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve, isAbsolute } from 'path';
+import { matchGlob, escapeGlob } from '../utils/glob.js';
+
+// ============================================
+// Types
+// ============================================
+
+export type PermissionAction = 'allow' | 'ask' | 'deny';
+
+/**
+ * A single permission rule. `tool` accepts glob patterns ("*" for all
+ * guarded tools). `command` and `path` narrow the rule to matching calls.
+ */
+export interface PermissionRule {
+    tool: string;
+    action: PermissionAction;
+    command?: string;
+    path?: string;
+    /** Saved from an approval prompt; takes precedence over ask rules */
+    remembered?: boolean;
+}
+
+/**
+ * permissions.json file format
+ */
+export interface PermissionsFile {
+    rules?: PermissionRule[];
+}
+
+/**
+ * Answer given by the user to an approval prompt
+ */
+export type ApprovalDecision = 'allow_once' | 'allow_session' | 'allow_project' | 'deny';
+
+/**
+ * Approval prompt shown by the UI before a guarded tool runs
+ */
+export interface ApprovalRequest {
+    toolName: string;
+    /** One-line description of what the tool is about to do */
+    summary: string;
+    args: Record<string, unknown>;
+}
+
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+/**
+ * Outcome of a permission check.
+ * `unattended` means the call needs approval but no UI is available to ask;
+ * `reason` is set when an explicit "ask" rule (not the default) matched.
+ */
+export type PermissionOutcome =
+    | { action: 'allow' }
+    | { action: 'deny'; reason: string }
+    | { action: 'unattended'; reason?: string };
+
+interface CallSubject {
+    command?: string;
+    path?: string;
+    summary: string;
+}
+
+interface SourcedRule extends PermissionRule {
+    source: string;
+}
+
+/** System tools that go through the permission policy */
+export const GUARDED_TOOL_NAMES = new Set([
+    'paean_execute_shell',
+    'paean_write_file',
+    'paean_edit_file',
+    'paean_kill_process',
+    'paean_download_file',
+]);
+
+// ============================================
+// Rule Storage
+// ============================================
+
+const sessionRules: PermissionRule[] = [];
+
+/**
+ * Get the global permissions file path
+ */
+export function getGlobalPermissionsPath(): string {
+    return join(homedir(), '.openpaean', 'permissions.json');
+}
+
+/**
+ * Get the project permissions file path
+ */
+export function getProjectPermissionsPath(): string {
+    return join(process.cwd(), '.openpaean', 'permissions.json');
+}
+
+function loadRules(filePath: string, source: string): SourcedRule[] {
+    if (!existsSync(filePath)) return [];
+    try {
+        const parsed = JSON.parse(readFileSync(filePath, 'utf-8')) as PermissionsFile;
+        return (parsed.rules || [])
+            .filter(rule => rule && typeof rule.tool === 'string' && ['allow', 'ask', 'deny'].includes(rule.action))
+            .map(rule => ({ ...rule, source }));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Load all rules (session, project, global) in precedence order
+ */
+export function getPermissionRules(): SourcedRule[] {
+    return [
+        ...sessionRules.map(rule => ({ ...rule, source: 'session' })),
+        ...loadRules(getProjectPermissionsPath(), '.openpaean/permissions.json'),
+        ...loadRules(getGlobalPermissionsPath(), '~/.openpaean/permissions.json'),
+    ];
+}
+
+/**
+ * Append a rule to the project permissions file
+ */
+function saveProjectRule(rule: PermissionRule): void {
+    const filePath = getProjectPermissionsPath();
+    let file: PermissionsFile = {};
+    if (existsSync(filePath)) {
+        try {
+            file = JSON.parse(readFileSync(filePath, 'utf-8')) as PermissionsFile;
+        } catch {
+            file = {};
+        }
+    }
+    file.rules = [...(file.rules || []), rule];
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(file, null, 2) + '\n');
+}
+
+/**
+ * Forget all "allow for this session" answers
+ */
+export function clearSessionPermissions(): void {
+    sessionRules.length = 0;
+}
+
+// ============================================
+// Approval Handler
+// ============================================
+
+let approvalHandler: ApprovalHandler | null = null;
+let approvalQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Register the UI callback that asks the user to approve a tool call.
+ * Only one handler is active at a time; pass null to unregister.
+ */
+export function setApprovalHandler(handler: ApprovalHandler | null): void {
+    approvalHandler = handler;
+}
+
+/**
+ * Parse a typed answer to an approval prompt (y / s / p / n)
+ */
+export function parseApprovalAnswer(answer: string): ApprovalDecision {
+    switch (answer.trim().toLowerCase()) {
+        case 'y':
+        case 'yes':
+            return 'allow_once';
+        case 's':
+        case 'session':
+            return 'allow_session';
+        case 'p':
+        case 'project':
+        case 'always':
+            return 'allow_project';
+        default:
+            return 'deny';
+    }
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+function describeCall(toolName: string, args: Record<string, unknown>): CallSubject {
+    switch (toolName) {
+        case 'paean_execute_shell': {
+            const command = String(args.command ?? '');
+            const cwd = args.cwd ? ` (in ${resolve(String(args.cwd))})` : '';
+            return { command, summary: `Run: ${command}${cwd}` };
+        }
+        case 'paean_write_file': {
+            const path = resolve(String(args.filePath ?? ''));
+            return { path, summary: `${args.append ? 'Append to' : 'Write'}: ${path}` };
+        }
+        case 'paean_edit_file': {
+            const path = resolve(String(args.filePath ?? ''));
+            const count = Array.isArray(args.edits) ? args.edits.length : 0;
+            return { path, summary: `Edit: ${path} (${count} change${count === 1 ? '' : 's'})` };
+        }
+        case 'paean_download_file': {
+            const path = resolve(String(args.directory || process.cwd()));
+            return { path, summary: `Download ${String(args.url ?? '')} into ${path}` };
+        }
+        case 'paean_kill_process':
+            return { summary: `Send ${String(args.signal || 'SIGTERM')} to PID ${String(args.pid ?? '')}` };
+        default:
+            return { summary: toolName };
+    }
+}
+
+function resolvePathPattern(pattern: string): string {
+    if (pattern === '~' || pattern.startsWith('~/')) {
+        return join(homedir(), pattern.slice(1));
+    }
+    if (isAbsolute(pattern)) return pattern;
+    return join(process.cwd(), pattern);
+}
+
+function ruleMatches(rule: PermissionRule, toolName: string, subject: CallSubject): boolean {
+    if (!matchGlob(rule.tool, toolName)) return false;
+    if (rule.command !== undefined) {
+        if (subject.command === undefined || !matchGlob(rule.command, subject.command.trim())) return false;
+    }
+    if (rule.path !== undefined) {
+        if (subject.path === undefined) return false;
+        if (!matchGlob(resolvePathPattern(rule.path), subject.path, { pathMode: true })) return false;
+    }
+    return true;
+}
+
+function formatRule(rule: SourcedRule): string {
+    const target = rule.command !== undefined
+        ? ` command "${rule.command}"`
+        : rule.path !== undefined ? ` path "${rule.path}"` : '';
+    return `${rule.action} ${rule.tool}${target} (${rule.source})`;
+}
+
+/**
+ * Evaluate the rules for a tool call without prompting.
+ * `preApproved` marks calls the built-in policy allows by default
+ * (e.g. whitelisted shell commands).
+ */
+export function evaluatePermission(
+    toolName: string,
+    args: Record<string, unknown>,
+    options: { preApproved?: boolean } = {}
+): { action: PermissionAction; rule?: SourcedRule } {
+    if (!GUARDED_TOOL_NAMES.has(toolName)) return { action: 'allow' };
+
+    const subject = describeCall(toolName, args);
+    const matching = getPermissionRules().filter(rule => ruleMatches(rule, toolName, subject));
+
+    const deny = matching.find(r => r.action === 'deny');
+    if (deny) return { action: 'deny', rule: deny };
+
+    // An answer the user chose to remember must not be asked again
+    const remembered = matching.find(r => r.action === 'allow' && (r.remembered || r.source === 'session'));
+    if (remembered) return { action: 'allow', rule: remembered };
+
+    for (const action of ['ask', 'allow'] as const) {
+        const rule = matching.find(r => r.action === action);
+        if (rule) return { action, rule };
+    }
+
+    return { action: options.preApproved ? 'allow' : 'ask' };
+}
+
+/**
+ * Check whether a guarded tool call may run, prompting the user through the
+ * registered approval handler when a rule (or the default) says "ask".
+ */
+export async function authorizeToolCall(
+    toolName: string,
+    args: Record<string, unknown>,
+    options: { preApproved?: boolean } = {}
+): Promise<PermissionOutcome> {
+    const { action, rule } = evaluatePermission(toolName, args, options);
+
+    if (action === 'allow') return { action: 'allow' };
+    if (action === 'deny') {
+        return {
+            action: 'deny',
+            reason: `Blocked by permission rule: ${rule ? formatRule(rule) : 'deny'}`,
+        };
+    }
+
+    const handler = approvalHandler;
+    if (!handler) {
+        return rule
+            ? { action: 'unattended', reason: `Needs approval (${formatRule(rule)}), but no one is available to approve it` }
+            : { action: 'unattended' };
+    }
+
+    const subject = describeCall(toolName, args);
+
+    // Serialize prompts so concurrent calls (e.g. gateway + local) ask one at a time
+    const decision = approvalQueue.then(
+        () => handler({ toolName, summary: subject.summary, args }),
+    ).catch((): ApprovalDecision => 'deny');
+    approvalQueue = decision;
+    const answer = await decision;
+
+    if (answer === 'deny') {
+        return { action: 'deny', reason: `User denied ${toolName}` };
+    }
+
+    if (answer === 'allow_session' || answer === 'allow_project') {
+        const remembered: PermissionRule = { tool: toolName, action: 'allow', remembered: true };
+        if (subject.command !== undefined) remembered.command = escapeGlob(subject.command.trim());
+        else if (subject.path !== undefined) remembered.path = escapeGlob(subject.path);
+
+        if (answer === 'allow_session') {
+            sessionRules.push(remembered);
+        } else {
+            try {
+                saveProjectRule(remembered);
+            } catch {
+                // Fall back to remembering it for this session only
+                sessionRules.push(remembered);
+            }
+        }
+    }
+
+    return { action: 'allow' };
+}
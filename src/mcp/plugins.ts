@@ -0,0 +1,430 @@
+/**
+ * Plugins
+ * Load JavaScript / TypeScript modules that add tools and slash commands
+ *
+ * Plugins are modules in `.openpaean/plugins/` (project) and
+ * `~/.openpaean/plugins/` (global) with a `.js`, `.mjs` or `.ts` extension.
+ * A plugin exports its definition as the default export, either as an object
+ * or as a function receiving a PluginContext:
+ *
+ * ```js
+ * export default {
+ *   name: 'deploy',
+ *   tools: [{
+ *     tool: { name: 'deploy_preview', description: '...', inputSchema: { type: 'object', properties: {} } },
+ *     handler: async (args) => ({ success: true, url: await deployPreview() }),
+ *   }],
+ *   commands: [{
+ *     name: 'preview',
+ *     description: 'Deploy a preview and review it',
+ *     run: async (args) => ({ message: `Review the preview deployment ${args}` }),
+ *   }],
+ *   hooks: { onLoad: (ctx) => ctx.log('ready'), onUnload: () => cleanup() },
+ * };
+ * ```
+ *
+ * Each plugin is loaded on its own: a plugin that fails to import, has an
+ * invalid definition or throws in `onLoad` is reported and skipped without
+ * affecting the others. Project plugins are loaded after global ones, so
+ * their tools win on name clashes.
+ *
+ * `.ts` plugins need a runtime that can import TypeScript (Node 22.6+ with
+ * type stripping, Bun, or tsx).
+ */
+
+import { existsSync, readdirSync } from 'fs';
+import { homedir } from 'os';
+import { basename, extname, join } from 'path';
+import { pathToFileURL } from 'url';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+    getMcpTools,
+    registerCustomTools,
+    getCustomToolRegistration,
+    restoreCustomToolRegistration,
+    type CustomToolHandler,
+    type CustomToolRegistration,
+} from './tools.js';
+import { COMMANDS, setPluginCommands, type CommandDef } from '../agent/completer.js';
+
+/** File extensions loaded as plugins */
+const PLUGIN_EXTENSIONS = new Set(['.js', '.mjs', '.ts']);
+
+/**
+ * Passed to plugin factories and hooks
+ */
+export interface PluginContext {
+    /** Project directory the CLI runs in */
+    cwd: string;
+    debug: boolean;
+    /** Log a line prefixed with the plugin name (shown in debug mode) */
+    log: (message: string) => void;
+}
+
+/**
+ * What a plugin slash command returns: text to show, a message to send to
+ * the agent, or nothing
+ */
+export type PluginCommandResult = string | { message: string } | void;
+
+/**
+ * Slash command contributed by a plugin
+ */
+export interface PluginCommand {
+    /** Command name without the slash, e.g. "preview" for /preview */
+    name: string;
+    description?: string;
+    /** Called with everything after the command name */
+    run: (args: string, context: PluginContext) => PluginCommandResult | Promise<PluginCommandResult>;
+}
+
+/**
+ * Plugin definition (the default export of a plugin module)
+ */
+export interface OpenPaeanPlugin {
+    /** Defaults to the file name */
+    name?: string;
+    version?: string;
+    description?: string;
+    tools?: Array<{ tool: Tool; handler: CustomToolHandler }>;
+    commands?: PluginCommand[];
+    hooks?: {
+        /** Called once the plugin's tools and commands are registered */
+        onLoad?: (context: PluginContext) => void | Promise<void>;
+        /** Called when the CLI exits */
+        onUnload?: () => void | Promise<void>;
+    };
+}
+
+/**
+ * A plugin file and what came of loading it
+ */
+export interface PluginInfo {
+    name: string;
+    path: string;
+    scope: 'project' | 'global';
+    status: 'loaded' | 'failed';
+    version?: string;
+    description?: string;
+    error?: string;
+    /** Registered tool names */
+    tools: string[];
+    /** Registered slash commands, e.g. "/preview" */
+    commands: string[];
+    warnings: string[];
+}
+
+interface LoadedPlugin {
+    info: PluginInfo;
+    definition: OpenPaeanPlugin;
+    context: PluginContext;
+    /** Tools the plugin's tools replaced, put back when it is unloaded */
+    replaced?: Map<string, CustomToolRegistration | undefined>;
+}
+
+const loadedPlugins: LoadedPlugin[] = [];
+
+/**
+ * Plugin directories, global first
+ */
+export function getPluginDirectories(cwd: string = process.cwd()): Array<{ dir: string; scope: 'project' | 'global' }> {
+    return [
+        { dir: join(homedir(), '.openpaean', 'plugins'), scope: 'global' },
+        { dir: join(cwd, '.openpaean', 'plugins'), scope: 'project' },
+    ];
+}
+
+/**
+ * Plugin files in the plugin directories, in load order
+ */
+export function discoverPlugins(cwd: string = process.cwd()): Array<{ path: string; scope: 'project' | 'global' }> {
+    const files: Array<{ path: string; scope: 'project' | 'global' }> = [];
+    const seen = new Set<string>();
+    for (const { dir, scope } of getPluginDirectories(cwd)) {
+        if (!existsSync(dir) || seen.has(dir)) continue;
+        seen.add(dir);
+        const entries = readdirSync(dir)
+            .filter(file => PLUGIN_EXTENSIONS.has(extname(file)) && !file.endsWith('.d.ts'))
+            .sort();
+        for (const file of entries) {
+            files.push({ path: join(dir, file), scope });
+        }
+    }
+    return files;
+}
+
+function createContext(name: string, cwd: string, debug: boolean): PluginContext {
+    return {
+        cwd,
+        debug,
+        log: (message: string) => {
+            if (debug) console.log(`[Plugin ${name}] ${message}`);
+        },
+    };
+}
+
+/**
+ * Import a plugin module and return its default export (the definition or
+ * its factory). Importing runs the module's top-level code.
+ * @throws Error describing why the module could not be imported
+ */
+async function importPluginModule(path: string): Promise<unknown> {
+    let module: Record<string, unknown>;
+    try {
+        module = await import(pathToFileURL(path).href) as Record<string, unknown>;
+    } catch (error) {
+        const err = error as NodeJS.ErrnoException;
+        if (err.code === 'ERR_UNKNOWN_FILE_EXTENSION' && extname(path) === '.ts') {
+            throw new Error('TypeScript plugins need Node 22.6+ with type stripping, Bun or tsx; compile it to .js instead');
+        }
+        throw new Error(`Failed to import: ${err.message}`);
+    }
+    return module.default ?? module;
+}
+
+/**
+ * Check a plugin definition
+ * @throws Error describing why it is not a usable plugin
+ */
+function validatePlugin(definition: unknown): OpenPaeanPlugin {
+    if (!definition || typeof definition !== 'object') {
+        throw new Error('Default export must be a plugin object or a function returning one');
+    }
+
+    const plugin = definition as OpenPaeanPlugin;
+    if (plugin.tools !== undefined && !Array.isArray(plugin.tools)) {
+        throw new Error('"tools" must be an array');
+    }
+    for (const entry of plugin.tools || []) {
+        if (!entry?.tool?.name || typeof entry.handler !== 'function') {
+            throw new Error('Each tool needs a "tool" definition with a name and a "handler" function');
+        }
+    }
+    if (plugin.commands !== undefined && !Array.isArray(plugin.commands)) {
+        throw new Error('"commands" must be an array');
+    }
+    for (const command of plugin.commands || []) {
+        if (!command?.name || typeof command.run !== 'function') {
+            throw new Error('Each command needs a "name" and a "run" function');
+        }
+    }
+    return plugin;
+}
+
+/**
+ * Import a plugin module, call its factory if it exports one, and check the
+ * definition
+ * @throws Error describing why the module is not a usable plugin
+ */
+async function importPlugin(path: string, context: PluginContext): Promise<OpenPaeanPlugin> {
+    let definition = await importPluginModule(path);
+    if (typeof definition === 'function') {
+        definition = await (definition as (context: PluginContext) => unknown)(context);
+    }
+    return validatePlugin(definition);
+}
+
+/**
+ * Keep a failing plugin tool from taking down the tool call
+ */
+function isolateHandler(pluginName: string, toolName: string, handler: CustomToolHandler): CustomToolHandler {
+    return async (args) => {
+        try {
+            return await handler(args);
+        } catch (error) {
+            return {
+                success: false,
+                error: `Plugin "${pluginName}" tool ${toolName} failed: ${(error as Error).message}`,
+            };
+        }
+    };
+}
+
+function normalizeCommandName(name: string): string {
+    return `/${name.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Read the plugin files without registering anything or running hooks.
+ * Modules are imported (their top-level code runs) but factory exports are
+ * not called, so a factory plugin is listed without its tools and commands.
+ */
+export async function inspectPlugins(cwd: string = process.cwd()): Promise<PluginInfo[]> {
+    const result: PluginInfo[] = [];
+    for (const { path, scope } of discoverPlugins(cwd)) {
+        const fallbackName = basename(path, extname(path));
+        const info: PluginInfo = { name: fallbackName, path, scope, status: 'failed', tools: [], commands: [], warnings: [] };
+        try {
+            const definition = await importPluginModule(path);
+            if (typeof definition === 'function') {
+                info.warnings.push('Defined by a factory function: its tools and commands are known once the agent loads it');
+            } else {
+                const plugin = validatePlugin(definition);
+                info.name = plugin.name || fallbackName;
+                info.version = plugin.version;
+                info.description = plugin.description;
+                info.tools = (plugin.tools || []).map(entry => entry.tool.name);
+                info.commands = (plugin.commands || []).map(command => normalizeCommandName(command.name));
+            }
+            info.status = 'loaded';
+        } catch (error) {
+            info.error = (error as Error).message;
+        }
+        result.push(info);
+    }
+    return result;
+}
+
+/**
+ * Load every plugin: register its tools and slash commands, then run its
+ * onLoad hook. Plugins loaded before are unloaded first.
+ */
+export async function loadPlugins(options: { cwd?: string; debug?: boolean } = {}): Promise<PluginInfo[]> {
+    const cwd = options.cwd ?? process.cwd();
+    const debug = options.debug ?? false;
+    await unloadPlugins();
+
+    const builtinCommands = new Set(
+        COMMANDS.filter(command => !command.plugin).flatMap(command => [command.name, ...(command.aliases || [])])
+    );
+    const takenCommands = new Set<string>();
+
+    for (const { path, scope } of discoverPlugins(cwd)) {
+        const fallbackName = basename(path, extname(path));
+        const info: PluginInfo = { name: fallbackName, path, scope, status: 'failed', tools: [], commands: [], warnings: [] };
+        let context = createContext(fallbackName, cwd, debug);
+
+        try {
+            const plugin = await importPlugin(path, context);
+            info.name = plugin.name || fallbackName;
+            info.version = plugin.version;
+            info.description = plugin.description;
+            context = createContext(info.name, cwd, debug);
+
+            const tools = (plugin.tools || []).map(({ tool, handler }) => ({
+                tool,
+                handler: isolateHandler(info.name, tool.name, handler),
+            }));
+            const replaced = new Map(tools.map(({ tool }) => [tool.name, getCustomToolRegistration(tool.name)]));
+            info.warnings.push(...registerCustomTools(tools));
+            const registered = new Set(getMcpTools());
+            info.tools = tools.filter(entry => registered.has(entry.tool)).map(entry => entry.tool.name);
+
+            for (const command of plugin.commands || []) {
+                const name = normalizeCommandName(command.name);
+                if (builtinCommands.has(name) || takenCommands.has(name)) {
+                    info.warnings.push(`Command ${name} skipped: another command has the same name`);
+                    continue;
+                }
+                takenCommands.add(name);
+                info.commands.push(name);
+            }
+
+            try {
+                await plugin.hooks?.onLoad?.(context);
+            } catch (error) {
+                for (const toolName of info.tools) restoreCustomToolRegistration(toolName, replaced.get(toolName));
+                for (const name of info.commands) takenCommands.delete(name);
+                info.tools = [];
+                info.commands = [];
+                throw new Error(`onLoad failed: ${(error as Error).message}`);
+            }
+
+            info.status = 'loaded';
+            loadedPlugins.push({ info, definition: plugin, context, replaced });
+        } catch (error) {
+            info.error = (error as Error).message;
+            loadedPlugins.push({ info, definition: {}, context });
+        }
+    }
+
+    setPluginCommands(getPluginCommands().map(({ name, command, plugin }): CommandDef => ({
+        name,
+        description: command.description || `Command from plugin ${plugin}`,
+        plugin,
+    })));
+    return getLoadedPlugins();
+}
+
+/**
+ * Run the onUnload hooks and remove the plugins' tools and commands, putting
+ * back the tools they replaced. Plugins are unloaded in reverse order.
+ */
+export async function unloadPlugins(): Promise<void> {
+    for (const { info, definition, replaced } of loadedPlugins.splice(0).reverse()) {
+        for (const toolName of info.tools) restoreCustomToolRegistration(toolName, replaced?.get(toolName));
+        if (info.status !== 'loaded') continue;
+        try {
+            await definition.hooks?.onUnload?.();
+        } catch {
+            // A failing cleanup must not keep the others from running
+        }
+    }
+    setPluginCommands([]);
+}
+
+/**
+ * Plugins from the last loadPlugins call, including failed ones
+ */
+export function getLoadedPlugins(): PluginInfo[] {
+    return loadedPlugins.map(plugin => plugin.info);
+}
+
+/**
+ * Slash commands registered by loaded plugins
+ */
+export function getPluginCommands(): Array<{ name: string; plugin: string; command: PluginCommand }> {
+    const commands: Array<{ name: string; plugin: string; command: PluginCommand }> = [];
+    for (const { info, definition } of loadedPlugins) {
+        for (const command of definition.commands || []) {
+            const name = normalizeCommandName(command.name);
+            if (info.commands.includes(name)) {
+                commands.push({ name, plugin: info.name, command });
+            }
+        }
+    }
+    return commands;
+}
+
+/**
+ * Find the plugin command an input line invokes
+ */
+export function findPluginCommand(input: string): { name: string; plugin: string; rawArgs: string } | undefined {
+    const trimmed = input.trim();
+    const space = trimmed.search(/\s/);
+    const name = (space === -1 ? trimmed : trimmed.slice(0, space)).toLowerCase();
+    const match = getPluginCommands().find(command => command.name.toLowerCase() === name);
+    if (!match) return undefined;
+    return { name: match.name, plugin: match.plugin, rawArgs: space === -1 ? '' : trimmed.slice(space + 1).trim() };
+}
+
+/**
+ * Run a plugin command
+ * @throws Error with the plugin's name when the command fails
+ */
+export async function runPluginCommand(name: string, rawArgs: string): Promise<PluginCommandResult> {
+    const loaded = loadedPlugins.find(plugin => plugin.info.commands.includes(name));
+    const command = getPluginCommands().find(candidate => candidate.name === name);
+    if (!loaded || !command) {
+        throw new Error(`Unknown plugin command ${name}`);
+    }
+    try {
+        return await command.command.run(rawArgs, loaded.context);
+    } catch (error) {
+        throw new Error(`Plugin "${loaded.info.name}" command ${name} failed: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * One-line summary of a plugin for status output
+ */
+export function formatPluginSummary(plugin: PluginInfo): string {
+    if (plugin.status === 'failed') {
+        return `${plugin.name}: failed (${plugin.error})`;
+    }
+    const parts = [`${plugin.tools.length} tools`];
+    if (plugin.commands.length > 0) {
+        parts.push(`commands ${plugin.commands.join(', ')}`);
+    }
+    return `${plugin.name}${plugin.version ? ` ${plugin.version}` : ''}: ${parts.join(', ')}`;
+}
@@ -0,0 +1,174 @@
+/**
+ * MCP Prompt Commands
+ * Expose prompt templates of connected MCP servers as slash commands
+ *
+ * A prompt `review` on server `github` becomes `/github:review`. Arguments
+ * are given positionally (in the order the server declares them) or as
+ * key=value pairs:
+ *
+ *   /github:review 123
+ *   /github:review pr=123 focus="error handling"
+ */
+
+import type { McpClient, McpPromptInfo, McpPromptResult } from './client.js';
+import { setMcpPromptCommands, type CommandDef } from '../agent/completer.js';
+
+/**
+ * Slash command backed by an MCP server prompt
+ */
+export interface PromptCommand {
+    /** Slash command name, e.g. "/github:review" */
+    name: string;
+    serverName: string;
+    promptName: string;
+    description: string;
+    arguments: NonNullable<McpPromptInfo['arguments']>;
+}
+
+/**
+ * Build slash commands for the prompts of all connected servers
+ */
+export function getPromptCommands(client: McpClient): PromptCommand[] {
+    const commands: PromptCommand[] = [];
+    for (const [serverName, prompts] of client.getAllPrompts()) {
+        for (const prompt of prompts) {
+            commands.push({
+                name: `/${serverName}:${prompt.name}`,
+                serverName,
+                promptName: prompt.name,
+                description: prompt.description || `Prompt from ${serverName}`,
+                arguments: prompt.arguments || [],
+            });
+        }
+    }
+    return commands;
+}
+
+/**
+ * Register the prompt commands of all connected servers in COMMANDS
+ * (tab completion and /help). Returns the registered commands.
+ */
+export function registerPromptCommands(client: McpClient): PromptCommand[] {
+    const commands = getPromptCommands(client);
+    setMcpPromptCommands(commands.map((command): CommandDef => ({
+        name: command.name,
+        description: command.description,
+        server: command.serverName,
+    })));
+    return commands;
+}
+
+/**
+ * Usage string for a prompt command, e.g. "/github:review <pr> [focus]"
+ */
+export function formatPromptUsage(command: PromptCommand): string {
+    const args = command.arguments.map(arg => arg.required ? `<${arg.name}>` : `[${arg.name}]`);
+    return [command.name, ...args].join(' ');
+}
+
+/**
+ * Find the prompt command an input line invokes
+ */
+export function findPromptCommand(
+    input: string,
+    commands: PromptCommand[]
+): { command: PromptCommand; rawArgs: string } | undefined {
+    const trimmed = input.trim();
+    const space = trimmed.search(/\s/);
+    const name = (space === -1 ? trimmed : trimmed.slice(0, space)).toLowerCase();
+    const command = commands.find(c => c.name.toLowerCase() === name);
+    if (!command) return undefined;
+    return { command, rawArgs: space === -1 ? '' : trimmed.slice(space + 1).trim() };
+}
+
+/**
+ * Split an argument string into tokens, honoring single and double quotes
+ */
+function tokenize(rawArgs: string): string[] {
+    const tokens: string[] = [];
+    const pattern = /(?:[^\s"']+|"[^"]*"|'[^']*')+/g;
+    for (const match of rawArgs.matchAll(pattern)) {
+        tokens.push(match[0].replace(/"([^"]*)"|'([^']*)'/g, (_m, d, s) => d ?? s));
+    }
+    return tokens;
+}
+
+/**
+ * Map the text after a prompt command to the prompt's declared arguments.
+ * Extra positional words go to the last argument.
+ * @throws Error if a required argument is missing
+ */
+export function parsePromptArguments(command: PromptCommand, rawArgs: string): Record<string, string> {
+    const declared = command.arguments.map(arg => arg.name);
+    const args: Record<string, string> = {};
+    const positional: string[] = [];
+
+    for (const token of tokenize(rawArgs)) {
+        const eq = token.indexOf('=');
+        const key = eq > 0 ? token.slice(0, eq) : '';
+        if (key && declared.includes(key)) {
+            args[key] = token.slice(eq + 1);
+        } else {
+            positional.push(token);
+        }
+    }
+
+    const unfilled = declared.filter(name => args[name] === undefined);
+    unfilled.forEach((name, index) => {
+        if (index >= positional.length) return;
+        args[name] = index === unfilled.length - 1
+            ? positional.slice(index).join(' ')
+            : positional[index];
+    });
+
+    const missing = command.arguments.filter(arg => arg.required && !args[arg.name]);
+    if (missing.length > 0) {
+        throw new Error(
+            `Missing required argument${missing.length > 1 ? 's' : ''} ${missing.map(a => `"${a.name}"`).join(', ')}. ` +
+            `Usage: ${formatPromptUsage(command)}`
+        );
+    }
+
+    return args;
+}
+
+/**
+ * Render prompt messages as a single message for the agent
+ */
+export function renderPromptMessages(result: McpPromptResult): string {
+    const parts = result.messages.map((message) => {
+        const { content } = message;
+        let text: string;
+        if (content.type === 'text') {
+            text = content.text || '';
+        } else if (content.type === 'resource' && content.resource) {
+            text = content.resource.text ?? `[Binary resource ${content.resource.uri}]`;
+        } else {
+            text = `[${content.type}${content.mimeType ? `: ${content.mimeType}` : ''}]`;
+        }
+        return { role: message.role, text };
+    });
+
+    // A single user message is sent as-is
+    if (parts.length === 1 && parts[0].role === 'user') {
+        return parts[0].text;
+    }
+    return parts.map(part => `[${part.role}]\n${part.text}`).join('\n\n');
+}
+
+/**
+ * Expand a prompt command into the message to send to the agent
+ */
+export async function expandPromptCommand(
+    client: McpClient,
+    command: PromptCommand,
+    rawArgs: string
+): Promise<string> {
+    const args = parsePromptArguments(command, rawArgs);
+    const result = await client.getPrompt(command.serverName, command.promptName, args);
+    const message = renderPromptMessages(result);
+    if (!message.trim()) {
+        throw new Error(`Prompt ${command.name} returned no content`);
+    }
+    return message;
+}
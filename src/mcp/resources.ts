@@ -3,8 +3,9 @@
  * Define resources that AI agents can read
  */
 
-import { type Resource } from '@modelcontextprotocol/sdk/types.js';
-import { getTodoList, getPendingChanges, getSubtaskProgress } from '../api/todo.js';
+import { type Resource, type ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { createHash } from 'crypto';
+import { getTodoList, getTodoItem, getPendingChanges, getSubtaskProgress, type TodoItem } from '../api/todo.js';
 import { detectProject, getProjectId } from '../utils/project.js';
 import { getConfigValue } from '../utils/config.js';
 
@@ -48,6 +49,98 @@ export async function getMcpResources(): Promise<Resource[]> {
   ];
 }
 
+/**
+ * Get MCP resource templates (parameterized resources)
+ */
+export function getMcpResourceTemplates(): ResourceTemplate[] {
+  return [
+    {
+      uriTemplate: 'paean://tasks/{id}',
+      name: 'Task',
+      description: 'A single task with its subtasks',
+      mimeType: 'application/json',
+    },
+    {
+      uriTemplate: 'paean://tasks?tag={tag}',
+      name: 'Tasks by Tag',
+      description: 'Tasks carrying a tag',
+      mimeType: 'application/json',
+    },
+  ];
+}
+
+/**
+ * Task details shared by the task resources
+ */
+function describeTask(t: TodoItem) {
+  const progress = getSubtaskProgress(t);
+  return {
+    id: t.id,
+    content: t.content,
+    description: t.description,
+    priority: t.priority,
+    status: t.status,
+    tags: t.tags,
+    dueDate: t.dueDate,
+    createdAt: t.createdAt,
+    // Subtask information
+    hasSubtasks: progress.total > 0,
+    subtaskCount: progress.total,
+    subtasksCompleted: progress.completed,
+    subtaskProgress: progress.percentage,
+    subtasks: t.checklist?.map(s => ({
+      id: s.id,
+      content: s.content,
+      completed: s.completed,
+    })) || [],
+  };
+}
+
+/**
+ * Read a resource matching one of the templates
+ */
+async function readTemplatedResource(uri: string): Promise<unknown> {
+  const project = detectProject();
+  const projectId = getProjectId(project);
+  const url = new URL(uri);
+
+  // paean://tasks?tag={tag}
+  const tag = url.searchParams.get('tag');
+  if (url.host === 'tasks' && url.pathname === '' && tag) {
+    const response = await getTodoList();
+    const tasks = response.data.items.filter(
+      (t) => t.tags?.some((candidate) => candidate.toLowerCase() === tag.toLowerCase())
+    );
+    return {
+      project: project.name,
+      projectId,
+      tag,
+      tasks: tasks.map(describeTask),
+      count: tasks.length,
+      retrievedAt: new Date().toISOString(),
+    };
+  }
+
+  // paean://tasks/{id}
+  const id = url.host === 'tasks' ? decodeURIComponent(url.pathname.replace(/^\//, '')) : '';
+  if (id && !id.includes('/')) {
+    const response = await getTodoItem(id);
+    return {
+      project: project.name,
+      projectId,
+      task: {
+        ...describeTask(response.data),
+        sourceContext: response.data.sourceContext,
+        updatedAt: response.data.updatedAt,
+        completedAt: response.data.completedAt,
+      },
+      retrievedAt: new Date().toISOString(),
+    };
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
 /**
  * Read a specific MCP resource
  */
@@ -64,29 +157,7 @@ export async function readMcpResource(uri: string): Promise<unknown> {
       return {
         project: project.name,
         projectId,
-        tasks: pendingTasks.map((t) => {
-          const progress = getSubtaskProgress(t);
-          return {
-            id: t.id,
-            content: t.content,
-            description: t.description,
-            priority: t.priority,
-            status: t.status,
-            tags: t.tags,
-            dueDate: t.dueDate,
-            createdAt: t.createdAt,
-            // Subtask information
-            hasSubtasks: progress.total > 0,
-            subtaskCount: progress.total,
-            subtasksCompleted: progress.completed,
-            subtaskProgress: progress.percentage,
-            subtasks: t.checklist?.map(s => ({
-              id: s.id,
-              content: s.content,
-              completed: s.completed,
-            })) || [],
-          };
-        }),
+        tasks: pendingTasks.map(describeTask),
         count: pendingTasks.length,
         retrievedAt: new Date().toISOString(),
       };
@@ -210,6 +281,80 @@ export async function readMcpResource(uri: string): Promise<unknown> {
     }
 
     default:
-      throw new Error(`Unknown resource: ${uri}`);
+      return readTemplatedResource(uri);
+  }
+}
+
+// ============================================
+// Task Change Tracking (resource subscriptions)
+// ============================================
+
+/** How often tasks are checked for changes made elsewhere */
+const TASK_POLL_INTERVAL_MS = 30000;
+
+const taskChangeListeners = new Set<() => void>();
+let taskPollTimer: NodeJS.Timeout | null = null;
+let taskFingerprint: string | null = null;
+
+/**
+ * Hash of everything the task resources show, to detect changes
+ */
+async function getTaskFingerprint(): Promise<string> {
+  const [todos, changes] = await Promise.all([getTodoList(), getPendingChanges()]);
+  const hash = createHash('sha256');
+  for (const t of todos.data.items) {
+    hash.update(`${t.id}:${t.status}:${t.updatedAt}\n`);
+  }
+  for (const c of changes.data) {
+    hash.update(`change:${c.id}:${c.status}:${c.isExpired}\n`);
   }
+  return hash.digest('hex');
+}
+
+async function pollTasks(): Promise<void> {
+  try {
+    const fingerprint = await getTaskFingerprint();
+    if (taskFingerprint !== null && fingerprint !== taskFingerprint) {
+      taskFingerprint = fingerprint;
+      notifyTasksChanged();
+      return;
+    }
+    taskFingerprint = fingerprint;
+  } catch {
+    // Offline or not authenticated: try again on the next tick
+  }
+}
+
+/**
+ * Tell listeners that tasks changed (called after task tools modify them)
+ */
+export function notifyTasksChanged(): void {
+  taskFingerprint = null;
+  for (const listener of taskChangeListeners) {
+    listener();
+  }
+  // Re-baseline so the change isn't reported again by the next poll
+  if (taskPollTimer) void pollTasks();
+}
+
+/**
+ * Listen for task changes, from task tools or made elsewhere (polled while
+ * anyone listens). Returns a function that removes the listener.
+ */
+export function onTasksChanged(listener: () => void): () => void {
+  taskChangeListeners.add(listener);
+  if (!taskPollTimer) {
+    void pollTasks();
+    taskPollTimer = setInterval(() => void pollTasks(), TASK_POLL_INTERVAL_MS);
+    taskPollTimer.unref();
+  }
+
+  return () => {
+    taskChangeListeners.delete(listener);
+    if (taskChangeListeners.size === 0 && taskPollTimer) {
+      clearInterval(taskPollTimer);
+      taskPollTimer = null;
+      taskFingerprint = null;
+    }
+  };
 }
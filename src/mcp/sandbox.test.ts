@@ -0,0 +1,111 @@
+/**
+ * Filesystem sandbox: workspace roots, symlink escapes and the sensitive path denylist
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import * as config from '../utils/config.js';
+import { checkPathAccess, getWorkspaceRoots, isSensitivePath } from './sandbox.js';
+
+describe('filesystem sandbox', () => {
+    let base: string;
+    let workspace: string;
+    let outside: string;
+
+    function useConfig(settings: Partial<config.OpenPaeanConfig>): void {
+        vi.spyOn(config, 'getConfig').mockReturnValue({ ...settings } as config.OpenPaeanConfig);
+    }
+
+    beforeEach(() => {
+        base = realpathSync(mkdtempSync(join(tmpdir(), 'openpaean-sandbox-')));
+        workspace = join(base, 'workspace');
+        outside = join(base, 'outside');
+        mkdirSync(workspace);
+        mkdirSync(outside);
+        writeFileSync(join(outside, 'secret.txt'), 'secret');
+        useConfig({ workspaceRoots: [workspace] });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        rmSync(base, { recursive: true, force: true });
+    });
+
+    it('defaults the workspace to the current directory', () => {
+        useConfig({});
+        expect(getWorkspaceRoots()).toEqual([process.cwd()]);
+    });
+
+    it('allows paths inside a workspace root, including new files', async () => {
+        expect(await checkPathAccess(join(workspace, 'src', 'new.ts'), 'write')).toEqual({
+            allowed: true,
+            realPath: join(workspace, 'src', 'new.ts'),
+        });
+        expect((await checkPathAccess(workspace, 'read')).allowed).toBe(true);
+    });
+
+    it('refuses paths outside the workspace roots', async () => {
+        const result = await checkPathAccess(join(workspace, '..', 'outside', 'secret.txt'), 'read');
+        expect(result.allowed).toBe(false);
+        expect(!result.allowed && result.error).toContain('outside the workspace roots');
+    });
+
+    it('does not let a sibling directory with a common prefix pass as inside', async () => {
+        mkdirSync(`${workspace}-other`);
+        expect((await checkPathAccess(join(`${workspace}-other`, 'a.txt'), 'read')).allowed).toBe(false);
+    });
+
+    it('follows symlinks before checking the roots', async () => {
+        symlinkSync(outside, join(workspace, 'link'));
+        const result = await checkPathAccess(join(workspace, 'link', 'secret.txt'), 'read');
+        expect(result.allowed).toBe(false);
+        expect(!result.allowed && result.error).toContain(`-> ${join(outside, 'secret.txt')}`);
+
+        // A file that does not exist yet behind the link is resolved through it too
+        expect((await checkPathAccess(join(workspace, 'link', 'new.txt'), 'write')).allowed).toBe(false);
+    });
+
+    it('allows symlinks that stay inside the workspace', async () => {
+        mkdirSync(join(workspace, 'real'));
+        symlinkSync(join(workspace, 'real'), join(workspace, 'alias'));
+        expect(await checkPathAccess(join(workspace, 'alias', 'a.txt'), 'write')).toEqual({
+            allowed: true,
+            realPath: join(workspace, 'real', 'a.txt'),
+        });
+    });
+
+    it('refuses sensitive paths inside the workspace', async () => {
+        for (const name of ['.env', '.env.local', 'server.pem', 'id_ed25519', join('.openpaean', 'mcp_tools.json')]) {
+            const result = await checkPathAccess(join(workspace, name), 'read');
+            expect(result.allowed).toBe(false);
+            expect(!result.allowed && result.error).toContain('sensitive path rule');
+        }
+        expect((await checkPathAccess(join(workspace, '.openpaean', 'plugins', 'a.mjs'), 'write')).allowed).toBe(false);
+    });
+
+    it('allows shared secret templates', async () => {
+        expect((await checkPathAccess(join(workspace, '.env.example'), 'read')).allowed).toBe(true);
+    });
+
+    it('refuses writes to system paths even inside a root', async () => {
+        useConfig({ workspaceRoots: ['/'] });
+        const result = await checkPathAccess('/etc/openpaean-test.conf', 'write');
+        expect(result.allowed).toBe(false);
+        expect(!result.allowed && result.error).toContain('system path rule "/etc/"');
+    });
+
+    it('extends the denylist with configured patterns', async () => {
+        useConfig({ workspaceRoots: [workspace], sensitivePaths: ['secrets/**'] });
+        expect((await checkPathAccess(join(workspace, 'app', 'secrets', 'db.json'), 'read')).allowed).toBe(false);
+        expect((await checkPathAccess(join(workspace, 'app', 'public', 'db.json'), 'read')).allowed).toBe(true);
+    });
+
+    it('reports credential locations in the home directory as sensitive', () => {
+        expect(isSensitivePath(join(homedir(), '.ssh', 'config'))).toBe(true);
+        expect(isSensitivePath(join(homedir(), '.openpaean', 'config.json'))).toBe(true);
+        expect(isSensitivePath(join(homedir(), '.aws', 'credentials'))).toBe(true);
+        expect(isSensitivePath(join(homedir(), 'projects', 'app', 'README.md'))).toBe(false);
+    });
+});
@@ -0,0 +1,196 @@
+/**
+ * Filesystem Sandbox (Open Source)
+ *
+ * Confines the filesystem tools (read, write, list, download) to a set of
+ * workspace roots and keeps credentials out of reach, no matter which
+ * channel (terminal, gateway, WeChat) the call came from.
+ *
+ * - Workspace roots: `workspaceRoots` in ~/.openpaean/config.json
+ *   (default: the current project directory). Relative entries resolve
+ *   against the current working directory.
+ * - Sensitive paths: a built-in denylist of credential locations, extended
+ *   by `sensitivePaths` in config.json. Denied even inside a workspace root.
+ *
+ * All checks run on symlink-resolved (realpath) paths so a link inside the
+ * workspace cannot point the tools at files outside it.
+ */
+
+import { realpath } from 'fs/promises';
+import { homedir } from 'os';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { getConfig } from '../utils/config.js';
+import { matchGlob } from '../utils/glob.js';
+
+/**
+ * Built-in sensitive path patterns (credentials, keys, tokens).
+ * `~` expands to the home directory; patterns without a leading `/` or `~`
+ * match at any depth.
+ */
+const SENSITIVE_PATH_PATTERNS = [
+    // OpenPaean's own config (auth token, WeChat credentials) and policy files
+    '~/.openpaean',
+    '~/.openpaean/**',
+    '~/.paean',
+    '~/.paean/**',
+    '**/.openpaean/permissions.json',
+    // Project files that register tools, servers and plugins: writing them
+    // would let the agent run arbitrary commands without a permission prompt
+    '**/.openpaean/mcp_tools.json',
+    '**/.openpaean/mcp.json',
+    '**/.openpaean/plugins',
+    '**/.openpaean/plugins/**',
+    '**/.paean/mcp_tools.json',
+    // SSH, GPG and cloud provider credentials
+    '~/.ssh',
+    '~/.ssh/**',
+    '~/.gnupg',
+    '~/.gnupg/**',
+    '~/.aws',
+    '~/.aws/**',
+    '~/.azure/**',
+    '~/.config/gcloud/**',
+    '~/.kube/config',
+    '~/.docker/config.json',
+    // Package registry and git credentials
+    '~/.netrc',
+    '~/.npmrc',
+    '~/.pypirc',
+    '~/.git-credentials',
+    '~/.config/gh/hosts.yml',
+    // Secrets inside projects
+    '**/.env',
+    '**/.env.*',
+    '**/*.pem',
+    '**/*.key',
+    '**/id_rsa*',
+    '**/id_ed25519*',
+    '**/id_ecdsa*',
+];
+
+/**
+ * Templates that look like secrets but are meant to be shared
+ */
+const SENSITIVE_PATH_EXCEPTIONS = ['**/.env.example', '**/.env.sample', '**/.env.template'];
+
+/**
+ * Prefixes that are never writable
+ */
+const SYSTEM_WRITE_PREFIXES = ['/etc/', '/usr/', '/bin/', '/sbin/', '/System/', '/Library/'];
+
+export type PathAccessMode = 'read' | 'write';
+
+export type PathAccessResult =
+    | { allowed: true; realPath: string }
+    | { allowed: false; error: string };
+
+/**
+ * Get the configured workspace roots (resolved, not yet symlink-resolved)
+ */
+export function getWorkspaceRoots(): string[] {
+    const configured = getConfig().workspaceRoots;
+    const roots = configured && configured.length > 0 ? configured : [process.cwd()];
+    return roots.map(expandPath);
+}
+
+/**
+ * Get all sensitive path patterns (built-in + configured)
+ */
+export function getSensitivePathPatterns(): string[] {
+    return [...SENSITIVE_PATH_PATTERNS, ...(getConfig().sensitivePaths || [])];
+}
+
+function expandPath(path: string): string {
+    if (path === '~' || path.startsWith('~/')) {
+        return join(homedir(), path.slice(1));
+    }
+    return resolve(path);
+}
+
+function expandPattern(pattern: string): string {
+    if (pattern === '~' || pattern.startsWith('~/')) {
+        return join(homedir(), pattern.slice(1));
+    }
+    return pattern;
+}
+
+/**
+ * Resolve symlinks for a path that may not exist yet: the nearest existing
+ * ancestor is resolved and the remaining segments are appended.
+ */
+async function resolveRealPath(path: string): Promise<string> {
+    try {
+        return await realpath(path);
+    } catch {
+        const parent = dirname(path);
+        if (parent === path) return path;
+        return join(await resolveRealPath(parent), basename(path));
+    }
+}
+
+function isInside(path: string, root: string): boolean {
+    const rel = relative(root, path);
+    return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+function findSensitivePattern(path: string): string | undefined {
+    if (SENSITIVE_PATH_EXCEPTIONS.some(pattern => matchGlob(pattern, path, { pathMode: true }))) {
+        return undefined;
+    }
+    return getSensitivePathPatterns().find((pattern) => {
+        const expanded = expandPattern(pattern);
+        if (isAbsolute(expanded)) {
+            return matchGlob(expanded, path, { pathMode: true });
+        }
+        // Relative patterns match at any depth
+        const anchored = expanded.startsWith('**/') ? expanded : `**/${expanded}`;
+        return matchGlob(anchored, path.split(sep).join('/'), { pathMode: true });
+    });
+}
+
+/**
+ * Check a symlink-resolved path against the sensitive path denylist.
+ * Used by the search tools to skip secrets while walking a directory.
+ */
+export function isSensitivePath(realPath: string): boolean {
+    return findSensitivePattern(realPath) !== undefined;
+}
+
+/**
+ * Check whether a filesystem tool may access a path.
+ * Returns the symlink-resolved path on success, or an error naming the
+ * rule that blocked the call.
+ */
+export async function checkPathAccess(path: string, mode: PathAccessMode): Promise<PathAccessResult> {
+    const resolvedPath = resolve(path);
+    const realPath = await resolveRealPath(resolvedPath);
+    const shown = realPath === resolvedPath ? resolvedPath : `${resolvedPath} (-> ${realPath})`;
+
+    if (mode === 'write') {
+        const prefix = SYSTEM_WRITE_PREFIXES.find(p => realPath.startsWith(p));
+        if (prefix) {
+            return {
+                allowed: false,
+                error: `Writing to system path is not allowed (system path rule "${prefix}"): ${shown}`,
+            };
+        }
+    }
+
+    const sensitive = findSensitivePattern(realPath);
+    if (sensitive) {
+        return {
+            allowed: false,
+            error: `Access to sensitive path is not allowed (sensitive path rule "${sensitive}"): ${shown}`,
+        };
+    }
+
+    const roots = await Promise.all(getWorkspaceRoots().map(resolveRealPath));
+    if (!roots.some(root => isInside(realPath, root))) {
+        return {
+            allowed: false,
+            error: `Path is outside the workspace roots (workspace rule: ${roots.join(', ')}): ${shown}. ` +
+                'Add the directory to "workspaceRoots" in ~/.openpaean/config.json to allow it.',
+        };
+    }
+
+    return { allowed: true, realPath };
+}
@@ -0,0 +1,220 @@
+/**
+ * Tool argument validation against JSON Schema
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatArgumentErrors, validateToolArguments } from './schema.js';
+
+describe('validateToolArguments', () => {
+    it('accepts anything without a schema', () => {
+        expect(validateToolArguments(undefined, { a: 1 })).toEqual({ valid: true, errors: [], args: { a: 1 } });
+        expect(validateToolArguments({ type: 'object' }, undefined)).toEqual({ valid: true, errors: [], args: {} });
+    });
+
+    it('reports missing required properties and type mismatches with their path', () => {
+        const schema = {
+            type: 'object',
+            properties: {
+                files: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: { path: { type: 'string' } },
+                        required: ['path'],
+                    },
+                },
+                count: { type: 'integer' },
+            },
+            required: ['files'],
+        };
+
+        expect(validateToolArguments(schema, {}).errors).toEqual(['files: required property is missing']);
+        expect(validateToolArguments(schema, { files: [{ path: 'a' }, { path: 3 }, {}], count: 1.5 }).errors).toEqual([
+            'files[1].path: expected string, got number',
+            'files[2].path: required property is missing',
+            'count: expected integer, got number',
+        ]);
+    });
+
+    it('accepts integers as numbers and type lists', () => {
+        const schema = {
+            type: 'object',
+            properties: { ratio: { type: 'number' }, limit: { type: ['integer', 'null'] } },
+        };
+        expect(validateToolArguments(schema, { ratio: 2, limit: null }).valid).toBe(true);
+        expect(validateToolArguments(schema, { limit: 'ten' }).errors).toEqual([
+            'limit: expected integer or null, got string',
+        ]);
+    });
+
+    it('checks enum, const and bounds', () => {
+        const schema = {
+            type: 'object',
+            properties: {
+                mode: { enum: ['fast', 'safe'] },
+                version: { const: 2 },
+                name: { type: 'string', minLength: 2, maxLength: 4, pattern: '^[a-z]+$' },
+                depth: { type: 'number', minimum: 1, exclusiveMaximum: 10 },
+                tags: { type: 'array', maxItems: 1 },
+            },
+        };
+        const { errors } = validateToolArguments(schema, {
+            mode: 'slow',
+            version: 3,
+            name: 'ABCDE',
+            depth: 10,
+            tags: ['a', 'b'],
+        });
+        expect(errors).toEqual([
+            'mode: must be one of "fast", "safe"',
+            'version: must be 2',
+            'name: must be at most 4 characters',
+            'name: must match pattern ^[a-z]+$',
+            'depth: must be < 10',
+            'tags: must have at most 1 items',
+        ]);
+    });
+
+    it('rejects unknown properties only when additionalProperties is false', () => {
+        const closed = { type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false };
+        expect(validateToolArguments(closed, { a: 'x', b: 1 }).errors).toEqual(['b: unknown property']);
+
+        const typed = { type: 'object', additionalProperties: { type: 'number' } };
+        expect(validateToolArguments(typed, { a: 1, b: 'x' }).errors).toEqual(['b: expected number, got string']);
+        expect(validateToolArguments({ type: 'object' }, { anything: true }).valid).toBe(true);
+    });
+
+    describe('defaults', () => {
+        const schema = {
+            type: 'object',
+            properties: {
+                limit: { type: 'integer', default: 20 },
+                options: {
+                    type: 'object',
+                    properties: {
+                        recursive: { type: 'boolean', default: false },
+                        exclude: { type: 'array', default: ['node_modules'] },
+                    },
+                    default: {},
+                },
+            },
+        };
+
+        it('fills in missing properties, including nested ones', () => {
+            expect(validateToolArguments(schema, {}).args).toEqual({
+                limit: 20,
+                options: { recursive: false, exclude: ['node_modules'] },
+            });
+        });
+
+        it('keeps values that were given', () => {
+            expect(validateToolArguments(schema, { limit: 5, options: { recursive: true } }).args).toEqual({
+                limit: 5,
+                options: { recursive: true, exclude: ['node_modules'] },
+            });
+        });
+
+        it('does not share default objects between calls', () => {
+            const first = validateToolArguments(schema, {}).args as { options: { exclude: string[] } };
+            first.options.exclude.push('dist');
+            expect(validateToolArguments(schema, {}).args).toMatchObject({ options: { exclude: ['node_modules'] } });
+        });
+
+        it('does not modify the caller\'s arguments', () => {
+            const args = {};
+            validateToolArguments(schema, args);
+            expect(args).toEqual({});
+        });
+    });
+
+    describe('anyOf / oneOf', () => {
+        it('accepts a value matching any anyOf option', () => {
+            const schema = {
+                type: 'object',
+                properties: { id: { anyOf: [{ type: 'string' }, { type: 'integer', minimum: 1 }] } },
+            };
+            expect(validateToolArguments(schema, { id: 'abc' }).valid).toBe(true);
+            expect(validateToolArguments(schema, { id: 7 }).valid).toBe(true);
+            expect(validateToolArguments(schema, { id: 0 }).errors).toEqual([
+                'id: does not match any of the allowed anyOf schemas',
+            ]);
+        });
+
+        it('requires exactly one oneOf option to match', () => {
+            const schema = {
+                type: 'object',
+                properties: { value: { oneOf: [{ type: 'number' }, { type: 'integer' }, { type: 'string' }] } },
+            };
+            expect(validateToolArguments(schema, { value: 'x' }).valid).toBe(true);
+            expect(validateToolArguments(schema, { value: 1.5 }).valid).toBe(true);
+            expect(validateToolArguments(schema, { value: 2 }).errors).toEqual([
+                'value: matches more than one of the oneOf schemas',
+            ]);
+            expect(validateToolArguments(schema, { value: true }).errors).toEqual([
+                'value: does not match any of the allowed oneOf schemas',
+            ]);
+        });
+
+        it('applies allOf schemas in turn', () => {
+            const schema = {
+                allOf: [
+                    { type: 'object', properties: { a: { type: 'string', default: 'x' } } },
+                    { type: 'object', required: ['b'] },
+                ],
+            };
+            const result = validateToolArguments(schema, {});
+            expect(result.args).toEqual({ a: 'x' });
+            expect(result.errors).toEqual(['b: required property is missing']);
+        });
+    });
+
+    describe('$ref', () => {
+        it('resolves #/$defs and #/definitions references', () => {
+            const schema = {
+                type: 'object',
+                properties: {
+                    owner: { $ref: '#/$defs/user' },
+                    reviewers: { type: 'array', items: { $ref: '#/definitions/user' } },
+                },
+                $defs: { user: { type: 'object', properties: { login: { type: 'string' } }, required: ['login'] } },
+                definitions: { user: { type: 'object', properties: { login: { type: 'string' } }, required: ['login'] } },
+            };
+            expect(validateToolArguments(schema, { owner: { login: 'a' }, reviewers: [{ login: 'b' }] }).valid).toBe(true);
+            expect(validateToolArguments(schema, { owner: {}, reviewers: [{ login: 1 }] }).errors).toEqual([
+                'owner.login: required property is missing',
+                'reviewers[0].login: expected string, got number',
+            ]);
+        });
+
+        it('applies defaults from referenced schemas', () => {
+            const schema = {
+                type: 'object',
+                properties: { sort: { $ref: '#/$defs/sort' } },
+                $defs: { sort: { type: 'string', enum: ['asc', 'desc'], default: 'asc' } },
+            };
+            expect(validateToolArguments(schema, {}).args).toEqual({ sort: 'asc' });
+        });
+
+        it('ignores references that do not resolve', () => {
+            const schema = { type: 'object', properties: { a: { $ref: '#/$defs/missing' } } };
+            expect(validateToolArguments(schema, { a: 1 }).valid).toBe(true);
+        });
+    });
+
+    it('stops after 20 errors', () => {
+        const schema = { type: 'object', additionalProperties: false };
+        const args = Object.fromEntries(Array.from({ length: 30 }, (_, i) => [`p${i}`, i]));
+        expect(validateToolArguments(schema, args).errors).toHaveLength(20);
+    });
+});
+
+describe('formatArgumentErrors', () => {
+    it('lists every violation for the model', () => {
+        expect(formatArgumentErrors('paean_grep', ['pattern: required property is missing', 'limit: must be >= 1'])).toBe(
+            'Invalid arguments for paean_grep:\n' +
+            '- pattern: required property is missing\n' +
+            '- limit: must be >= 1\n' +
+            'Fix these arguments and call the tool again.'
+        );
+    });
+});
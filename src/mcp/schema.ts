@@ -0,0 +1,251 @@
+/**
+ * Tool Argument Validation
+ * Check tool call arguments against the tool's JSON Schema before dispatch
+ *
+ * Supports the subset of JSON Schema that tool input schemas use in
+ * practice: type (including type lists), required, properties,
+ * additionalProperties, items, enum, const, string / number / array bounds,
+ * pattern, anyOf / oneOf / allOf and local `$ref`s (`#/$defs/...`,
+ * `#/definitions/...`). Unknown keywords are ignored.
+ *
+ * `default` values of missing properties are filled in, so handlers see the
+ * arguments the schema describes.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Result of validating tool arguments
+ */
+export interface ArgumentValidation {
+    valid: boolean;
+    /** One entry per violation, e.g. "files[0].path: expected string, got number" */
+    errors: string[];
+    /** Arguments with schema defaults applied */
+    args: Record<string, unknown>;
+}
+
+/** Stop collecting after this many violations */
+const MAX_ERRORS = 20;
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    const actual = typeOf(value);
+    if (type === 'number') return actual === 'number' || actual === 'integer';
+    return actual === type;
+}
+
+function describeValue(value: unknown): string {
+    const type = typeOf(value);
+    return type === 'integer' ? 'number' : type;
+}
+
+function formatPath(path: string): string {
+    return path || '(arguments)';
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value)) as T;
+}
+
+class Validator {
+    readonly errors: string[] = [];
+
+    constructor(private readonly root: JsonSchema) { }
+
+    private report(path: string, message: string): void {
+        if (this.errors.length < MAX_ERRORS) {
+            this.errors.push(`${formatPath(path)}: ${message}`);
+        }
+    }
+
+    private resolveRef(schema: JsonSchema): JsonSchema {
+        const ref = schema.$ref;
+        if (typeof ref !== 'string' || !ref.startsWith('#/')) return schema;
+
+        let target: unknown = this.root;
+        for (const part of ref.slice(2).split('/')) {
+            target = (target as Record<string, unknown> | undefined)?.[part.replace(/~1/g, '/').replace(/~0/g, '~')];
+        }
+        return target && typeof target === 'object' ? target as JsonSchema : {};
+    }
+
+    /**
+     * Validate `value` at `path`; returns the value with defaults applied
+     */
+    validate(value: unknown, rawSchema: unknown, path: string): unknown {
+        if (!rawSchema || typeof rawSchema !== 'object') return value;
+        const schema = this.resolveRef(rawSchema as JsonSchema);
+
+        if (Array.isArray(schema.allOf)) {
+            for (const sub of schema.allOf) {
+                value = this.validate(value, sub, path);
+            }
+        }
+        if (Array.isArray(schema.anyOf) && !this.matchesSome(value, schema.anyOf, path, 'anyOf')) {
+            return value;
+        }
+        if (Array.isArray(schema.oneOf) && !this.matchesSome(value, schema.oneOf, path, 'oneOf')) {
+            return value;
+        }
+
+        if (schema.type !== undefined) {
+            const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+            if (!types.some(type => matchesType(value, type))) {
+                this.report(path, `expected ${types.join(' or ')}, got ${describeValue(value)}`);
+                return value;
+            }
+        }
+
+        if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+            this.report(path, `must be ${JSON.stringify(schema.const)}`);
+        }
+        if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+            this.report(path, `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+        }
+
+        if (typeof value === 'string') {
+            this.checkString(value, schema, path);
+        } else if (typeof value === 'number') {
+            this.checkNumber(value, schema, path);
+        } else if (Array.isArray(value)) {
+            return this.checkArray(value, schema, path);
+        } else if (value !== null && typeof value === 'object') {
+            return this.checkObject(value as Record<string, unknown>, schema, path);
+        }
+        return value;
+    }
+
+    private matchesSome(value: unknown, options: unknown[], path: string, keyword: 'anyOf' | 'oneOf'): boolean {
+        let matches = 0;
+        for (const option of options) {
+            const probe = new Validator(this.root);
+            probe.validate(clone(value), option, path);
+            if (probe.errors.length === 0) matches++;
+        }
+        if (matches === 0) {
+            this.report(path, `does not match any of the allowed ${keyword} schemas`);
+            return false;
+        }
+        if (keyword === 'oneOf' && matches > 1) {
+            this.report(path, 'matches more than one of the oneOf schemas');
+            return false;
+        }
+        return true;
+    }
+
+    private checkString(value: string, schema: JsonSchema, path: string): void {
+        if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+            this.report(path, `must be at least ${schema.minLength} characters`);
+        }
+        if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+            this.report(path, `must be at most ${schema.maxLength} characters`);
+        }
+        if (typeof schema.pattern === 'string') {
+            try {
+                if (!new RegExp(schema.pattern, 'u').test(value)) {
+                    this.report(path, `must match pattern ${schema.pattern}`);
+                }
+            } catch {
+                // Patterns JavaScript cannot compile are not enforced
+            }
+        }
+    }
+
+    private checkNumber(value: number, schema: JsonSchema, path: string): void {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) {
+            this.report(path, `must be >= ${schema.minimum}`);
+        }
+        if (typeof schema.maximum === 'number' && value > schema.maximum) {
+            this.report(path, `must be <= ${schema.maximum}`);
+        }
+        if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+            this.report(path, `must be > ${schema.exclusiveMinimum}`);
+        }
+        if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+            this.report(path, `must be < ${schema.exclusiveMaximum}`);
+        }
+    }
+
+    private checkArray(value: unknown[], schema: JsonSchema, path: string): unknown[] {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+            this.report(path, `must have at least ${schema.minItems} items`);
+        }
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+            this.report(path, `must have at most ${schema.maxItems} items`);
+        }
+        if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+            return value.map((item, index) => this.validate(item, schema.items, `${path}[${index}]`));
+        }
+        return value;
+    }
+
+    private checkObject(value: Record<string, unknown>, schema: JsonSchema, path: string): Record<string, unknown> {
+        const properties = (schema.properties && typeof schema.properties === 'object')
+            ? schema.properties as Record<string, JsonSchema>
+            : {};
+        const result: Record<string, unknown> = { ...value };
+        const prefix = path ? `${path}.` : '';
+
+        for (const [name, propertySchema] of Object.entries(properties)) {
+            const resolved = propertySchema && typeof propertySchema === 'object' ? this.resolveRef(propertySchema) : {};
+            if (result[name] === undefined && resolved.default !== undefined) {
+                result[name] = clone(resolved.default);
+            }
+        }
+
+        if (Array.isArray(schema.required)) {
+            for (const name of schema.required as string[]) {
+                if (result[name] === undefined) {
+                    this.report(`${prefix}${name}`, 'required property is missing');
+                }
+            }
+        }
+
+        for (const [name, propertyValue] of Object.entries(result)) {
+            if (propertyValue === undefined) continue;
+            if (name in properties) {
+                result[name] = this.validate(propertyValue, properties[name], `${prefix}${name}`);
+            } else if (schema.additionalProperties === false) {
+                this.report(`${prefix}${name}`, 'unknown property');
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                result[name] = this.validate(propertyValue, schema.additionalProperties, `${prefix}${name}`);
+            }
+        }
+        return result;
+    }
+}
+
+/**
+ * Validate tool arguments against a tool's input schema and apply defaults
+ */
+export function validateToolArguments(
+    schema: unknown,
+    args: Record<string, unknown> | undefined
+): ArgumentValidation {
+    const input = args ?? {};
+    if (!schema || typeof schema !== 'object') {
+        return { valid: true, errors: [], args: input };
+    }
+
+    const validator = new Validator(schema as JsonSchema);
+    const result = validator.validate(input, schema, '');
+    const resultArgs = result && typeof result === 'object' && !Array.isArray(result)
+        ? result as Record<string, unknown>
+        : input;
+    return { valid: validator.errors.length === 0, errors: validator.errors, args: resultArgs };
+}
+
+/**
+ * Error message listing every violation, for the model to correct its call
+ */
+export function formatArgumentErrors(toolName: string, errors: string[]): string {
+    return `Invalid arguments for ${toolName}:\n${errors.map(error => `- ${error}`).join('\n')}\n` +
+        'Fix these arguments and call the tool again.';
+}
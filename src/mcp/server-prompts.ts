@@ -0,0 +1,131 @@
+/**
+ * MCP Server Prompts
+ * Prompt templates that `openpaean serve` offers to MCP clients
+ *
+ * Each prompt embeds the task resources it is about, so the client's model
+ * sees the current tasks without a separate resource read.
+ */
+
+import { type GetPromptResult, type Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { readMcpResource } from './resources.js';
+
+/**
+ * Get available MCP prompts
+ */
+export function getMcpPrompts(): Prompt[] {
+  return [
+    {
+      name: 'plan_today',
+      title: "Plan today's tasks",
+      description: 'Turn the pending tasks into a prioritized plan for today',
+      arguments: [
+        {
+          name: 'hours',
+          description: 'Hours available today (default: a full working day)',
+          required: false,
+        },
+        {
+          name: 'focus',
+          description: 'Area or tag to focus on',
+          required: false,
+        },
+      ],
+    },
+    {
+      name: 'summarize_pending_changes',
+      title: 'Summarize pending changes',
+      description: 'Summarize the AI-suggested task changes awaiting review and recommend what to accept',
+    },
+    {
+      name: 'work_on_task',
+      title: 'Work on a task',
+      description: 'Start working on a task and mark it (and its subtasks) done when finished',
+      arguments: [
+        {
+          name: 'taskId',
+          description: 'ID of the task',
+          required: true,
+        },
+      ],
+    },
+  ];
+}
+
+/**
+ * Embed a resource in a prompt message
+ */
+async function embedResource(uri: string): Promise<GetPromptResult['messages'][number]> {
+  return {
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(await readMcpResource(uri), null, 2),
+      },
+    },
+  };
+}
+
+function text(value: string): GetPromptResult['messages'][number] {
+  return { role: 'user', content: { type: 'text', text: value } };
+}
+
+/**
+ * Render an MCP prompt with its arguments
+ */
+export async function getMcpPrompt(
+  name: string,
+  args: Record<string, string> = {}
+): Promise<GetPromptResult> {
+  switch (name) {
+    case 'plan_today': {
+      const hours = args.hours ? `I have about ${args.hours} hours today.` : 'Assume a full working day.';
+      const focus = args.focus ? ` Focus on work related to "${args.focus}".` : '';
+      return {
+        description: "Plan today's tasks",
+        messages: [
+          await embedResource('paean://tasks/pending'),
+          text(
+            `Here are my pending tasks. ${hours}${focus}\n\n` +
+            'Pick what I should work on today and in which order. Prefer high priority and overdue tasks, ' +
+            'group related work, and estimate the time for each item. List what should wait and why.'
+          ),
+        ],
+      };
+    }
+
+    case 'summarize_pending_changes':
+      return {
+        description: 'Summarize pending changes',
+        messages: [
+          await embedResource('paean://pending-changes'),
+          text(
+            'Summarize the pending task changes above: what each one would add, change or remove. ' +
+            'Recommend which to accept (paean_accept_change) and which to reject (paean_reject_change). ' +
+            'Skip expired changes.'
+          ),
+        ],
+      };
+
+    case 'work_on_task': {
+      if (!args.taskId) {
+        throw new Error('Missing required argument: taskId');
+      }
+      return {
+        description: 'Work on a task',
+        messages: [
+          await embedResource(`paean://tasks/${encodeURIComponent(args.taskId)}`),
+          text(
+            'Work on the task above. Complete its subtasks in order and mark each one done with ' +
+            'paean_complete_subtask. When everything is finished, call paean_complete_task with a short summary.'
+          ),
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
@@ -1,47 +1,115 @@
 /**
  * MCP Server
  * Model Context Protocol server for AI agent integration
+ *
+ * Serves the Paean tools over stdio (one client) or Streamable HTTP, where
+ * several editors and agents can share one server. Each HTTP client gets its
+ * own MCP session (Mcp-Session-Id header); idle sessions are closed after a
+ * while.
  */
 
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  isInitializeRequest,
 } from '@modelcontextprotocol/sdk/types.js';
-import { getMcpResources, readMcpResource } from './resources.js';
-import { getMcpTools, executeMcpTool } from './tools.js';
+import {
+  getMcpResources,
+  getMcpResourceTemplates,
+  readMcpResource,
+  notifyTasksChanged,
+  onTasksChanged,
+} from './resources.js';
+import { getMcpPrompts, getMcpPrompt } from './server-prompts.js';
+import { getMcpTools, executeMcpTool, TASK_MUTATION_TOOL_NAMES } from './tools.js';
 
 export interface McpServerOptions {
   debug?: boolean;
+  /** Serve over Streamable HTTP instead of stdio */
+  http?: McpHttpOptions;
 }
 
 /**
- * Start the MCP server
+ * Streamable HTTP settings
  */
-export async function startMcpServer(options: McpServerOptions = {}): Promise<void> {
+export interface McpHttpOptions {
+  port: number;
+  /** Interface to listen on (default: 127.0.0.1) */
+  host?: string;
+  /**
+   * Require "Authorization: Bearer <token>" on every request. On loopback a
+   * random token is generated (and printed) when none is given.
+   */
+  authToken?: string;
+  /** Browser origins allowed to call the server ("*" for any) */
+  allowedOrigins?: string[];
+  /** Close sessions without requests for this long (default: 30 minutes) */
+  sessionTimeoutMs?: number;
+}
+
+/** Endpoint the MCP transport is served on */
+const MCP_PATH = '/mcp';
+
+const DEFAULT_SESSION_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Give open requests this long to finish on shutdown */
+const SHUTDOWN_GRACE_MS = 5000;
+
+/** Largest accepted request body */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+
+let packageVersion: string | undefined;
+
+/**
+ * Version of the installed openpaean package
+ */
+function getPackageVersion(): string {
+  if (!packageVersion) {
+    try {
+      const dir = dirname(fileURLToPath(import.meta.url));
+      packageVersion = JSON.parse(readFileSync(join(dir, '..', '..', 'package.json'), 'utf-8')).version as string;
+    } catch {
+      packageVersion = 'unknown';
+    }
+  }
+  return packageVersion;
+}
+
+/**
+ * Create an MCP server with the Paean tools and resources
+ */
+function createServer(debug: (message: string, ...args: unknown[]) => void): Server {
   const server = new Server(
     {
       name: 'paean',
-      version: '0.1.0',
+      version: getPackageVersion(),
     },
     {
       capabilities: {
-        resources: {},
+        resources: { subscribe: true },
         tools: {},
+        prompts: {},
       },
     }
   );
 
-  // Debug logging
-  const debug = (message: string, ...args: unknown[]) => {
-    if (options.debug) {
-      console.error(`[MCP Debug] ${message}`, ...args);
-    }
-  };
-
   // Handle list resources request
   server.setRequestHandler(ListResourcesRequestSchema, async () => {
     debug('Listing resources');
@@ -49,6 +117,58 @@ export async function startMcpServer(options: McpServerOptions = {}): Promise<vo
     return { resources };
   });
 
+  // Handle list resource templates request
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    debug('Listing resource templates');
+    return { resourceTemplates: getMcpResourceTemplates() };
+  });
+
+  // Resource subscriptions: tell the client when subscribed task resources change
+  const subscriptions = new Set<string>();
+  let stopWatching: (() => void) | null = null;
+  const notifySubscribers = () => {
+    for (const uri of subscriptions) {
+      server.sendResourceUpdated({ uri }).catch(() => { });
+    }
+  };
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    debug('Subscribing to resource:', request.params.uri);
+    if (!request.params.uri.startsWith('paean://')) {
+      throw new Error(`Unknown resource: ${request.params.uri}`);
+    }
+    subscriptions.add(request.params.uri);
+    stopWatching ??= onTasksChanged(notifySubscribers);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    debug('Unsubscribing from resource:', request.params.uri);
+    subscriptions.delete(request.params.uri);
+    if (subscriptions.size === 0) {
+      stopWatching?.();
+      stopWatching = null;
+    }
+    return {};
+  });
+
+  server.onclose = () => {
+    stopWatching?.();
+    stopWatching = null;
+  };
+
+  // Handle list prompts request
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    debug('Listing prompts');
+    return { prompts: getMcpPrompts() };
+  });
+
+  // Handle get prompt request
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    debug('Getting prompt:', request.params.name, request.params.arguments);
+    return getMcpPrompt(request.params.name, request.params.arguments);
+  });
+
   // Handle read resource request
   server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     debug('Reading resource:', request.params.uri);
@@ -76,8 +196,17 @@ export async function startMcpServer(options: McpServerOptions = {}): Promise<vo
     debug('Calling tool:', request.params.name, request.params.arguments);
     const result = await executeMcpTool(
       request.params.name,
-      request.params.arguments as Record<string, unknown>
+      (request.params.arguments ?? {}) as Record<string, unknown>
     );
+    const isError = (result as { success?: boolean } | null)?.success === false;
+    if (!isError && TASK_MUTATION_TOOL_NAMES.has(request.params.name)) {
+      notifyTasksChanged();
+    }
+
+    // Structured content must be an object; the text block keeps older clients working
+    const structuredContent = result !== null && typeof result === 'object' && !Array.isArray(result)
+      ? result as Record<string, unknown>
+      : { result };
     return {
       content: [
         {
@@ -85,6 +214,8 @@ export async function startMcpServer(options: McpServerOptions = {}): Promise<vo
           text: JSON.stringify(result, null, 2),
         },
       ],
+      structuredContent,
+      isError,
     };
   });
 
@@ -93,7 +224,27 @@ export async function startMcpServer(options: McpServerOptions = {}): Promise<vo
     console.error('[MCP Error]', error);
   };
 
+  return server;
+}
+
+/**
+ * Start the MCP server
+ */
+export async function startMcpServer(options: McpServerOptions = {}): Promise<void> {
+  // Debug logging
+  const debug = (message: string, ...args: unknown[]) => {
+    if (options.debug) {
+      console.error(`[MCP Debug] ${message}`, ...args);
+    }
+  };
+
+  if (options.http) {
+    await startHttpServer(options.http, debug);
+    return;
+  }
+
   // Connect to stdio transport
+  const server = createServer(debug);
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
@@ -105,3 +256,224 @@ export async function startMcpServer(options: McpServerOptions = {}): Promise<vo
     process.exit(0);
   });
 }
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Set CORS headers for an allowed browser origin.
+ * Returns false when the request comes from an origin that is not allowed.
+ */
+function applyCors(req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true; // Not a browser request
+
+  if (!allowedOrigins.includes('*') && !allowedOrigins.includes(origin)) {
+    return false;
+  }
+  res.setHeader('Access-Control-Allow-Origin', allowedOrigins.includes('*') ? '*' : origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID'
+  );
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+  return true;
+}
+
+/**
+ * Serve the MCP endpoint over Streamable HTTP until SIGINT / SIGTERM
+ */
+async function startHttpServer(
+  options: McpHttpOptions,
+  debug: (message: string, ...args: unknown[]) => void
+): Promise<void> {
+  const host = options.host || '127.0.0.1';
+  const allowedOrigins = options.allowedOrigins || [];
+  const sessionTimeoutMs = options.sessionTimeoutMs ?? DEFAULT_SESSION_TIMEOUT_MS;
+
+  if (!options.authToken && !LOOPBACK_HOSTS.has(host)) {
+    throw new Error(`Refusing to listen on ${host} without an auth token (use --token or OPENPAEAN_SERVE_TOKEN)`);
+  }
+  // The tools run shell commands unattended, so other local users must not reach them either
+  const authToken = options.authToken || randomBytes(24).toString('hex');
+
+  const sessions = new Map<string, HttpSession>();
+  let shuttingDown = false;
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.transport.close().catch(() => { });
+    await session.server.close().catch(() => { });
+    debug(`Session ${sessionId} closed`);
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (!applyCors(req, res, allowedOrigins)) {
+      sendJsonRpcError(res, 403, 'Origin not allowed');
+      return;
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', version: getPackageVersion(), sessions: sessions.size }));
+      return;
+    }
+    if (url.pathname !== MCP_PATH) {
+      sendJsonRpcError(res, 404, `Not found; the MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+    if (!isAuthorized(req, authToken)) {
+      sendJsonRpcError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+    if (shuttingDown) {
+      sendJsonRpcError(res, 503, 'Server is shutting down');
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch (error) {
+        sendJsonRpcError(res, 400, `Invalid request body: ${(error as Error).message}`);
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    let session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (sessionId && !session) {
+      sendJsonRpcError(res, 404, 'Unknown or expired session');
+      return;
+    }
+
+    if (!session) {
+      const isInitialize = req.method === 'POST' &&
+        (Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body));
+      if (!isInitialize) {
+        sendJsonRpcError(res, 400, 'Missing Mcp-Session-Id header; start with an initialize request');
+        return;
+      }
+
+      const server = createServer(debug);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, newSession);
+          debug(`Session ${id} started`);
+        },
+      });
+      const newSession: HttpSession = { server, transport, lastSeen: Date.now() };
+      transport.onclose = () => {
+        if (transport.sessionId && sessions.get(transport.sessionId) === newSession) {
+          sessions.delete(transport.sessionId);
+          debug(`Session ${transport.sessionId} ended by client`);
+        }
+      };
+      await server.connect(transport);
+      session = newSession;
+    }
+
+    session.lastSeen = Date.now();
+    await session.transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error: Error) => {
+      console.error('[MCP Error]', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  // Close sessions whose client went away without saying so
+  const sweeper = setInterval(() => {
+    const cutoff = Date.now() - sessionTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        void closeSession(id);
+      }
+    }
+  }, Math.min(sessionTimeoutMs, 60000));
+  sweeper.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  console.error(`OpenPaean MCP server ${getPackageVersion()} listening on http://${host.includes(':') ? `[${host}]` : host}:${options.port}${MCP_PATH}`);
+  if (!options.authToken) {
+    console.error(`No --token given; clients must send "Authorization: Bearer ${authToken}"`);
+  }
+
+  const shutdown = async (signal: string): Promise<void> => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    debug(`Received ${signal}, shutting down`);
+    clearInterval(sweeper);
+
+    const forceExit = setTimeout(() => process.exit(1), SHUTDOWN_GRACE_MS);
+    forceExit.unref();
+
+    // Stop accepting connections, then end the sessions (closes open SSE streams)
+    const closed = new Promise<void>(resolve => httpServer.close(() => resolve()));
+    await Promise.all(Array.from(sessions.keys()).map(closeSession));
+    httpServer.closeIdleConnections();
+    await closed;
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+}
@@ -9,20 +9,31 @@
  * see the commercial Paean CLI.
  * 
  * Security:
+ * - Permission policy (allow/ask/deny rules) for shell, write, kill and download
  * - Command whitelist for autonomous/safe execution
  * - Dangerous pattern detection
+ * - Workspace-root sandbox and sensitive-path denylist for filesystem tools
  * - System path write protection
  * - Input sanitization for process names
  */
 
 import { type Tool } from '@modelcontextprotocol/sdk/types.js';
 import { spawn, exec } from 'child_process';
+import { EventEmitter } from 'events';
 import { promisify } from 'util';
 import { createWriteStream } from 'fs';
 import { writeFile, readFile, mkdir, readdir, stat, appendFile } from 'fs/promises';
+import { createHash } from 'crypto';
 import { pipeline } from 'stream/promises';
 import { Readable } from 'stream';
-import { basename, join, resolve, dirname } from 'path';
+import { basename, join, resolve, dirname, relative, sep } from 'path';
+import { authorizeToolCall } from './permissions.js';
+import { validateToolArguments, formatArgumentErrors } from './schema.js';
+import { checkPathAccess, isSensitivePath } from './sandbox.js';
+import { startBackgroundJob, getJobToolDefinitions, executeJobTool, JOB_TOOL_NAMES } from './jobs.js';
+import { createUnifiedDiff } from '../utils/diff.js';
+import { globToRegExp } from '../utils/glob.js';
+import { loadGitignore, isIgnored, type IgnoreRuleSet } from '../utils/gitignore.js';
 
 const execAsync = promisify(exec);
 
@@ -77,6 +88,23 @@ export function isDangerousCommand(command: string): boolean {
     return DANGEROUS_PATTERNS.some(pattern => pattern.test(command));
 }
 
+/** System tool names that must be routed to executeSystemTool */
+export const SYSTEM_TOOL_NAMES = new Set([
+    'paean_execute_shell',
+    'paean_check_process',
+    'paean_kill_process',
+    'paean_download_file',
+    'paean_write_file',
+    'paean_edit_file',
+    'paean_read_file',
+    'paean_list_directory',
+    'paean_grep',
+    'paean_glob',
+    'paean_wechat_send',
+    'paean_wechat_contacts',
+    ...JOB_TOOL_NAMES,
+]);
+
 /**
  * System MCP Tools definition (open-source shell & filesystem tools)
  */
@@ -86,7 +114,7 @@ export function getSystemTools(): Tool[] {
             name: 'paean_execute_shell',
             description:
                 'Execute a shell command on the local machine. ' +
-                'In autonomous mode, only whitelisted commands (npm, bun, git, node, etc.) are allowed. ' +
+                'Whitelisted commands (npm, bun, git, node, etc.) run directly; others may require user approval. ' +
                 'Use this to run tests, build projects, or inspect the system.',
             inputSchema: {
                 type: 'object',
@@ -101,7 +129,9 @@ export function getSystemTools(): Tool[] {
                     },
                     background: {
                         type: 'boolean',
-                        description: 'Run in background (detached mode). Useful for starting long-running services.',
+                        description:
+                            'Run in background (detached mode). Useful for starting long-running services. ' +
+                            'Returns a jobId; read its output with paean_job_output and stop it with paean_job_stop.',
                     },
                     timeout: {
                         type: 'number',
@@ -110,6 +140,7 @@ export function getSystemTools(): Tool[] {
                 },
                 required: ['command'],
             },
+            annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
         },
         {
             name: 'paean_check_process',
@@ -129,6 +160,7 @@ export function getSystemTools(): Tool[] {
                     },
                 },
             },
+            annotations: { readOnlyHint: true, openWorldHint: false },
         },
         {
             name: 'paean_kill_process',
@@ -149,6 +181,7 @@ export function getSystemTools(): Tool[] {
                 },
                 required: ['pid'],
             },
+            annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
         },
         {
             name: 'paean_download_file',
@@ -173,6 +206,7 @@ export function getSystemTools(): Tool[] {
                 },
                 required: ['url'],
             },
+            annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
         },
         {
             name: 'paean_write_file',
@@ -201,6 +235,52 @@ export function getSystemTools(): Tool[] {
                 },
                 required: ['filePath', 'content'],
             },
+            annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+        },
+        {
+            name: 'paean_edit_file',
+            description:
+                'Edit an existing file by replacing exact text. ' +
+                'Each edit\'s oldString must match exactly once unless replaceAll is true. ' +
+                'Edits are applied in order and the file is only written if all of them apply. ' +
+                'Returns a unified diff of the change. Prefer this over paean_write_file for changes to existing files.',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    filePath: {
+                        type: 'string',
+                        description: 'Absolute or relative path of the file to edit',
+                    },
+                    edits: {
+                        type: 'array',
+                        description: 'Replacements to apply in order',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                oldString: {
+                                    type: 'string',
+                                    description: 'Exact text to replace (include enough surrounding lines to be unique)',
+                                },
+                                newString: {
+                                    type: 'string',
+                                    description: 'Replacement text',
+                                },
+                                replaceAll: {
+                                    type: 'boolean',
+                                    description: 'Replace every occurrence instead of requiring a unique match (default: false)',
+                                },
+                            },
+                            required: ['oldString', 'newString'],
+                        },
+                    },
+                    expectedHash: {
+                        type: 'string',
+                        description: 'Optional sha256 of the file content (as returned by paean_read_file). The edit fails if the file has changed since.',
+                    },
+                },
+                required: ['filePath', 'edits'],
+            },
+            annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: false },
         },
         {
             name: 'paean_read_file',
@@ -229,6 +309,7 @@ export function getSystemTools(): Tool[] {
                 },
                 required: ['filePath'],
             },
+            annotations: { readOnlyHint: true, openWorldHint: false },
         },
         {
             name: 'paean_list_directory',
@@ -252,6 +333,84 @@ export function getSystemTools(): Tool[] {
                     },
                 },
             },
+            annotations: { readOnlyHint: true, openWorldHint: false },
+        },
+        {
+            name: 'paean_grep',
+            description:
+                'Search file contents with a regular expression. ' +
+                'Walks the directory tree (respecting .gitignore, skipping binary files) and returns matching lines ' +
+                'with optional context, most recently modified files first. ' +
+                'Prefer this over running grep/rg through the shell.',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    pattern: {
+                        type: 'string',
+                        description: 'Regular expression to search for (JavaScript syntax)',
+                    },
+                    path: {
+                        type: 'string',
+                        description: 'File or directory to search (default: current working directory)',
+                    },
+                    glob: {
+                        type: 'string',
+                        description: 'Only search files matching this glob (e.g., "*.ts", "src/**/*.{ts,tsx}")',
+                    },
+                    caseInsensitive: {
+                        type: 'boolean',
+                        description: 'Case-insensitive search (default: false)',
+                    },
+                    contextLines: {
+                        type: 'number',
+                        description: 'Lines of context to include before and after each match (default: 0, max: 10)',
+                    },
+                    filesOnly: {
+                        type: 'boolean',
+                        description: 'Only return the paths of matching files, not the matching lines (default: false)',
+                    },
+                    maxResults: {
+                        type: 'number',
+                        description: 'Maximum number of matching lines (or files with filesOnly) to return (default: 100)',
+                    },
+                    includeIgnored: {
+                        type: 'boolean',
+                        description: 'Also search files excluded by .gitignore (default: false)',
+                    },
+                },
+                required: ['pattern'],
+            },
+            annotations: { readOnlyHint: true, openWorldHint: false },
+        },
+        {
+            name: 'paean_glob',
+            description:
+                'Find files by glob pattern, e.g. "**/*.ts" or "src/**/index.{js,ts}". ' +
+                'Respects .gitignore and returns paths sorted by modification time (newest first). ' +
+                'Patterns without a "/" match file names at any depth.',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    pattern: {
+                        type: 'string',
+                        description: 'Glob pattern relative to the search directory',
+                    },
+                    path: {
+                        type: 'string',
+                        description: 'Directory to search in (default: current working directory)',
+                    },
+                    maxResults: {
+                        type: 'number',
+                        description: 'Maximum number of files to return (default: 100)',
+                    },
+                    includeIgnored: {
+                        type: 'boolean',
+                        description: 'Also return files excluded by .gitignore (default: false)',
+                    },
+                },
+                required: ['pattern'],
+            },
+            annotations: { readOnlyHint: true, openWorldHint: false },
         },
         {
             name: 'paean_wechat_send',
@@ -275,6 +434,7 @@ export function getSystemTools(): Tool[] {
                 },
                 required: ['text'],
             },
+            annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: true },
         },
         {
             name: 'paean_wechat_contacts',
@@ -286,7 +446,10 @@ export function getSystemTools(): Tool[] {
                 type: 'object',
                 properties: {},
             },
+            annotations: { readOnlyHint: true, openWorldHint: true },
         },
+        // Background job tools (output of paean_execute_shell with background: true)
+        ...getJobToolDefinitions(),
     ];
 }
 
@@ -296,30 +459,52 @@ export function getSystemTools(): Tool[] {
 export async function executeSystemTool(
     toolName: string,
     args: Record<string, unknown>,
-    options?: { autonomousMode?: boolean; debug?: boolean }
+    options?: { autonomousMode?: boolean; debug?: boolean; callId?: string }
 ): Promise<unknown> {
-    const { autonomousMode = false, debug = false } = options || {};
+    const { autonomousMode = false, debug = false, callId } = options || {};
+
+    const definition = getSystemTools().find(tool => tool.name === toolName);
+    if (definition) {
+        const validation = validateToolArguments(definition.inputSchema, args);
+        if (!validation.valid) {
+            return {
+                success: false,
+                error: formatArgumentErrors(toolName, validation.errors),
+                violations: validation.errors,
+            };
+        }
+        args = validation.args;
+    }
 
     switch (toolName) {
         case 'paean_execute_shell':
-            return executeShell(args, { autonomousMode, debug });
+            return executeShell(args, { autonomousMode, debug, callId });
         case 'paean_check_process':
             return checkProcess(args);
         case 'paean_kill_process':
-            return killProcess(args);
+            return killProcess(args, { autonomousMode });
         case 'paean_download_file':
-            return downloadFile(args);
+            return downloadFile(args, { autonomousMode });
         case 'paean_write_file':
-            return writeLocalFile(args);
+            return writeLocalFile(args, { autonomousMode });
+        case 'paean_edit_file':
+            return editLocalFile(args, { autonomousMode });
         case 'paean_read_file':
             return readLocalFile(args);
         case 'paean_list_directory':
             return listDirectory(args);
+        case 'paean_grep':
+            return grepFiles(args);
+        case 'paean_glob':
+            return globFiles(args);
         case 'paean_wechat_send':
             return wechatSend(args);
         case 'paean_wechat_contacts':
             return wechatListContacts();
         default:
+            if (JOB_TOOL_NAMES.has(toolName)) {
+                return executeJobTool(toolName, args);
+            }
             return {
                 success: false,
                 error: `Unknown system tool: ${toolName}`,
@@ -327,12 +512,49 @@ export async function executeSystemTool(
     }
 }
 
+/**
+ * Run a guarded tool call through the permission policy.
+ * Returns an error result when the call must not run, or null to proceed.
+ *
+ * Without an interactive approver (serve, gateway- or WeChat-only runs), a
+ * call matching an explicit "ask" rule is refused. Calls that only need
+ * approval by default keep the legacy behaviour: autonomous mode only runs
+ * whitelisted shell commands.
+ */
+async function authorizeGuardedCall(
+    toolName: string,
+    args: Record<string, unknown>,
+    options: { autonomousMode?: boolean; preApproved?: boolean }
+): Promise<{ success: false; error: string; requiresConfirmation?: boolean } | null> {
+    const outcome = await authorizeToolCall(toolName, args, { preApproved: options.preApproved });
+
+    if (outcome.action === 'deny') {
+        return { success: false, error: outcome.reason };
+    }
+
+    if (outcome.action === 'unattended' && outcome.reason) {
+        return { success: false, error: outcome.reason, requiresConfirmation: true };
+    }
+
+    if (outcome.action === 'unattended' && options.autonomousMode && toolName === 'paean_execute_shell') {
+        const command = String(args.command ?? '');
+        return {
+            success: false,
+            error: `Command "${command.split(/\s+/)[0]}" is not in the whitelist. ` +
+                `Allowed: ${Array.from(COMMAND_WHITELIST).join(', ')}`,
+            requiresConfirmation: true,
+        };
+    }
+
+    return null;
+}
+
 /**
  * Execute a shell command
  */
 async function executeShell(
     args: Record<string, unknown>,
-    options: { autonomousMode?: boolean; debug?: boolean }
+    options: { autonomousMode?: boolean; debug?: boolean; callId?: string }
 ): Promise<unknown> {
     const command = args.command as string;
     const cwd = args.cwd as string | undefined;
@@ -351,73 +573,228 @@ async function executeShell(
         };
     }
 
-    // In autonomous mode, only allow whitelisted commands
-    if (options.autonomousMode && !isCommandWhitelisted(command)) {
-        return {
-            success: false,
-            error: `Command "${command.split(/\s+/)[0]}" is not in the whitelist. ` +
-                `Allowed: ${Array.from(COMMAND_WHITELIST).join(', ')}`,
-            requiresConfirmation: true,
-        };
-    }
+    const denied = await authorizeGuardedCall('paean_execute_shell', args, {
+        autonomousMode: options.autonomousMode,
+        preApproved: isCommandWhitelisted(command),
+    });
+    if (denied) return denied;
 
     try {
         if (background) {
-            // Detached background process
-            const parts = command.split(/\s+/);
-            const cmd = parts[0];
-            const cmdArgs = parts.slice(1);
-
-            const subprocess = spawn(cmd, cmdArgs, {
-                cwd: cwd || process.cwd(),
-                detached: true,
-                stdio: 'ignore',
-                shell: true,
-            });
-            subprocess.unref();
+            // Detached background process with captured output
+            const job = startBackgroundJob(command, cwd || process.cwd());
 
             return {
                 success: true,
-                message: 'Process started in background',
-                pid: subprocess.pid,
+                message: `Process started in background as job ${job.id}. ` +
+                    'Use paean_job_output to read its output.',
+                pid: job.pid,
+                jobId: job.id,
+                logFile: job.logFile,
                 background: true,
             };
-        } else {
-            // Synchronous execution with timeout
-            const { stdout, stderr } = await execAsync(command, {
-                cwd: cwd || process.cwd(),
-                timeout,
-                maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-            });
-
-            return {
-                success: true,
-                stdout: stdout.trim(),
-                stderr: stderr.trim(),
-                exitCode: 0,
-            };
         }
-    } catch (error: unknown) {
-        const err = error as { code?: string | number; killed?: boolean; stdout?: string; stderr?: string; message?: string };
 
-        if (err.killed) {
+        const result = await runCommand(command, {
+            cwd: cwd || process.cwd(),
+            timeout,
+            callId: options.callId,
+        });
+        const output = {
+            stdout: result.stdout.trim(),
+            stderr: result.stderr.trim(),
+            exitCode: result.exitCode,
+            signal: result.signal,
+            ...(result.truncated ? { truncated: true } : {}),
+        };
+
+        if (result.timedOut) {
+            return { success: false, error: `Command timed out after ${timeout}ms`, timedOut: true, ...output };
+        }
+        if (result.aborted) {
+            return { success: false, error: 'Command aborted by user', aborted: true, ...output };
+        }
+        if (result.exitCode !== 0) {
             return {
                 success: false,
-                error: `Command timed out after ${timeout}ms`,
-                timedOut: true,
+                error: result.signal
+                    ? `Command terminated by ${result.signal}`
+                    : `Command exited with code ${result.exitCode}`,
+                ...output,
             };
         }
 
+        return { success: true, ...output };
+    } catch (error: unknown) {
         return {
             success: false,
-            error: err.message || 'Command execution failed',
-            exitCode: typeof err.code === 'number' ? err.code : 1,
-            stdout: err.stdout?.trim(),
-            stderr: err.stderr?.trim(),
+            error: error instanceof Error ? error.message : 'Command execution failed',
         };
     }
 }
 
+// ============================================
+// Streaming Command Runner
+// ============================================
+
+/** Output kept per stream for a foreground command */
+const MAX_COMMAND_OUTPUT = 10 * 1024 * 1024; // 10MB
+
+/** Time between SIGTERM and SIGKILL when stopping a command */
+const KILL_GRACE_MS = 2000;
+
+/**
+ * Partial output of a running foreground shell command
+ */
+export interface ShellOutputEvent {
+    /** Tool call that started the command, when known */
+    callId?: string;
+    command: string;
+    stream: 'stdout' | 'stderr';
+    chunk: string;
+}
+
+interface CommandRunResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+    signal: NodeJS.Signals | null;
+    timedOut: boolean;
+    aborted: boolean;
+    truncated: boolean;
+}
+
+const shellOutputEmitter = new EventEmitter();
+shellOutputEmitter.setMaxListeners(20);
+
+/** Abort handles of running foreground commands, keyed by tool call ID */
+const runningCommands = new Map<string, () => void>();
+
+let commandCleanupRegistered = false;
+
+/**
+ * Subscribe to partial output of running shell commands.
+ * Returns an unsubscribe function.
+ */
+export function onShellOutput(listener: (event: ShellOutputEvent) => void): () => void {
+    shellOutputEmitter.on('output', listener);
+    return () => {
+        shellOutputEmitter.off('output', listener);
+    };
+}
+
+/**
+ * Abort running foreground shell commands (kills their process groups).
+ * Pass tool call IDs to abort only those calls' commands.
+ * Returns the number of commands aborted.
+ */
+export function abortShellCommands(callIds?: Iterable<string>): number {
+    const ids = callIds ? Array.from(callIds) : Array.from(runningCommands.keys());
+    let count = 0;
+    for (const id of ids) {
+        const abort = runningCommands.get(id);
+        if (abort) {
+            abort();
+            count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * Run a command in its own process group, streaming output to listeners.
+ * On timeout or abort the whole group gets SIGTERM, then SIGKILL.
+ */
+function runCommand(
+    command: string,
+    options: { cwd: string; timeout: number; callId?: string }
+): Promise<CommandRunResult> {
+    if (!commandCleanupRegistered) {
+        commandCleanupRegistered = true;
+        process.on('exit', () => abortShellCommands());
+    }
+
+    return new Promise((resolvePromise, rejectPromise) => {
+        const useProcessGroup = process.platform !== 'win32';
+        const child = spawn(command, {
+            cwd: options.cwd,
+            shell: true,
+            detached: useProcessGroup,
+            stdio: ['ignore', 'pipe', 'pipe'],
+        });
+
+        const id = options.callId || `cmd_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+        const output = { stdout: '', stderr: '' };
+        let truncated = false;
+        let timedOut = false;
+        let aborted = false;
+        let killTimer: ReturnType<typeof setTimeout> | null = null;
+
+        const killGroup = (signal: NodeJS.Signals) => {
+            try {
+                if (useProcessGroup && child.pid) {
+                    process.kill(-child.pid, signal);
+                } else {
+                    child.kill(signal);
+                }
+            } catch {
+                // Already exited
+            }
+        };
+
+        const terminate = () => {
+            if (killTimer) return;
+            killGroup('SIGTERM');
+            // Left running after close: group members that detached their
+            // stdio and ignore SIGTERM outlive the shell
+            killTimer = setTimeout(() => killGroup('SIGKILL'), KILL_GRACE_MS);
+        };
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            terminate();
+        }, options.timeout);
+
+        runningCommands.set(id, () => {
+            aborted = true;
+            terminate();
+        });
+
+        const finish = () => {
+            clearTimeout(timer);
+            runningCommands.delete(id);
+        };
+
+        for (const stream of ['stdout', 'stderr'] as const) {
+            child[stream].setEncoding('utf-8');
+            child[stream].on('data', (chunk: string) => {
+                if (output[stream].length < MAX_COMMAND_OUTPUT) {
+                    output[stream] += chunk.slice(0, MAX_COMMAND_OUTPUT - output[stream].length);
+                    if (output[stream].length >= MAX_COMMAND_OUTPUT) truncated = true;
+                }
+                shellOutputEmitter.emit('output', { callId: options.callId, command, stream, chunk } satisfies ShellOutputEvent);
+            });
+        }
+
+        child.on('error', (error) => {
+            finish();
+            rejectPromise(error);
+        });
+
+        child.on('close', (exitCode, signal) => {
+            finish();
+            resolvePromise({
+                ...output,
+                exitCode,
+                signal,
+                timedOut,
+                aborted: aborted && !timedOut,
+                truncated,
+            });
+        });
+    });
+}
+
 /**
  * Check if a process is running
  */
@@ -479,7 +856,10 @@ async function checkProcess(args: Record<string, unknown>): Promise<unknown> {
 /**
  * Kill a process by PID
  */
-async function killProcess(args: Record<string, unknown>): Promise<unknown> {
+async function killProcess(
+    args: Record<string, unknown>,
+    options: { autonomousMode?: boolean }
+): Promise<unknown> {
     const pid = args.pid as number;
     const signal = (args.signal as string) || 'SIGTERM';
 
@@ -499,6 +879,9 @@ async function killProcess(args: Record<string, unknown>): Promise<unknown> {
             return { success: false, error: `Process ${pid} not found` };
         }
 
+        const denied = await authorizeGuardedCall('paean_kill_process', args, options);
+        if (denied) return denied;
+
         process.kill(pid, signal as NodeJS.Signals);
 
         return {
@@ -518,7 +901,10 @@ async function killProcess(args: Record<string, unknown>): Promise<unknown> {
 /**
  * Download a file from a URL to the local filesystem
  */
-async function downloadFile(args: Record<string, unknown>): Promise<unknown> {
+async function downloadFile(
+    args: Record<string, unknown>,
+    options: { autonomousMode?: boolean }
+): Promise<unknown> {
     const url = args.url as string;
     const filename = args.filename as string | undefined;
     const directory = args.directory as string | undefined;
@@ -540,6 +926,14 @@ async function downloadFile(args: Record<string, unknown>): Promise<unknown> {
 
     const targetDir = directory ? resolve(directory) : process.cwd();
 
+    const access = await checkPathAccess(targetDir, 'write');
+    if (!access.allowed) {
+        return { success: false, error: access.error };
+    }
+
+    const denied = await authorizeGuardedCall('paean_download_file', args, options);
+    if (denied) return denied;
+
     try {
         await mkdir(targetDir, { recursive: true });
 
@@ -590,6 +984,14 @@ async function downloadFile(args: Record<string, unknown>): Promise<unknown> {
         resolvedFilename = resolvedFilename.replace(/[/\\:\0]/g, '_');
         const filePath = join(targetDir, resolvedFilename);
 
+        // The name may come from the server (e.g. `.env`, or an existing
+        // symlink in the directory), so check the file itself too
+        const fileAccess = await checkPathAccess(filePath, 'write');
+        if (!fileAccess.allowed) {
+            await response.body?.cancel().catch(() => {});
+            return { success: false, error: fileAccess.error };
+        }
+
         if (response.body) {
             const nodeStream = Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]);
             const writeStream = createWriteStream(filePath);
@@ -636,7 +1038,10 @@ export function getCommandWhitelist(): string[] {
 /**
  * Write content to a local file
  */
-async function writeLocalFile(args: Record<string, unknown>): Promise<unknown> {
+async function writeLocalFile(
+    args: Record<string, unknown>,
+    options: { autonomousMode?: boolean }
+): Promise<unknown> {
     const filePath = args.filePath as string;
     const content = args.content as string;
     const shouldAppend = args.append as boolean | undefined;
@@ -651,15 +1056,15 @@ async function writeLocalFile(args: Record<string, unknown>): Promise<unknown> {
 
     const resolvedPath = resolve(filePath);
 
-    // Security: block writing to critical system paths
-    const blockedPrefixes = ['/etc/', '/usr/', '/bin/', '/sbin/', '/System/', '/Library/'];
-    if (blockedPrefixes.some(p => resolvedPath.startsWith(p))) {
-        return {
-            success: false,
-            error: `Writing to system path is not allowed: ${resolvedPath}`,
-        };
+    // Security: workspace roots, sensitive paths and system paths
+    const access = await checkPathAccess(resolvedPath, 'write');
+    if (!access.allowed) {
+        return { success: false, error: access.error };
     }
 
+    const denied = await authorizeGuardedCall('paean_write_file', args, options);
+    if (denied) return denied;
+
     try {
         await mkdir(dirname(resolvedPath), { recursive: true });
 
@@ -683,6 +1088,126 @@ async function writeLocalFile(args: Record<string, unknown>): Promise<unknown> {
     }
 }
 
+/**
+ * Compute the sha256 of file content
+ */
+function hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Apply exact-match replacements to a local file and return a unified diff
+ */
+async function editLocalFile(
+    args: Record<string, unknown>,
+    options: { autonomousMode?: boolean }
+): Promise<unknown> {
+    const filePath = args.filePath as string;
+    const edits = args.edits as Array<{ oldString?: string; newString?: string; replaceAll?: boolean }> | undefined;
+    const expectedHash = args.expectedHash as string | undefined;
+
+    if (!filePath) {
+        return { success: false, error: 'filePath is required' };
+    }
+    if (!Array.isArray(edits) || edits.length === 0) {
+        return { success: false, error: 'edits must be a non-empty array' };
+    }
+
+    const resolvedPath = resolve(filePath);
+
+    const access = await checkPathAccess(resolvedPath, 'write');
+    if (!access.allowed) {
+        return { success: false, error: access.error };
+    }
+
+    let original: string;
+    let originalMtime: number;
+    try {
+        original = await readFile(resolvedPath, 'utf-8');
+        originalMtime = (await stat(resolvedPath)).mtimeMs;
+    } catch (error) {
+        const err = error as NodeJS.ErrnoException;
+        if (err.code === 'ENOENT') {
+            return { success: false, error: `File not found: ${resolvedPath}. Use paean_write_file to create new files.` };
+        }
+        return { success: false, error: err.message || 'Failed to read file' };
+    }
+
+    const originalHash = hashContent(original);
+    if (expectedHash && expectedHash !== originalHash) {
+        return {
+            success: false,
+            error: 'File has changed since it was read (hash mismatch). Read it again before editing.',
+            currentHash: originalHash,
+        };
+    }
+
+    let updated = original;
+    let replacements = 0;
+    for (let i = 0; i < edits.length; i++) {
+        const { oldString, newString, replaceAll } = edits[i];
+        if (typeof oldString !== 'string' || typeof newString !== 'string') {
+            return { success: false, error: `Edit ${i + 1}: oldString and newString must be strings` };
+        }
+        if (oldString.length === 0) {
+            return { success: false, error: `Edit ${i + 1}: oldString must not be empty` };
+        }
+        if (oldString === newString) {
+            return { success: false, error: `Edit ${i + 1}: oldString and newString are identical` };
+        }
+
+        const occurrences = updated.split(oldString).length - 1;
+        if (occurrences === 0) {
+            return { success: false, error: `Edit ${i + 1}: oldString not found in ${resolvedPath}` };
+        }
+        if (occurrences > 1 && !replaceAll) {
+            return {
+                success: false,
+                error: `Edit ${i + 1}: oldString matches ${occurrences} times. ` +
+                    'Include more surrounding context to make it unique, or set replaceAll.',
+            };
+        }
+
+        // split/join avoids special replacement patterns like "$&"
+        updated = updated.split(oldString).join(newString);
+        replacements += occurrences;
+    }
+
+    const denied = await authorizeGuardedCall('paean_edit_file', args, options);
+    if (denied) return denied;
+
+    try {
+        // Refuse to clobber concurrent changes made while we were editing/prompting
+        const current = await readFile(resolvedPath, 'utf-8');
+        const currentMtime = (await stat(resolvedPath)).mtimeMs;
+        if (currentMtime !== originalMtime && hashContent(current) !== originalHash) {
+            return {
+                success: false,
+                error: 'File was modified by another process during the edit. Read it again and retry.',
+            };
+        }
+
+        await writeFile(resolvedPath, updated, 'utf-8');
+
+        const displayPath = filePath.startsWith('/') ? resolvedPath : filePath;
+        return {
+            success: true,
+            message: `Applied ${edits.length} edit(s) (${replacements} replacement(s))`,
+            filePath: resolvedPath,
+            diff: createUnifiedDiff(original, updated, {
+                fromFile: `a/${displayPath}`,
+                toFile: `b/${displayPath}`,
+            }),
+            hash: hashContent(updated),
+        };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to edit file',
+        };
+    }
+}
+
 /**
  * Read content from a local file
  */
@@ -698,6 +1223,11 @@ async function readLocalFile(args: Record<string, unknown>): Promise<unknown> {
 
     const resolvedPath = resolve(filePath);
 
+    const access = await checkPathAccess(resolvedPath, 'read');
+    if (!access.allowed) {
+        return { success: false, error: access.error };
+    }
+
     try {
         const content = await readFile(resolvedPath, { encoding });
         const lines = content.split('\n');
@@ -709,6 +1239,7 @@ async function readLocalFile(args: Record<string, unknown>): Promise<unknown> {
         return {
             success: true,
             filePath: resolvedPath,
+            hash: hashContent(content),
             content: slicedLines.join('\n'),
             totalLines: lines.length,
             linesReturned: slicedLines.length,
@@ -741,6 +1272,11 @@ async function listDirectory(args: Record<string, unknown>): Promise<unknown> {
 
     const resolvedPath = resolve(dirPath || process.cwd());
 
+    const access = await checkPathAccess(resolvedPath, 'read');
+    if (!access.allowed) {
+        return { success: false, error: access.error };
+    }
+
     try {
         if (recursive) {
             const entries = await listDirectoryRecursive(resolvedPath, 0, 3, pattern);
@@ -759,7 +1295,7 @@ async function listDirectory(args: Record<string, unknown>): Promise<unknown> {
             }));
 
             if (pattern) {
-                const regex = globToRegex(pattern);
+                const regex = globToRegExp(pattern, { caseInsensitive: true });
                 entries = entries.filter(e => regex.test(e.name));
             }
 
@@ -812,7 +1348,7 @@ async function listDirectoryRecursive(
 
     const results: Array<{ name: string; type: string; path: string; size?: number }> = [];
     const dirEntries = await readdir(dirPath, { withFileTypes: true });
-    const regex = pattern ? globToRegex(pattern) : null;
+    const regex = pattern ? globToRegExp(pattern, { caseInsensitive: true }) : null;
 
     for (const entry of dirEntries) {
         // Skip hidden directories and node_modules in recursive mode
@@ -840,15 +1376,338 @@ async function listDirectoryRecursive(
     return results;
 }
 
+// ============================================
+// Search Tools
+// ============================================
+
+/** Stop walking after this many files so huge trees cannot stall a tool call */
+const MAX_WALK_FILES = 50_000;
+
+/** Files larger than this are not searched by paean_grep */
+const MAX_GREP_FILE_SIZE = 5 * 1024 * 1024;
+
+/** Matched lines are cut to this length in results */
+const MAX_GREP_LINE_LENGTH = 500;
+
+/** Directories skipped even when .gitignore is not respected */
+const ALWAYS_SKIPPED_DIRS = new Set(['.git']);
+
+/** Directories skipped by default, like an implicit .gitignore entry */
+const DEFAULT_SKIPPED_DIRS = new Set(['node_modules']);
+
+interface WalkResult {
+    files: string[];
+    truncated: boolean;
+}
+
+interface GrepMatch {
+    line: number;
+    text: string;
+    before?: string[];
+    after?: string[];
+}
+
+/**
+ * Collect .gitignore rules from the enclosing repository, from its root
+ * down to (excluding) the search directory itself.
+ */
+async function loadParentGitignores(dir: string): Promise<IgnoreRuleSet[]> {
+    const ancestors: string[] = [];
+    let current = dirname(dir);
+
+    while (current !== dirname(current)) {
+        ancestors.unshift(current);
+        try {
+            await stat(join(current, '.git'));
+            // Repository root found
+            const ruleSets = await Promise.all(ancestors.map(loadGitignore));
+            return ruleSets.filter((r): r is IgnoreRuleSet => r !== null);
+        } catch {
+            current = dirname(current);
+        }
+    }
+
+    // Not inside a repository (or the search directory is its root)
+    return [];
+}
+
+/**
+ * Walk a directory tree and return file paths.
+ * Symlinks are not followed and sensitive paths are skipped silently.
+ */
+async function walkFiles(root: string, respectGitignore: boolean): Promise<WalkResult> {
+    const files: string[] = [];
+    const baseRules = respectGitignore ? await loadParentGitignores(root) : [];
+    const stack: Array<{ dir: string; ruleSets: IgnoreRuleSet[] }> = [{ dir: root, ruleSets: baseRules }];
+
+    while (stack.length > 0) {
+        const { dir, ruleSets: parentRules } = stack.pop()!;
+
+        let ruleSets = parentRules;
+        if (respectGitignore) {
+            const local = await loadGitignore(dir);
+            if (local) ruleSets = [...parentRules, local];
+        }
+
+        let entries;
+        try {
+            entries = await readdir(dir, { withFileTypes: true });
+        } catch {
+            continue;
+        }
+
+        for (const entry of entries) {
+            const fullPath = join(dir, entry.name);
+            const isDirectory = entry.isDirectory();
+
+            if (!isDirectory && !entry.isFile()) continue;
+            if (isDirectory && ALWAYS_SKIPPED_DIRS.has(entry.name)) continue;
+            if (respectGitignore) {
+                if (isDirectory && DEFAULT_SKIPPED_DIRS.has(entry.name)) continue;
+                if (isIgnored(fullPath, isDirectory, ruleSets)) continue;
+            }
+            if (isSensitivePath(fullPath)) continue;
+
+            if (isDirectory) {
+                stack.push({ dir: fullPath, ruleSets });
+            } else {
+                files.push(fullPath);
+                if (files.length >= MAX_WALK_FILES) {
+                    return { files, truncated: true };
+                }
+            }
+        }
+    }
+
+    return { files, truncated: false };
+}
+
+/**
+ * Build a matcher for file paths relative to the search root.
+ * Patterns without a "/" match the file name at any depth.
+ */
+function createPathMatcher(pattern: string): (relativePath: string) => boolean {
+    const anchored = pattern.includes('/') ? pattern.replace(/^\.\//, '') : `**/${pattern}`;
+    const regex = globToRegExp(anchored, { pathMode: true });
+    return relativePath => regex.test(relativePath);
+}
+
+function toRelativePath(root: string, path: string): string {
+    return relative(root, path).split(sep).join('/');
+}
+
+/**
+ * Stat files and sort them by modification time (newest first)
+ */
+async function sortByModified(files: string[]): Promise<Array<{ path: string; size: number; modified: Date }>> {
+    const stats = await Promise.all(files.map(async (path) => {
+        try {
+            const s = await stat(path);
+            return { path, size: s.size, modified: s.mtime };
+        } catch {
+            return null;
+        }
+    }));
+    return stats
+        .filter((s): s is { path: string; size: number; modified: Date } => s !== null)
+        .sort((a, b) => b.modified.getTime() - a.modified.getTime());
+}
+
+/**
+ * Find files by glob pattern
+ */
+async function globFiles(args: Record<string, unknown>): Promise<unknown> {
+    const pattern = args.pattern as string;
+    const searchPath = args.path as string | undefined;
+    const maxResults = Math.max(1, (args.maxResults as number | undefined) || 100);
+    const includeIgnored = args.includeIgnored === true;
+
+    if (!pattern) {
+        return { success: false, error: 'pattern is required' };
+    }
+
+    const resolvedPath = resolve(searchPath || process.cwd());
+
+    const access = await checkPathAccess(resolvedPath, 'read');
+    if (!access.allowed) {
+        return { success: false, error: access.error };
+    }
+
+    try {
+        const s = await stat(access.realPath);
+        if (!s.isDirectory()) {
+            return { success: false, error: `Path is not a directory: ${resolvedPath}` };
+        }
+
+        const root = access.realPath;
+        const matches = createPathMatcher(pattern);
+        const walk = await walkFiles(root, !includeIgnored);
+        const matched = await sortByModified(walk.files.filter(f => matches(toRelativePath(root, f))));
+        const files = matched.slice(0, maxResults);
+
+        return {
+            success: true,
+            path: root,
+            pattern,
+            files: files.map(f => ({
+                path: f.path,
+                relativePath: toRelativePath(root, f.path),
+                size: f.size,
+                modified: f.modified.toISOString(),
+            })),
+            count: files.length,
+            totalMatches: matched.length,
+            truncated: matched.length > files.length || walk.truncated,
+        };
+    } catch (error) {
+        const err = error as NodeJS.ErrnoException;
+        if (err.code === 'ENOENT') {
+            return { success: false, error: `Directory not found: ${resolvedPath}` };
+        }
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to search files',
+        };
+    }
+}
+
 /**
- * Convert a simple glob pattern to regex
+ * Search file contents with a regular expression
  */
-function globToRegex(pattern: string): RegExp {
-    const escaped = pattern
-        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-        .replace(/\*/g, '.*')
-        .replace(/\?/g, '.');
-    return new RegExp(`^${escaped}$`, 'i');
+async function grepFiles(args: Record<string, unknown>): Promise<unknown> {
+    const pattern = args.pattern as string;
+    const searchPath = args.path as string | undefined;
+    const fileGlob = args.glob as string | undefined;
+    const caseInsensitive = args.caseInsensitive === true;
+    const contextLines = Math.min(10, Math.max(0, (args.contextLines as number | undefined) || 0));
+    const filesOnly = args.filesOnly === true;
+    const maxResults = Math.max(1, (args.maxResults as number | undefined) || 100);
+    const includeIgnored = args.includeIgnored === true;
+
+    if (!pattern) {
+        return { success: false, error: 'pattern is required' };
+    }
+
+    let regex: RegExp;
+    try {
+        regex = new RegExp(pattern, caseInsensitive ? 'i' : '');
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : `Invalid regular expression: ${pattern}`,
+        };
+    }
+
+    const resolvedPath = resolve(searchPath || process.cwd());
+
+    const access = await checkPathAccess(resolvedPath, 'read');
+    if (!access.allowed) {
+        return { success: false, error: access.error };
+    }
+
+    try {
+        const s = await stat(access.realPath);
+        const root = s.isDirectory() ? access.realPath : dirname(access.realPath);
+
+        let candidates: string[];
+        let walkTruncated = false;
+        if (s.isDirectory()) {
+            const walk = await walkFiles(root, !includeIgnored);
+            const matches = fileGlob ? createPathMatcher(fileGlob) : null;
+            candidates = matches ? walk.files.filter(f => matches(toRelativePath(root, f))) : walk.files;
+            walkTruncated = walk.truncated;
+        } else {
+            candidates = [access.realPath];
+        }
+
+        const results: Array<{
+            path: string;
+            relativePath: string;
+            modified: string;
+            matches?: GrepMatch[];
+        }> = [];
+        let totalMatches = 0;
+        let filesSearched = 0;
+        let truncated = false;
+
+        for (const file of await sortByModified(candidates)) {
+            if (file.size > MAX_GREP_FILE_SIZE) continue;
+
+            let buffer: Buffer;
+            try {
+                buffer = await readFile(file.path);
+            } catch {
+                continue;
+            }
+            // Skip binary files (NUL byte in the first 8 KB)
+            if (buffer.subarray(0, 8192).includes(0)) continue;
+            filesSearched++;
+
+            const lines = buffer.toString('utf-8').split(/\r?\n/);
+            const fileMatches: GrepMatch[] = [];
+
+            for (let i = 0; i < lines.length; i++) {
+                if (!regex.test(lines[i])) continue;
+
+                if (filesOnly) {
+                    fileMatches.push({ line: i + 1, text: '' });
+                    break;
+                }
+
+                const match: GrepMatch = {
+                    line: i + 1,
+                    text: lines[i].slice(0, MAX_GREP_LINE_LENGTH),
+                };
+                if (contextLines > 0) {
+                    match.before = lines.slice(Math.max(0, i - contextLines), i)
+                        .map(l => l.slice(0, MAX_GREP_LINE_LENGTH));
+                    match.after = lines.slice(i + 1, i + 1 + contextLines)
+                        .map(l => l.slice(0, MAX_GREP_LINE_LENGTH));
+                }
+                fileMatches.push(match);
+                totalMatches++;
+
+                if (totalMatches >= maxResults) {
+                    truncated = true;
+                    break;
+                }
+            }
+
+            if (fileMatches.length > 0) {
+                results.push({
+                    path: file.path,
+                    relativePath: toRelativePath(root, file.path) || basename(file.path),
+                    modified: file.modified.toISOString(),
+                    ...(filesOnly ? {} : { matches: fileMatches }),
+                });
+                if (filesOnly && results.length >= maxResults) {
+                    truncated = true;
+                }
+            }
+
+            if (truncated) break;
+        }
+
+        return {
+            success: true,
+            path: access.realPath,
+            pattern,
+            files: results,
+            filesMatched: results.length,
+            ...(filesOnly ? {} : { totalMatches }),
+            filesSearched,
+            truncated: truncated || walkTruncated,
+        };
+    } catch (error) {
+        const err = error as NodeJS.ErrnoException;
+        if (err.code === 'ENOENT') {
+            return { success: false, error: `Path not found: ${resolvedPath}` };
+        }
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to search files',
+        };
+    }
 }
 
 async function wechatSend(args: Record<string, unknown>): Promise<unknown> {
@@ -14,6 +14,8 @@
  */
 
 import { type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { watch, existsSync, type FSWatcher } from 'fs';
+import { resolve as resolvePath, dirname, basename } from 'path';
 import {
   completeTodoItem,
   createTodoItem,
@@ -28,23 +30,17 @@ import {
   getSubtaskProgress,
 } from '../api/todo.js';
 import { detectProject, getProjectId } from '../utils/project.js';
-import { getSystemTools, executeSystemTool } from './system.js';
+import { getSystemTools, executeSystemTool, SYSTEM_TOOL_NAMES } from './system.js';
+import { validateToolArguments, formatArgumentErrors } from './schema.js';
 import { getCliAgentTools, executeCliAgentTool, CLI_AGENT_TOOL_NAMES } from './cli-agents.js';
 import { getLoopToolDefinitions, executeLoopTool, LOOP_TOOL_NAMES } from './loop.js';
 import { getContextToolDefinitions, executeContextTool, CONTEXT_TOOL_NAMES } from './context-tools.js';
-
-/** System tool names that must be routed to executeSystemTool */
-const SYSTEM_TOOL_NAMES = new Set([
-  'paean_execute_shell',
-  'paean_check_process',
-  'paean_kill_process',
-  'paean_download_file',
-  'paean_write_file',
-  'paean_read_file',
-  'paean_list_directory',
-  'paean_wechat_send',
-  'paean_wechat_contacts',
-]);
+import {
+  createCustomToolHandler,
+  validateCustomToolDefinition,
+  type CustomToolDefinition,
+} from './custom-tools.js';
+import type { LocalToolProvider } from './client.js';
 
 // ============================================
 // Custom MCP Tool Registry (Open Source Extensibility)
@@ -59,6 +55,12 @@ export type CustomToolHandler = (args: Record<string, unknown>) => Promise<unkno
 /** Registry for custom MCP tools */
 const customToolRegistry = new Map<string, { tool: Tool; handler: CustomToolHandler }>();
 
+/** JSON file each JSON-defined custom tool was loaded from */
+const customToolSources = new Map<string, string>();
+
+/** Wait for a changed JSON tool file to settle before reloading it */
+const CUSTOM_TOOLS_RELOAD_DELAY_MS = 200;
+
 /**
  * Register custom MCP tools programmatically.
  * 
@@ -86,22 +88,125 @@ const customToolRegistry = new Map<string, { tool: Tool; handler: CustomToolHand
  *   }
  * }]);
  * ```
+ *
+ * Tools named like a built-in tool are skipped (built-ins always win), and a
+ * tool registered again under the same name replaces the earlier one. Both
+ * cases are returned as warnings for the caller to show.
  */
 export function registerCustomTools(
   tools: Array<{ tool: Tool; handler: CustomToolHandler }>
-): void {
+): string[] {
+  const builtinNames = getBuiltinToolNames();
+  const warnings: string[] = [];
+
   for (const { tool, handler } of tools) {
+    if (builtinNames.has(tool.name)) {
+      warnings.push(`Custom tool "${tool.name}" skipped: a built-in tool has the same name`);
+      continue;
+    }
+    if (customToolRegistry.has(tool.name)) {
+      warnings.push(`Custom tool "${tool.name}" replaces an earlier tool with the same name`);
+    }
     customToolRegistry.set(tool.name, { tool, handler });
+    // The replacement no longer belongs to a JSON file; reloading that file must not remove it
+    customToolSources.delete(tool.name);
   }
+
+  return warnings;
+}
+
+/**
+ * A custom tool as registered, with the JSON file it came from
+ */
+export interface CustomToolRegistration {
+  tool: Tool;
+  handler: CustomToolHandler;
+  source?: string;
+}
+
+/**
+ * Current registration of a custom tool, so a caller replacing it can put it
+ * back later (see restoreCustomToolRegistration)
+ */
+export function getCustomToolRegistration(toolName: string): CustomToolRegistration | undefined {
+  const entry = customToolRegistry.get(toolName);
+  return entry && { ...entry, source: customToolSources.get(toolName) };
+}
+
+/**
+ * Restore a registration captured with getCustomToolRegistration, or remove
+ * the tool when there was none
+ */
+export function restoreCustomToolRegistration(toolName: string, registration?: CustomToolRegistration): void {
+  unregisterCustomTool(toolName);
+  if (!registration) return;
+  customToolRegistry.set(toolName, { tool: registration.tool, handler: registration.handler });
+  if (registration.source) {
+    customToolSources.set(toolName, registration.source);
+  }
+}
+
+/**
+ * Names of the built-in tools (everything but the custom registry)
+ */
+function getBuiltinToolNames(): Set<string> {
+  return new Set(getMcpTools().map(tool => tool.name).filter(name => !customToolRegistry.has(name)));
 }
 
 /**
  * Unregister a custom MCP tool by name
  */
 export function unregisterCustomTool(toolName: string): boolean {
+  customToolSources.delete(toolName);
   return customToolRegistry.delete(toolName);
 }
 
+/**
+ * Tools registered via registerCustomTools, JSON files or plugins
+ */
+export function getCustomTools(): Tool[] {
+  return Array.from(customToolRegistry.values()).map(({ tool }) => tool);
+}
+
+/** Server name custom tools are advertised under in agent mode */
+export const LOCAL_TOOLS_SERVER_NAME = 'local';
+
+/**
+ * Expose the custom tools to the agent through an McpClient
+ * (see McpClient.setLocalToolProvider)
+ */
+export function createLocalToolProvider(): LocalToolProvider {
+  return {
+    name: LOCAL_TOOLS_SERVER_NAME,
+    listTools: () => getCustomTools().map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema as Record<string, unknown>,
+    })),
+    callTool: async (toolName, args) => {
+      if (!customToolRegistry.has(toolName)) {
+        return {
+          content: [{ type: 'text', text: `Unknown local tool: ${toolName}` }],
+          isError: true,
+        };
+      }
+      const result = await executeMcpTool(toolName, args);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result) }],
+        isError: (result as { success?: boolean } | null)?.success === false,
+      };
+    },
+  };
+}
+
+/**
+ * Options for loadCustomToolsFromJson
+ */
+export interface LoadCustomToolsOptions {
+  /** Called for skipped definitions and name clashes, for the caller to show */
+  onWarning?: (message: string) => void;
+}
+
 /**
  * Load custom MCP tools from a JSON definition file.
  * 
@@ -114,107 +219,158 @@ export function unregisterCustomTool(toolName: string): boolean {
  *       "description": "Description of my tool",
  *       "inputSchema": { ... },
  *       "command": "node ./scripts/my-tool.js"
+ *     },
+ *     {
+ *       "name": "word_count",
+ *       "inputSchema": { ... },
+ *       "argv": ["wc", "-w", "--", "{{files}}"],
+ *       "output": "lines"
  *     }
  *   ]
  * }
  * ```
  * 
- * Each tool defined in JSON will be executed as a shell command,
- * with the tool arguments passed as JSON via stdin.
+ * Tools run a shell `command` or an `argv` list (no shell) with `{{arg}}`
+ * placeholders; see custom-tools.ts for `stdin`, `env`, `output` and `cwd`.
+ * Loading a file again replaces the tools it defined before. Invalid
+ * definitions and tools registered by plugins or registerCustomTools are
+ * skipped and reported through `options.onWarning`.
+ * Returns the number of tools defined in the file.
  */
-export async function loadCustomToolsFromJson(jsonPath: string): Promise<number> {
+export async function loadCustomToolsFromJson(
+  jsonPath: string,
+  options: LoadCustomToolsOptions = {}
+): Promise<number> {
   const { readFile } = await import('fs/promises');
-  const { resolve } = await import('path');
-  const { exec } = await import('child_process');
-  const { promisify } = await import('util');
-  const execAsync = promisify(exec);
 
-  const resolvedPath = resolve(jsonPath);
+  const resolvedPath = resolvePath(jsonPath);
 
+  let content: string;
   try {
-    const content = await readFile(resolvedPath, 'utf-8');
-    const config = JSON.parse(content) as {
-      tools?: Array<{
-        name: string;
-        description?: string;
-        inputSchema?: Record<string, unknown>;
-        command: string;
-        cwd?: string;
-        timeout?: number;
-      }>;
-    };
-
-    if (!config.tools || !Array.isArray(config.tools)) {
-      return 0;
+    content = await readFile(resolvedPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      removeToolsFromSource(resolvedPath);
+      return 0; // File not found is not an error, just no custom tools
     }
+    throw error;
+  }
 
-    const toolEntries: Array<{ tool: Tool; handler: CustomToolHandler }> = [];
+  const config = JSON.parse(content) as { tools?: CustomToolDefinition[] };
+  removeToolsFromSource(resolvedPath);
 
-    for (const def of config.tools) {
-      if (!def.name || !def.command) continue;
+  if (!config.tools || !Array.isArray(config.tools)) {
+    return 0;
+  }
 
-      const tool: Tool = {
-        name: def.name,
-        description: def.description || `Custom tool: ${def.name}`,
-        inputSchema: {
-          type: 'object',
-          properties: (def.inputSchema?.properties || {}) as Record<string, object>,
-          ...(def.inputSchema?.required ? { required: def.inputSchema.required as string[] } : {}),
-        },
-      };
+  const toolEntries: Array<{ tool: Tool; handler: CustomToolHandler }> = [];
+  const warnings: string[] = [];
 
-      const command = def.command;
-      const cwd = def.cwd;
-      const timeout = def.timeout || 60000;
-
-      const handler: CustomToolHandler = async (args) => {
-        try {
-          const input = JSON.stringify(args);
-          const { stdout, stderr } = await execAsync(command, {
-            cwd: cwd || process.cwd(),
-            timeout,
-            maxBuffer: 5 * 1024 * 1024,
-            env: {
-              ...process.env,
-              MCP_TOOL_INPUT: input,
-              MCP_TOOL_NAME: def.name,
-            },
-          });
-
-          // Try to parse stdout as JSON
-          try {
-            return JSON.parse(stdout.trim());
-          } catch {
-            return {
-              success: true,
-              output: stdout.trim(),
-              stderr: stderr.trim() || undefined,
-            };
-          }
-        } catch (error) {
-          const err = error as { message?: string; stdout?: string; stderr?: string };
-          return {
-            success: false,
-            error: err.message || 'Custom tool execution failed',
-            stdout: err.stdout?.trim(),
-            stderr: err.stderr?.trim(),
-          };
-        }
-      };
+  for (const def of config.tools) {
+    const problem = validateCustomToolDefinition(def);
+    if (problem) {
+      warnings.push(`Skipping custom tool in ${resolvedPath}: ${problem}`);
+      continue;
+    }
+    // Plugins load after the JSON files and keep their tools across reloads
+    if (customToolRegistry.has(def.name) && !customToolSources.has(def.name)) {
+      warnings.push(`Skipping custom tool in ${resolvedPath}: "${def.name}" is registered by a plugin or registerCustomTools`);
+      continue;
+    }
+
+    const tool: Tool = {
+      name: def.name,
+      description: def.description || `Custom tool: ${def.name}`,
+      // Keep the whole schema (enums, defaults, nested objects) for validation
+      inputSchema: {
+        ...def.inputSchema,
+        type: 'object',
+        properties: (def.inputSchema?.properties || {}) as Record<string, object>,
+      },
+    };
 
-      toolEntries.push({ tool, handler });
+    toolEntries.push({ tool, handler: createCustomToolHandler(def, dirname(resolvedPath)) });
+  }
+
+  warnings.push(...registerCustomTools(toolEntries));
+  for (const { tool } of toolEntries) {
+    if (customToolRegistry.has(tool.name)) {
+      customToolSources.set(tool.name, resolvedPath);
     }
+  }
+  for (const warning of warnings) {
+    options.onWarning?.(warning);
+  }
+  return toolEntries.length;
+}
 
-    registerCustomTools(toolEntries);
-    return toolEntries.length;
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      return 0; // File not found is not an error, just no custom tools
+/**
+ * Unregister the tools a JSON file registered earlier
+ */
+function removeToolsFromSource(jsonPath: string): void {
+  for (const [toolName, source] of customToolSources) {
+    if (source === jsonPath) {
+      customToolRegistry.delete(toolName);
+      customToolSources.delete(toolName);
     }
-    throw error;
   }
 }
 
+/**
+ * Reload a JSON tool file whenever it is created, changed or deleted.
+ * Returns a function that stops watching.
+ */
+export function watchCustomToolsFile(
+  jsonPath: string,
+  onReload?: (count: number, warnings: string[], error?: Error) => void
+): () => void {
+  const resolvedPath = resolvePath(jsonPath);
+  const directory = dirname(resolvedPath);
+  if (!existsSync(directory)) {
+    return () => { };
+  }
+
+  // Editors often save in several steps; reload once they are done
+  let timer: NodeJS.Timeout | null = null;
+  const reload = () => {
+    timer = null;
+    const warnings: string[] = [];
+    loadCustomToolsFromJson(resolvedPath, { onWarning: (warning) => warnings.push(warning) })
+      .then((count) => onReload?.(count, warnings))
+      .catch((error: Error) => onReload?.(0, warnings, error));
+  };
+
+  let watcher: FSWatcher;
+  try {
+    watcher = watch(directory, (_event, filename) => {
+      if (filename && filename.toString() !== basename(resolvedPath)) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(reload, CUSTOM_TOOLS_RELOAD_DELAY_MS);
+    });
+  } catch {
+    return () => { };
+  }
+  watcher.unref();
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+/** Task tools that modify tasks or pending changes */
+export const TASK_MUTATION_TOOL_NAMES = new Set([
+  'paean_complete_task',
+  'paean_create_task',
+  'paean_update_task',
+  'paean_accept_change',
+  'paean_reject_change',
+  'paean_add_subtask',
+  'paean_complete_subtask',
+  'paean_update_subtask',
+  'paean_delete_subtask',
+]);
+
 /**
  * Get available MCP tools (including system tools and custom tools)
  */
@@ -229,7 +385,7 @@ export function getMcpTools(): Tool[] {
     // Context management tools (clear/compact)
     ...getContextToolDefinitions(),
     // Custom registered tools
-    ...Array.from(customToolRegistry.values()).map(({ tool }) => tool),
+    ...getCustomTools(),
     // Task management tools
     {
       name: 'paean_complete_task',
@@ -249,6 +405,7 @@ export function getMcpTools(): Tool[] {
         },
         required: ['taskId'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
     },
     {
       name: 'paean_create_task',
@@ -287,6 +444,7 @@ export function getMcpTools(): Tool[] {
         },
         required: ['content'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
     },
     {
       name: 'paean_update_task',
@@ -315,6 +473,7 @@ export function getMcpTools(): Tool[] {
         },
         required: ['taskId'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
     },
     {
       name: 'paean_list_tasks',
@@ -334,6 +493,7 @@ export function getMcpTools(): Tool[] {
           },
         },
       },
+      annotations: { readOnlyHint: true, openWorldHint: false },
     },
     {
       name: 'paean_accept_change',
@@ -348,6 +508,7 @@ export function getMcpTools(): Tool[] {
         },
         required: ['changeId'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: false },
     },
     {
       name: 'paean_reject_change',
@@ -366,6 +527,7 @@ export function getMcpTools(): Tool[] {
         },
         required: ['changeId'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
     },
     // Subtask management tools
     {
@@ -385,6 +547,7 @@ export function getMcpTools(): Tool[] {
         },
         required: ['taskId', 'content'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
     },
     {
       name: 'paean_complete_subtask',
@@ -403,6 +566,7 @@ export function getMcpTools(): Tool[] {
         },
         required: ['taskId', 'subtaskId'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
     },
     {
       name: 'paean_update_subtask',
@@ -429,6 +593,7 @@ export function getMcpTools(): Tool[] {
         },
         required: ['taskId', 'subtaskId'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
     },
     {
       name: 'paean_delete_subtask',
@@ -447,6 +612,7 @@ export function getMcpTools(): Tool[] {
         },
         required: ['taskId', 'subtaskId'],
       },
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
     },
   ];
 }
@@ -458,6 +624,22 @@ export async function executeMcpTool(
   toolName: string,
   args: Record<string, unknown>
 ): Promise<unknown> {
+  // System tools validate their own arguments (they are also called directly)
+  if (!SYSTEM_TOOL_NAMES.has(toolName)) {
+    const definition = getMcpTools().find((tool) => tool.name === toolName);
+    if (definition) {
+      const validation = validateToolArguments(definition.inputSchema, args);
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: formatArgumentErrors(toolName, validation.errors),
+          violations: validation.errors,
+        };
+      }
+      args = validation.args;
+    }
+  }
+
   const project = detectProject();
   const projectId = getProjectId(project);
 
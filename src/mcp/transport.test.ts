@@ -0,0 +1,335 @@
+/**
+ * HTTP transports against in-process MCP stub servers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { McpClient, type McpClientEvent, type McpServerConfig } from './client.js';
+
+interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: number;
+    method?: string;
+    params?: Record<string, unknown>;
+}
+
+/**
+ * Answer a JSON-RPC message like a minimal MCP server with one `echo` tool
+ */
+function answer(message: JsonRpcMessage): object | null {
+    if (message.id === undefined) return null;
+    const reply = (result: object) => ({ jsonrpc: '2.0', id: message.id, result });
+    switch (message.method) {
+        case 'initialize':
+            return reply({
+                protocolVersion: '2025-03-26',
+                capabilities: { tools: {} },
+                serverInfo: { name: 'stub', version: '1.0.0' },
+            });
+        case 'tools/list':
+            return reply({
+                tools: [{
+                    name: 'echo',
+                    description: 'Echo the text back',
+                    inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+                }],
+            });
+        case 'tools/call': {
+            const args = (message.params?.arguments ?? {}) as { text?: string };
+            return reply({ content: [{ type: 'text', text: `echo: ${args.text}` }] });
+        }
+        case 'ping':
+            return reply({});
+        default:
+            return { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } };
+    }
+}
+
+async function readBody(req: IncomingMessage): Promise<JsonRpcMessage> {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    return JSON.parse(body) as JsonRpcMessage;
+}
+
+async function listen(server: Server): Promise<string> {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address();
+    if (!address || typeof address === 'string') throw new Error('No server address');
+    return `http://127.0.0.1:${address.port}`;
+}
+
+/**
+ * Streamable HTTP stub: sessions are assigned on initialize and required
+ * afterwards; tools/call is answered as an SSE stream, the rest as JSON.
+ */
+function createStreamableHttpStub() {
+    const sessions = new Set<string>();
+    const requestSessions: Array<{ method?: string; sessionId?: string }> = [];
+    const deleted: string[] = [];
+    let counter = 0;
+
+    const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+        if (req.method === 'DELETE') {
+            if (sessionId) {
+                sessions.delete(sessionId);
+                deleted.push(sessionId);
+            }
+            res.writeHead(200).end();
+            return;
+        }
+        if (req.method !== 'POST') {
+            res.writeHead(405).end();
+            return;
+        }
+
+        const message = await readBody(req);
+        requestSessions.push({ method: message.method, sessionId });
+
+        const headers: Record<string, string> = {};
+        if (message.method === 'initialize') {
+            const assigned = `session-${++counter}`;
+            sessions.add(assigned);
+            headers['Mcp-Session-Id'] = assigned;
+        } else if (!sessionId) {
+            res.writeHead(400).end('Missing session');
+            return;
+        } else if (!sessions.has(sessionId)) {
+            res.writeHead(404).end('Unknown session');
+            return;
+        }
+
+        const response = answer(message);
+        if (!response) {
+            res.writeHead(202, headers).end();
+        } else if (message.method === 'tools/call') {
+            res.writeHead(200, { ...headers, 'Content-Type': 'text/event-stream' });
+            res.end(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+        } else {
+            res.writeHead(200, { ...headers, 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(response));
+        }
+    });
+
+    return {
+        server,
+        requestSessions,
+        deleted,
+        /** Forget every session, as a restarted server would */
+        expireSessions: () => sessions.clear(),
+    };
+}
+
+/**
+ * Legacy HTTP+SSE stub: a GET stream announces the POST endpoint and
+ * carries the responses.
+ */
+function createSseStub() {
+    const streams = new Map<string, ServerResponse>();
+    let connections = 0;
+
+    const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+
+        if (req.method === 'GET' && url.pathname === '/sse') {
+            const id = `stream-${++connections}`;
+            streams.set(id, res);
+            res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+            res.write(`event: endpoint\ndata: /messages?session=${id}\n\n`);
+            req.on('close', () => streams.delete(id));
+            return;
+        }
+
+        if (req.method === 'POST' && url.pathname === '/messages') {
+            const stream = streams.get(url.searchParams.get('session') ?? '');
+            if (!stream) {
+                res.writeHead(404).end('Unknown session');
+                return;
+            }
+            const response = answer(await readBody(req));
+            res.writeHead(202).end('Accepted');
+            if (response) {
+                stream.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+            }
+            return;
+        }
+
+        res.writeHead(404).end();
+    });
+
+    return {
+        server,
+        get connections() {
+            return connections;
+        },
+        /** Cut every open event stream */
+        dropStreams: () => {
+            for (const stream of streams.values()) stream.destroy();
+            streams.clear();
+        },
+    };
+}
+
+/**
+ * Wait for the next `server_status` event with the given status
+ */
+function waitForStatus(client: McpClient, serverName: string, status: string, timeoutMs = 5000): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            client.off('event', listener);
+            reject(new Error(`Timed out waiting for ${serverName} to be ${status}`));
+        }, timeoutMs);
+        const listener = (event: McpClientEvent) => {
+            if (event.type === 'server_status' && event.serverName === serverName && event.state.status === status) {
+                clearTimeout(timer);
+                client.off('event', listener);
+                resolve();
+            }
+        };
+        client.on('event', listener);
+    });
+}
+
+describe('MCP HTTP transports', () => {
+    const originalCwd = process.cwd();
+    let project: string;
+    let server: Server | undefined;
+    let client: McpClient | undefined;
+
+    /**
+     * Write a project .openpaean/mcp.json with one server and create a client reading it
+     */
+    function createClient(serverName: string, config: McpServerConfig): McpClient {
+        mkdirSync(join(project, '.openpaean'), { recursive: true });
+        writeFileSync(
+            join(project, '.openpaean', 'mcp.json'),
+            JSON.stringify({ mcpServers: { [serverName]: config } })
+        );
+        client = new McpClient();
+        return client;
+    }
+
+    beforeEach(() => {
+        project = mkdtempSync(join(tmpdir(), 'openpaean-transport-'));
+        process.chdir(project);
+    });
+
+    afterEach(async () => {
+        await client?.disconnectAll();
+        client = undefined;
+        if (server) {
+            const closing = new Promise<void>(resolve => server!.close(() => resolve()));
+            server.closeAllConnections();
+            await closing;
+            server = undefined;
+        }
+        process.chdir(originalCwd);
+        rmSync(project, { recursive: true, force: true });
+    });
+
+    describe('StreamableHttpTransport', () => {
+        it('initializes, lists tools and calls a tool within one session', async () => {
+            const stub = createStreamableHttpStub();
+            server = stub.server;
+            const url = `${await listen(server)}/mcp`;
+            const mcp = createClient('remote', { url, transport: 'http' });
+
+            const tools = await mcp.connect('remote');
+            expect(tools.map(tool => tool.name)).toEqual(['echo']);
+            expect(mcp.getServerInfo('remote')?.transport).toBe('http');
+
+            const result = await mcp.callTool('remote', 'echo', { text: 'hi' });
+            expect(result.isError).toBeFalsy();
+            expect(result.content[0].text).toBe('echo: hi');
+
+            // Every request after initialize carries the assigned session ID
+            const [initialize, ...rest] = stub.requestSessions;
+            expect(initialize).toEqual({ method: 'initialize', sessionId: undefined });
+            expect(rest.length).toBeGreaterThan(0);
+            for (const request of rest) {
+                expect(request.sessionId).toBe('session-1');
+            }
+
+            // Closing ends the session on the server
+            await mcp.disconnect('remote');
+            expect(stub.deleted).toEqual(['session-1']);
+        });
+
+        it('closes the previous connection when connecting again', async () => {
+            const stub = createStreamableHttpStub();
+            server = stub.server;
+            const url = `${await listen(server)}/mcp`;
+            const mcp = createClient('remote', { url, transport: 'http' });
+
+            await mcp.connect('remote');
+            await mcp.connect('remote');
+            expect(stub.deleted).toEqual(['session-1']);
+
+            const result = await mcp.callTool('remote', 'echo', { text: 'hi' });
+            expect(result.content[0].text).toBe('echo: hi');
+            expect(stub.requestSessions.at(-1)).toEqual({ method: 'tools/call', sessionId: 'session-2' });
+        });
+
+        it('reconnects with a new session when the server forgets the old one', async () => {
+            const stub = createStreamableHttpStub();
+            server = stub.server;
+            const url = `${await listen(server)}/mcp`;
+            const mcp = createClient('remote', { url, transport: 'http' });
+
+            await mcp.connect('remote');
+            mcp.startSupervisor({ intervalMs: 60000, backoffBaseMs: 20 });
+
+            stub.expireSessions();
+            const reconnected = waitForStatus(mcp, 'remote', 'connected');
+            const failed = await mcp.callTool('remote', 'echo', { text: 'lost' });
+            expect(failed.isError).toBe(true);
+            await reconnected;
+
+            const result = await mcp.callTool('remote', 'echo', { text: 'again' });
+            expect(result.content[0].text).toBe('echo: again');
+            expect(stub.requestSessions.at(-1)).toEqual({ method: 'tools/call', sessionId: 'session-2' });
+        });
+    });
+
+    describe('SseTransport', () => {
+        it('initializes, lists tools and calls a tool over the event stream', async () => {
+            const stub = createSseStub();
+            server = stub.server;
+            const url = `${await listen(server)}/sse`;
+            const mcp = createClient('legacy', { url, transport: 'sse' });
+
+            const tools = await mcp.connect('legacy');
+            expect(tools.map(tool => tool.name)).toEqual(['echo']);
+            expect(mcp.getServerInfo('legacy')?.transport).toBe('sse');
+
+            const result = await mcp.callTool('legacy', 'echo', { text: 'hi' });
+            expect(result.isError).toBeFalsy();
+            expect(result.content[0].text).toBe('echo: hi');
+            expect(stub.connections).toBe(1);
+        });
+
+        it('reconnects when the event stream is cut', async () => {
+            const stub = createSseStub();
+            server = stub.server;
+            const url = `${await listen(server)}/sse`;
+            const mcp = createClient('legacy', { url, transport: 'sse' });
+
+            await mcp.connect('legacy');
+            mcp.startSupervisor({ intervalMs: 60000, backoffBaseMs: 20 });
+
+            const reconnecting = waitForStatus(mcp, 'legacy', 'reconnecting');
+            const reconnected = waitForStatus(mcp, 'legacy', 'connected');
+            stub.dropStreams();
+            await reconnecting;
+            await reconnected;
+
+            expect(stub.connections).toBe(2);
+            const result = await mcp.callTool('legacy', 'echo', { text: 'again' });
+            expect(result.content[0].text).toBe('echo: again');
+        });
+    });
+});
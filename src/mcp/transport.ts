@@ -0,0 +1,539 @@
+/**
+ * MCP Client Transports
+ * Carry JSON-RPC messages between McpClient and an MCP server
+ *
+ * - stdio: spawn the server and exchange newline-delimited JSON (default)
+ * - sse:   legacy HTTP+SSE transport (GET event stream + POST endpoint)
+ * - http:  Streamable HTTP transport (POST, response as JSON or SSE)
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { createInterface, type Interface as ReadlineInterface } from 'readline';
+
+/**
+ * Transport type as configured in mcp_config.json
+ */
+export type McpTransportType = 'stdio' | 'sse' | 'http';
+
+/**
+ * Callbacks from a transport to the client
+ */
+export interface McpTransportHandlers {
+    /** A JSON-RPC message arrived from the server */
+    onMessage: (message: unknown) => void;
+    /** The connection was lost; `error` describes why, when known */
+    onClose: (error?: string) => void;
+    log: (message: string, ...args: unknown[]) => void;
+}
+
+/**
+ * Bidirectional JSON-RPC channel to an MCP server
+ */
+export interface McpTransport {
+    readonly type: McpTransportType;
+    /** Open the connection; rejects if the server cannot be reached */
+    start(): Promise<void>;
+    /** Send a JSON-RPC request or notification */
+    send(message: unknown): Promise<void>;
+    /** Whether the connection is still usable */
+    isAlive(): boolean;
+    /** Close the connection and release resources */
+    close(): Promise<void>;
+    /** Set the negotiated protocol version (sent as a header over HTTP) */
+    setProtocolVersion?(version: string): void;
+    /** Start receiving server-initiated messages, if the transport needs a separate channel */
+    listen?(): void;
+}
+
+// ============================================
+// stdio
+// ============================================
+
+export interface StdioTransportOptions {
+    command: string;
+    args: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+}
+
+/**
+ * Spawns the server as a child process and talks over stdin / stdout
+ */
+export class StdioTransport implements McpTransport {
+    readonly type = 'stdio' as const;
+    private process: ChildProcess | null = null;
+    private stdout: ReadlineInterface | null = null;
+    private stderrBuffer = '';
+
+    constructor(
+        private readonly options: StdioTransportOptions,
+        private readonly handlers: McpTransportHandlers
+    ) { }
+
+    async start(): Promise<void> {
+        const { command, args, cwd, env } = this.options;
+
+        // Spawn the process with detached to prevent signal propagation
+        const proc = spawn(command, args, {
+            cwd,
+            env: { ...process.env, ...env },
+            stdio: ['pipe', 'pipe', 'pipe'],
+            detached: false, // Keep attached but don't forward signals
+        });
+        this.process = proc;
+
+        // Prevent unhandled promise rejection if process exits
+        proc.on('error', () => { });
+
+        if (!proc.stdin || !proc.stdout) {
+            throw new Error('Failed to create process pipes');
+        }
+
+        // Create readline interface for stdout
+        this.stdout = createInterface({
+            input: proc.stdout,
+            crlfDelay: Infinity,
+        });
+
+        // Collect stderr for debugging (capped to prevent unbounded growth)
+        if (proc.stderr) {
+            proc.stderr.on('data', (data) => {
+                const text = data.toString();
+                this.stderrBuffer += text;
+                if (this.stderrBuffer.length > 2048) {
+                    this.stderrBuffer = this.stderrBuffer.slice(-2048);
+                }
+                this.handlers.log(`[stderr] ${text.trim()}`);
+            });
+        }
+
+        // Handle stdout lines
+        this.stdout.on('line', (line) => {
+            const trimmed = line.trim();
+            if (!trimmed) return;
+
+            // Skip common npm/shell noise
+            if (!trimmed.startsWith('{')) {
+                this.handlers.log(`Non-JSON: ${trimmed.substring(0, 80)}`);
+                return;
+            }
+
+            try {
+                this.handlers.onMessage(JSON.parse(trimmed));
+            } catch (error) {
+                this.handlers.log('JSON parse error:', error);
+            }
+        });
+
+        // Handle process errors
+        proc.on('error', (error) => {
+            this.handlers.log('Process error:', error);
+            this.handlers.onClose(error.message);
+        });
+
+        proc.on('exit', (code, signal) => {
+            this.handlers.log(`Process exited with code ${code}, signal ${signal}`);
+            this.handlers.onClose(
+                code !== 0 ? this.stderrBuffer.slice(-500) || `Process exited with code ${code ?? signal}` : undefined
+            );
+        });
+
+        // Wait until the process is running; a server that exits right away
+        // fails its initialize request instead
+        await new Promise<void>((resolve, reject) => {
+            proc.once('spawn', () => resolve());
+            proc.once('error', (error) => reject(new Error(`Failed to start "${command}": ${error.message}`)));
+        });
+    }
+
+    async send(message: unknown): Promise<void> {
+        const proc = this.process;
+        if (!proc?.stdin || proc.exitCode !== null) {
+            throw new Error(`Server process has exited (code ${proc?.exitCode ?? 'unknown'})`);
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            proc.stdin!.write(JSON.stringify(message) + '\n', (err) => {
+                if (err) {
+                    reject(new Error(`Failed to write to stdin: ${err.message}`));
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    isAlive(): boolean {
+        return this.process !== null && this.process.exitCode === null;
+    }
+
+    async close(): Promise<void> {
+        // Close the readline interface (stops reading stdout)
+        try {
+            this.stdout?.close();
+        } catch {
+            // Ignore errors during cleanup
+        }
+
+        const proc = this.process;
+        if (!proc) return;
+
+        // Remove event listeners to prevent memory leaks
+        proc.removeAllListeners('error');
+        proc.removeAllListeners('exit');
+        proc.stderr?.removeAllListeners('data');
+
+        // Kill the process
+        if (proc.exitCode === null) {
+            proc.kill();
+        }
+    }
+}
+
+// ============================================
+// SSE parsing (shared by the HTTP transports)
+// ============================================
+
+interface SseEvent {
+    event: string;
+    data: string;
+    id?: string;
+}
+
+/**
+ * Read a text/event-stream body and call `onEvent` for every complete event
+ */
+async function readSseStream(
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: SseEvent) => void
+): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event = 'message';
+    let data: string[] = [];
+    let id: string | undefined;
+
+    const dispatch = () => {
+        if (data.length > 0) {
+            onEvent({ event, data: data.join('\n'), id });
+        }
+        event = 'message';
+        data = [];
+    };
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split(/\r?\n/);
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+                if (line === '') {
+                    dispatch();
+                } else if (line.startsWith(':')) {
+                    // Comment / keep-alive
+                } else {
+                    const colon = line.indexOf(':');
+                    const field = colon === -1 ? line : line.slice(0, colon);
+                    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+                    if (field === 'event') event = value;
+                    else if (field === 'data') data.push(value);
+                    else if (field === 'id') id = value;
+                }
+            }
+        }
+        dispatch();
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Build an error for a failed HTTP response, including the body when short
+ */
+async function httpError(response: Response, action: string): Promise<Error> {
+    let detail = response.statusText;
+    try {
+        const text = (await response.text()).trim();
+        if (text) detail = text.slice(0, 200);
+    } catch {
+        // Ignore unreadable body
+    }
+    return new Error(`${action} failed: HTTP ${response.status}${detail ? ` ${detail}` : ''}`);
+}
+
+export interface HttpTransportOptions {
+    url: string;
+    headers?: Record<string, string>;
+}
+
+// ============================================
+// Legacy HTTP+SSE
+// ============================================
+
+/** How long to wait for the `endpoint` event after opening the stream */
+const SSE_ENDPOINT_TIMEOUT_MS = 10000;
+
+/**
+ * HTTP+SSE transport (MCP 2024-11-05): the server pushes messages on a
+ * long-lived GET stream and announces the URL that requests are POSTed to.
+ */
+export class SseTransport implements McpTransport {
+    readonly type = 'sse' as const;
+    private abortController = new AbortController();
+    private endpoint: string | null = null;
+    private alive = false;
+
+    constructor(
+        private readonly options: HttpTransportOptions,
+        private readonly handlers: McpTransportHandlers
+    ) { }
+
+    async start(): Promise<void> {
+        const response = await fetch(this.options.url, {
+            method: 'GET',
+            headers: { ...this.options.headers, Accept: 'text/event-stream' },
+            signal: this.abortController.signal,
+        });
+
+        if (!response.ok) {
+            throw await httpError(response, 'Opening SSE stream');
+        }
+        if (!response.body) {
+            throw new Error('SSE stream has no body');
+        }
+
+        this.alive = true;
+
+        await new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                reject(new Error(`SSE endpoint event timeout after ${SSE_ENDPOINT_TIMEOUT_MS}ms`));
+            }, SSE_ENDPOINT_TIMEOUT_MS);
+
+            readSseStream(response.body!, (event) => {
+                if (event.event === 'endpoint') {
+                    this.endpoint = new URL(event.data, this.options.url).toString();
+                    this.handlers.log(`SSE endpoint: ${this.endpoint}`);
+                    clearTimeout(timer);
+                    resolve();
+                } else if (event.event === 'message') {
+                    try {
+                        this.handlers.onMessage(JSON.parse(event.data));
+                    } catch (error) {
+                        this.handlers.log('JSON parse error:', error);
+                    }
+                }
+            }).then(
+                () => this.handleStreamEnd('SSE stream closed by server'),
+                (error: Error) => this.handleStreamEnd(error.name === 'AbortError' ? undefined : error.message)
+            ).finally(() => {
+                clearTimeout(timer);
+                if (!this.endpoint) reject(new Error('SSE stream closed before endpoint event'));
+            });
+        });
+    }
+
+    private handleStreamEnd(error?: string): void {
+        if (!this.alive) return;
+        this.alive = false;
+        this.handlers.onClose(error);
+    }
+
+    async send(message: unknown): Promise<void> {
+        if (!this.alive || !this.endpoint) {
+            throw new Error('SSE connection is closed');
+        }
+
+        const response = await fetch(this.endpoint, {
+            method: 'POST',
+            headers: { ...this.options.headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify(message),
+            signal: this.abortController.signal,
+        });
+
+        if (!response.ok) {
+            throw await httpError(response, 'POST');
+        }
+        // Responses arrive on the SSE stream; drain the acknowledgement
+        await response.text().catch(() => '');
+    }
+
+    isAlive(): boolean {
+        return this.alive;
+    }
+
+    async close(): Promise<void> {
+        this.alive = false;
+        this.abortController.abort();
+    }
+}
+
+// ============================================
+// Streamable HTTP
+// ============================================
+
+/**
+ * Streamable HTTP transport (MCP 2025-03-26): every message is POSTed to a
+ * single endpoint and the server answers with JSON or a short SSE stream.
+ * The session ID assigned on initialize is sent with every later request.
+ */
+export class StreamableHttpTransport implements McpTransport {
+    readonly type = 'http' as const;
+    private abortController = new AbortController();
+    private sessionId: string | null = null;
+    private protocolVersion: string | null = null;
+    private alive = false;
+
+    constructor(
+        private readonly options: HttpTransportOptions,
+        private readonly handlers: McpTransportHandlers
+    ) { }
+
+    async start(): Promise<void> {
+        // Nothing to open: the first POST (initialize) establishes the session
+        this.alive = true;
+    }
+
+    setProtocolVersion(version: string): void {
+        this.protocolVersion = version;
+    }
+
+    private buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            ...this.options.headers,
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+        };
+        if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId;
+        if (this.protocolVersion) headers['MCP-Protocol-Version'] = this.protocolVersion;
+        return headers;
+    }
+
+    /**
+     * Open the optional GET stream the server uses for notifications
+     * (tools/list_changed, logging, ...). Servers may answer 405 when they
+     * don't offer one; that is not an error.
+     */
+    listen(): void {
+        if (!this.alive) return;
+
+        const headers = this.buildHeaders();
+        delete headers['Content-Type'];
+        headers.Accept = 'text/event-stream';
+
+        fetch(this.options.url, { method: 'GET', headers, signal: this.abortController.signal })
+            .then(async (response) => {
+                if (!response.ok || !response.body) {
+                    this.handlers.log(`No notification stream (HTTP ${response.status})`);
+                    await response.body?.cancel().catch(() => {});
+                    return;
+                }
+                await readSseStream(response.body, (event) => {
+                    if (event.event !== 'message') return;
+                    try {
+                        this.deliver(JSON.parse(event.data));
+                    } catch (error) {
+                        this.handlers.log('JSON parse error:', error);
+                    }
+                });
+                this.handlers.log('Notification stream closed');
+            })
+            .catch((error: Error) => {
+                if (error.name !== 'AbortError') {
+                    this.handlers.log('Notification stream error:', error.message);
+                }
+            });
+    }
+
+    private deliver(payload: unknown): void {
+        // A response body may hold a single message or a JSON-RPC batch
+        for (const message of Array.isArray(payload) ? payload : [payload]) {
+            this.handlers.onMessage(message);
+        }
+    }
+
+    async send(message: unknown): Promise<void> {
+        if (!this.alive) {
+            throw new Error('HTTP connection is closed');
+        }
+
+        const response = await fetch(this.options.url, {
+            method: 'POST',
+            headers: this.buildHeaders(),
+            body: JSON.stringify(message),
+            signal: this.abortController.signal,
+        });
+
+        const sessionId = response.headers.get('mcp-session-id');
+        if (sessionId) this.sessionId = sessionId;
+
+        if (response.status === 404 && this.sessionId) {
+            // The server dropped our session; a reconnect starts a new one
+            this.alive = false;
+            this.handlers.onClose('Session expired');
+            throw new Error('MCP session expired (HTTP 404)');
+        }
+        if (!response.ok) {
+            throw await httpError(response, 'POST');
+        }
+
+        // Notifications are acknowledged with 202 and no body
+        if (response.status === 202 || !response.body) {
+            await response.text().catch(() => '');
+            return;
+        }
+
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType.includes('text/event-stream')) {
+            // Keep reading in the background; responses are delivered as they arrive
+            readSseStream(response.body, (event) => {
+                if (event.event !== 'message') return;
+                try {
+                    this.deliver(JSON.parse(event.data));
+                } catch (error) {
+                    this.handlers.log('JSON parse error:', error);
+                }
+            }).catch((error: Error) => {
+                if (error.name !== 'AbortError') {
+                    this.handlers.log('SSE response stream error:', error.message);
+                }
+            });
+            return;
+        }
+
+        const text = await response.text();
+        if (!text.trim()) return;
+        try {
+            this.deliver(JSON.parse(text));
+        } catch (error) {
+            this.handlers.log('JSON parse error:', error);
+        }
+    }
+
+    isAlive(): boolean {
+        return this.alive;
+    }
+
+    async close(): Promise<void> {
+        if (!this.alive) return;
+        this.alive = false;
+        this.abortController.abort();
+
+        // Tell the server the session is over (best-effort)
+        if (this.sessionId) {
+            try {
+                await fetch(this.options.url, {
+                    method: 'DELETE',
+                    headers: { ...this.options.headers, 'Mcp-Session-Id': this.sessionId },
+                    signal: AbortSignal.timeout(2000),
+                });
+            } catch {
+                // Ignore: the server may already be gone
+            }
+        }
+    }
+}
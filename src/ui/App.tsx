@@ -4,11 +4,19 @@
  * Supports both inline and fullscreen modes with keyboard scrolling
  */
 
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { Box, Text, useApp, useInput, useStdout } from 'ink';
-import { Header, InputArea, Spinner, StreamingText, ToolCallIndicator, ScrollableBox, MarkdownText } from './components/index.js';
+import { Header, InputArea, Spinner, StreamingText, ToolCallIndicator, ScrollableBox, MarkdownText, ApprovalPrompt, McpStatus } from './components/index.js';
 import { useAgentStream, useCommands } from './hooks/index.js';
 import type { McpState, McpToolResult } from '../agent/types.js';
+import { setApprovalHandler, type ApprovalDecision, type ApprovalRequest } from '../mcp/permissions.js';
+import type { McpClient, McpClientEvent } from '../mcp/client.js';
+import { getPromptCommands, expandPromptCommand } from '../mcp/prompts.js';
+import { runPluginCommand } from '../mcp/plugins.js';
+import { formatToolCollision } from '../mcp/namespacing.js';
+import { onReloginRequired } from '../api/token.js';
+import { SessionTranscript } from '../agent/sessions.js';
+import type { CliModelTier } from '../agent/provider.js';
 
 export interface AppProps {
     mcpState?: McpState;
@@ -20,13 +28,23 @@ export interface AppProps {
     ) => Promise<McpToolResult>;
     debug?: boolean;
     fullscreen?: boolean;
+    /** Connected MCP client, for prompt commands and @server:uri attachments */
+    mcpClient?: McpClient;
+    /** Stored session to continue (--resume / --continue) */
+    session?: SessionTranscript;
+    /** Initial model tier (switched with /model) */
+    modelTier?: CliModelTier;
 }
 
-export const App: React.FC<AppProps> = ({ mcpState, onMcpToolCall, debug: _debug = false, fullscreen = false }) => {
+export const App: React.FC<AppProps> = ({ mcpState: initialMcpState, onMcpToolCall, debug = false, fullscreen = false, mcpClient, session, modelTier: initialModelTier }) => {
     const { exit } = useApp();
     const { stdout } = useStdout();
     const [commandOutput, setCommandOutput] = useState<string | null>(null);
     const [commandSuggestions, setCommandSuggestions] = useState<string[]>([]);
+    const [pendingApproval, setPendingApproval] = useState<{
+        request: ApprovalRequest;
+        resolve: (decision: ApprovalDecision) => void;
+    } | null>(null);
 
     // Terminal dimensions
     const terminalHeight = stdout?.rows || 24;
@@ -36,15 +54,64 @@ export const App: React.FC<AppProps> = ({ mcpState, onMcpToolCall, debug: _debug
     // Reserve space for: header (3) + input area (3) + footer (1) = 7 lines
     const contentHeight = fullscreen ? Math.max(terminalHeight - 7, 10) : 20;
 
+    // MCP state and prompt commands follow server status changes (servers
+    // connect in the background) and list_changed notifications
+    const [mcpState, setMcpState] = useState(initialMcpState);
+    const [serverStates, setServerStates] = useState(() => mcpClient?.getServerStates() ?? []);
+    const [mcpWarnings, setMcpWarnings] = useState<string[]>([]);
+    const [promptsVersion, setPromptsVersion] = useState(0);
+    useEffect(() => {
+        if (!mcpClient) return;
+        const listener = (event: McpClientEvent) => {
+            if (event.type === 'server_status') {
+                setMcpState(mcpClient.getMcpState());
+                setServerStates(mcpClient.getServerStates());
+                setMcpWarnings(mcpClient.getToolCollisions()
+                    .filter(collision => collision.kind === 'renamed')
+                    .map(formatToolCollision));
+                setPromptsVersion(version => version + 1);
+            } else if (event.type === 'warning') {
+                setMcpWarnings(warnings => [...warnings, event.message]);
+            } else if (event.type === 'tools_changed') {
+                setMcpState(mcpClient.getMcpState());
+            } else if (event.type === 'prompts_changed') {
+                setPromptsVersion(version => version + 1);
+            }
+        };
+        mcpClient.on('event', listener);
+        // Catch up on servers that connected before the listener was added
+        setMcpState(mcpClient.getMcpState());
+        setServerStates(mcpClient.getServerStates());
+        return () => {
+            mcpClient.off('event', listener);
+        };
+    }, [mcpClient]);
+
+    // Tell the user when the session can no longer be refreshed
+    useEffect(() => onReloginRequired((message) => setCommandOutput(message)), []);
+
     // Calculate MCP tool count
     const mcpToolCount = mcpState?.mcpServers?.reduce(
         (sum, server) => sum + (server.tools?.length || 0),
         0
     );
 
+    // Slash commands for MCP server prompts
+    const promptCommands = useMemo(
+        () => mcpClient ? getPromptCommands(mcpClient) : [],
+        [mcpClient, promptsVersion]
+    );
+
+    // Transcript for /history, /export and --resume
+    const [transcript] = useState(() => session ?? SessionTranscript.create());
+
     // Initialize hooks
-    const { rawMode, handleCommand, getCompletions } = useCommands({
+    const { rawMode, modelTier, handleCommand, getCompletions } = useCommands({
         mcpServers: mcpState?.mcpServers,
+        serverStates,
+        promptCommands,
+        modelTier: initialModelTier,
+        transcript,
     });
 
     const {
@@ -52,17 +119,40 @@ export const App: React.FC<AppProps> = ({ mcpState, onMcpToolCall, debug: _debug
         isProcessing,
         currentToolCall,
         streamingText,
+        reconnectStatus,
         sendMessage,
         abort,
     } = useAgentStream({
         mcpState,
         onMcpToolCall,
         cliMode: rawMode,
+        modelTier,
+        mcpClient,
+        debug,
+        transcript,
     });
 
+    // Ask the user before guarded system tools run
+    useEffect(() => {
+        setApprovalHandler((request) => new Promise<ApprovalDecision>((resolve) => {
+            setPendingApproval({ request, resolve });
+        }));
+        return () => setApprovalHandler(null);
+    }, []);
+
+    const handleApprovalDecision = useCallback((decision: ApprovalDecision) => {
+        setPendingApproval((current) => {
+            current?.resolve(decision);
+            return null;
+        });
+    }, []);
+
     // Handle Ctrl+C
     useInput((input, key) => {
         if (key.ctrl && input === 'c') {
+            if (pendingApproval) {
+                handleApprovalDecision('deny');
+            }
             if (isProcessing) {
                 abort();
             } else {
@@ -103,6 +193,25 @@ export const App: React.FC<AppProps> = ({ mcpState, onMcpToolCall, debug: _debug
                     exit();
                     return;
                 }
+                if (result.action === 'prompt' && result.prompt && mcpClient) {
+                    const { command, rawArgs } = result.prompt;
+                    expandPromptCommand(mcpClient, command, rawArgs)
+                        .then(message => sendMessage(message))
+                        .catch((err: Error) => setCommandOutput(`  ${command.name}: ${err.message}`));
+                    return;
+                }
+                if (result.action === 'plugin' && result.plugin) {
+                    runPluginCommand(result.plugin.name, result.plugin.rawArgs)
+                        .then((output) => {
+                            if (output && typeof output === 'object') {
+                                sendMessage(output.message);
+                            } else if (output) {
+                                setCommandOutput(output);
+                            }
+                        })
+                        .catch((err: Error) => setCommandOutput(`  ${err.message}`));
+                    return;
+                }
                 if (result.output) {
                     setCommandOutput(result.output);
                 }
@@ -111,7 +220,7 @@ export const App: React.FC<AppProps> = ({ mcpState, onMcpToolCall, debug: _debug
         }
 
         sendMessage(input);
-    }, [handleCommand, sendMessage, exit]);
+    }, [handleCommand, sendMessage, exit, mcpClient]);
 
     // Memoize message content (expensive renders)
     const messageContent = useMemo(() => (
@@ -141,6 +250,16 @@ export const App: React.FC<AppProps> = ({ mcpState, onMcpToolCall, debug: _debug
                 </Box>
             )}
 
+            {/* Tool Approval Prompt */}
+            {pendingApproval && (
+                <Box marginBottom={1}>
+                    <ApprovalPrompt
+                        request={pendingApproval.request}
+                        onDecision={handleApprovalDecision}
+                    />
+                </Box>
+            )}
+
             {/* Current Tool Call */}
             {currentToolCall && (
                 <Box marginBottom={1}>
@@ -149,6 +268,8 @@ export const App: React.FC<AppProps> = ({ mcpState, onMcpToolCall, debug: _debug
                         type={currentToolCall.type}
                         serverName={currentToolCall.serverName}
                         status="pending"
+                        output={currentToolCall.output}
+                        progress={currentToolCall.progress}
                     />
                 </Box>
             )}
@@ -164,6 +285,13 @@ export const App: React.FC<AppProps> = ({ mcpState, onMcpToolCall, debug: _debug
                 </Box>
             )}
 
+            {/* Dropped stream being resumed */}
+            {isProcessing && reconnectStatus && (
+                <Box marginBottom={1}>
+                    <Text color="yellow">⚠ {reconnectStatus}</Text>
+                </Box>
+            )}
+
             {/* Loading Spinner */}
             {isProcessing && !streamingText && !currentToolCall && (
                 <Box marginBottom={1}>
@@ -171,7 +299,7 @@ export const App: React.FC<AppProps> = ({ mcpState, onMcpToolCall, debug: _debug
                 </Box>
             )}
         </>
-    ), [messages, commandOutput, currentToolCall, isProcessing, streamingText, rawMode, terminalWidth]);
+    ), [messages, commandOutput, pendingApproval, handleApprovalDecision, currentToolCall, isProcessing, streamingText, reconnectStatus, rawMode, terminalWidth]);
 
     return (
         <Box flexDirection="column" flexGrow={1} padding={fullscreen ? 0 : 1}>
@@ -194,6 +322,9 @@ export const App: React.FC<AppProps> = ({ mcpState, onMcpToolCall, debug: _debug
                 </Box>
             )}
 
+            {/* MCP servers still connecting or unavailable */}
+            <McpStatus servers={serverStates} warnings={mcpWarnings} />
+
             {/* Input Area */}
             <InputArea
                 onSubmit={handleSubmit}
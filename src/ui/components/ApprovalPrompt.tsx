@@ -0,0 +1,41 @@
+/**
+ * ApprovalPrompt Component
+ * Asks the user to approve a guarded system tool call
+ */
+
+import React from 'react';
+import { Box, Text, useInput } from 'ink';
+import { parseApprovalAnswer, type ApprovalDecision, type ApprovalRequest } from '../../mcp/permissions.js';
+
+interface ApprovalPromptProps {
+    request: ApprovalRequest;
+    onDecision: (decision: ApprovalDecision) => void;
+}
+
+export const ApprovalPrompt: React.FC<ApprovalPromptProps> = ({ request, onDecision }) => {
+    useInput((input, key) => {
+        if (key.escape) {
+            onDecision('deny');
+            return;
+        }
+        if (['y', 's', 'p', 'n'].includes(input.toLowerCase())) {
+            onDecision(parseApprovalAnswer(input));
+        }
+    });
+
+    return (
+        <Box flexDirection="column" borderStyle="round" borderColor="yellow" paddingX={1}>
+            <Box>
+                <Text color="yellow" bold>⚠ Permission required </Text>
+                <Text dimColor>({request.toolName})</Text>
+            </Box>
+            <Text>{request.summary}</Text>
+            <Box marginTop={1}>
+                <Text color="cyan">[y]</Text><Text dimColor> once  </Text>
+                <Text color="cyan">[s]</Text><Text dimColor> session  </Text>
+                <Text color="cyan">[p]</Text><Text dimColor> always for project  </Text>
+                <Text color="cyan">[n]</Text><Text dimColor> deny</Text>
+            </Box>
+        </Box>
+    );
+};
@@ -0,0 +1,48 @@
+/**
+ * McpStatus Component
+ * Shows MCP servers that are still connecting, reconnecting or have failed,
+ * and warnings such as tool name clashes
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import InkSpinner from 'ink-spinner';
+import type { McpServerState } from '../../mcp/client.js';
+
+interface McpStatusProps {
+    servers: McpServerState[];
+    warnings?: string[];
+}
+
+export const McpStatus: React.FC<McpStatusProps> = ({ servers, warnings = [] }) => {
+    const pending = servers.filter(server => server.status !== 'connected');
+    if (pending.length === 0 && warnings.length === 0) return null;
+
+    return (
+        <Box flexDirection="column" marginBottom={1}>
+            {pending.map((server) => {
+                if (server.status === 'connecting' || server.status === 'reconnecting') {
+                    const retry = server.status === 'reconnecting'
+                        ? ` reconnecting (attempt ${server.attempt})`
+                        : ' connecting...';
+                    return (
+                        <Text key={server.name} color="yellow">
+                            <InkSpinner type="dots" />
+                            <Text> MCP {server.name}</Text>
+                            <Text dimColor>{retry}</Text>
+                        </Text>
+                    );
+                }
+                return (
+                    <Text key={server.name} color="red">
+                        ✗ MCP {server.name} {server.status}
+                        {server.error ? <Text dimColor>: {server.error}</Text> : null}
+                    </Text>
+                );
+            })}
+            {warnings.map((warning, index) => (
+                <Text key={`warning-${index}`} color="yellow">⚠ {warning}</Text>
+            ))}
+        </Box>
+    );
+};
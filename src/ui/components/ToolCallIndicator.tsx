@@ -12,32 +12,46 @@ interface ToolCallIndicatorProps {
     type?: 'tool' | 'mcp';
     serverName?: string;
     status?: 'pending' | 'completed' | 'error';
+    /** Live output shown below the indicator (e.g. a running shell command) */
+    output?: string;
+    /** Progress reported by the server, shown after the name */
+    progress?: string;
 }
 
 export const ToolCallIndicator: React.FC<ToolCallIndicatorProps> = ({
     name,
     type = 'tool',
     serverName,
-    status = 'pending'
+    status = 'pending',
+    output,
+    progress,
 }) => {
     const icon = type === 'mcp' ? '🔌' : '🔧';
     const color = status === 'error' ? 'red' : status === 'completed' ? 'green' : 'cyan';
     const statusIcon = status === 'completed' ? '✓' : status === 'error' ? '✗' : null;
 
+    const outputLines = output?.trimEnd().split('\n').slice(-5) ?? [];
+
     return (
-        <Box>
-            {status === 'pending' ? (
-                <Text color={color}>
-                    <InkSpinner type="dots" />
-                </Text>
-            ) : (
-                <Text color={color}>{statusIcon}</Text>
-            )}
-            <Text dimColor> {icon} </Text>
-            {serverName && <Text color="yellow">{serverName}</Text>}
-            {serverName && <Text dimColor> → </Text>}
-            <Text color="cyan">{name}</Text>
-            {status === 'pending' && <Text dimColor>...</Text>}
+        <Box flexDirection="column">
+            <Box>
+                {status === 'pending' ? (
+                    <Text color={color}>
+                        <InkSpinner type="dots" />
+                    </Text>
+                ) : (
+                    <Text color={color}>{statusIcon}</Text>
+                )}
+                <Text dimColor> {icon} </Text>
+                {serverName && <Text color="yellow">{serverName}</Text>}
+                {serverName && <Text dimColor> → </Text>}
+                <Text color="cyan">{name}</Text>
+                {status === 'pending' && <Text dimColor>...</Text>}
+                {status === 'pending' && progress && <Text dimColor> {progress}</Text>}
+            </Box>
+            {outputLines.map((line, index) => (
+                <Text key={index} dimColor wrap="truncate-end">  {line}</Text>
+            ))}
         </Box>
     );
 };
@@ -9,3 +9,5 @@ export { StreamingText } from './StreamingText.js';
 export { ToolCallIndicator } from './ToolCallIndicator.js';
 export { ScrollableBox } from './ScrollableBox.js';
 export { MarkdownText, PlainText } from './MarkdownText.js';
+export { ApprovalPrompt } from './ApprovalPrompt.js';
+export { McpStatus } from './McpStatus.js';
@@ -9,6 +9,11 @@ import { agentService } from '../../agent/service.js';
 import type { McpState, McpToolResult, AgentStreamCallbacks } from '../../agent/types.js';
 import { onLoopPrompt, setAgentBusyChecker } from '../../mcp/loop.js';
 import { onContextAction, consumeCompactSummary } from '../../mcp/context-tools.js';
+import { onShellOutput, abortShellCommands } from '../../mcp/system.js';
+import { auditToolCall } from '../../mcp/audit.js';
+import { expandResourceMentions } from '../../mcp/attachments.js';
+import type { McpClient, McpClientEvent } from '../../mcp/client.js';
+import { SessionTranscript, getConversationHistory } from '../../agent/sessions.js';
 
 export interface Message {
     id: string;
@@ -34,36 +39,86 @@ export interface UseAgentStreamOptions {
     ) => Promise<McpToolResult>;
     cliMode?: boolean;
     modelTier?: 'lite' | 'flash' | 'pro';
+    /** Connected MCP client, for @server:uri attachments and server notifications */
+    mcpClient?: McpClient;
+    /** Show MCP server log messages under the tool call indicator */
+    debug?: boolean;
+    /** Transcript to record the session in (a stored one when resuming) */
+    transcript?: SessionTranscript;
+}
+
+export interface CurrentToolCall {
+    name: string;
+    type: 'tool' | 'mcp';
+    serverName?: string;
+    callId?: string;
+    /** Most recent output lines of a running shell command */
+    output?: string;
+    /** Latest progress reported by the MCP server, e.g. "40% Indexing files" */
+    progress?: string;
 }
 
 export interface UseAgentStreamReturn {
     messages: Message[];
     isProcessing: boolean;
-    currentToolCall: { name: string; type: 'tool' | 'mcp'; serverName?: string } | null;
+    currentToolCall: CurrentToolCall | null;
     streamingText: string;
+    /** Shown while the stream is being resumed after a dropped connection */
+    reconnectStatus: string | null;
     sendMessage: (message: string) => Promise<void>;
     abort: () => void;
 }
 
 const MAX_MESSAGE_HISTORY = 100;
 
+/** Lines of live shell output kept for the tool call indicator */
+const LIVE_OUTPUT_LINES = 5;
+
 function trimMessages(msgs: Message[]): Message[] {
     if (msgs.length <= MAX_MESSAGE_HISTORY) return msgs;
     return msgs.slice(msgs.length - MAX_MESSAGE_HISTORY);
 }
 
+/**
+ * Messages already in the transcript (of a resumed session)
+ */
+function transcriptMessages(transcript: SessionTranscript | undefined): Message[] {
+    const messages: Message[] = [];
+    for (const [index, record] of (transcript?.getRecords() ?? []).entries()) {
+        if (record.type !== 'message') continue;
+        messages.push({
+            id: `${record.role}-resumed-${index}`,
+            role: record.role === 'user' ? 'user' : 'assistant',
+            content: record.role === 'error' ? `Error: ${record.content}` : record.content,
+        });
+    }
+    return trimMessages(messages);
+}
+
 export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStreamReturn {
-    const { mcpState, onMcpToolCall, cliMode = false, modelTier } = options;
+    const { mcpState, onMcpToolCall, cliMode = false, modelTier, mcpClient, debug = false } = options;
 
-    const [messages, setMessages] = useState<Message[]>([]);
+    const [messages, setMessages] = useState<Message[]>(() => transcriptMessages(options.transcript));
     const [isProcessing, setIsProcessing] = useState(false);
-    const [currentToolCall, setCurrentToolCall] = useState<{ name: string; type: 'tool' | 'mcp'; serverName?: string } | null>(null);
+    const [currentToolCall, setCurrentToolCall] = useState<CurrentToolCall | null>(null);
     const [streamingText, setStreamingText] = useState('');
+    const [reconnectStatus, setReconnectStatus] = useState<string | null>(null);
 
-    const conversationIdRef = useRef<string | undefined>(undefined);
+    const conversationIdRef = useRef<string | undefined>(options.transcript?.conversationId ?? undefined);
+    const transcriptRef = useRef<SessionTranscript | null>(options.transcript ?? null);
+    if (!transcriptRef.current) {
+        transcriptRef.current = SessionTranscript.create();
+    }
+    const transcript = transcriptRef.current;
+    // Conversation of a resumed session, for providers that keep history in memory
+    const [resumed] = useState(() => options.transcript?.conversationId
+        ? { conversationId: options.transcript.conversationId, history: getConversationHistory(options.transcript) }
+        : null);
     const abortRef = useRef<(() => void) | null>(null);
+    const activeToolCallsRef = useRef(new Set<string>());
 
     const abort = useCallback(() => {
+        abortShellCommands(activeToolCallsRef.current);
         if (abortRef.current) {
             abortRef.current();
             abortRef.current = null;
@@ -71,23 +126,40 @@ export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStr
         setIsProcessing(false);
         setCurrentToolCall(null);
         setStreamingText('');
+        setReconnectStatus(null);
     }, []);
 
     const sendMessage = useCallback(async (message: string) => {
+        // Attach resources mentioned as @server:uri
+        let outgoing = message;
+        let displayed = message;
+        if (mcpClient) {
+            const expanded = await expandResourceMentions(message, mcpClient);
+            outgoing = expanded.message;
+            const notes = [
+                ...expanded.attached.map(mention => `📎 ${mention.raw}`),
+                ...expanded.errors.map(error => `⚠ Could not attach ${error}`),
+            ];
+            if (notes.length > 0) {
+                displayed = `${message}\n${notes.join('\n')}`;
+            }
+        }
+
         // If there's a pending compact summary from a previous paean_context_compact
         // call, prepend it so the new conversation starts with context.
         const compactSummary = consumeCompactSummary();
         const effectiveMessage = compactSummary
-            ? `[Context from previous conversation]\n${compactSummary}\n\n[New message]\n${message}`
-            : message;
+            ? `[Context from previous conversation]\n${compactSummary}\n\n[New message]\n${outgoing}`
+            : outgoing;
 
         // Add user message
         const userMessageId = `user-${Date.now()}`;
         setMessages(prev => trimMessages([...prev, {
             id: userMessageId,
             role: 'user',
-            content: message,
+            content: displayed,
         }]));
+        transcript.recordMessage('user', displayed);
 
         setIsProcessing(true);
         setStreamingText('');
@@ -96,6 +168,7 @@ export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStr
 
         const callbacks: AgentStreamCallbacks = {
             onContent: (text, partial) => {
+                setReconnectStatus(null);
                 if (partial) {
                     responseText += text;
                 } else {
@@ -105,6 +178,7 @@ export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStr
             },
 
             onToolCall: (_id, name) => {
+                setReconnectStatus(null);
                 setCurrentToolCall({ name, type: 'tool' });
             },
 
@@ -113,19 +187,30 @@ export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStr
             },
 
             onMcpToolCall: async (callId, serverName, toolName, args) => {
-                setCurrentToolCall({ name: toolName, type: 'mcp', serverName });
+                setReconnectStatus(null);
+                setCurrentToolCall({ name: toolName, type: 'mcp', serverName, callId });
 
                 if (onMcpToolCall) {
+                    activeToolCallsRef.current.add(callId);
+                    transcript.recordToolCall(callId, serverName, toolName, args);
                     try {
-                        const result = await onMcpToolCall(callId, serverName, toolName, args);
+                        const result = await auditToolCall(
+                            { channel: 'cli', conversationId: conversationIdRef.current, callId, serverName, toolName, args },
+                            () => onMcpToolCall(callId, serverName, toolName, args),
+                        );
                         setCurrentToolCall(null);
+                        transcript.recordToolResult(callId, toolName, result);
                         return result;
                     } catch (error) {
                         setCurrentToolCall(null);
-                        return {
+                        const result: McpToolResult = {
                             content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }],
                             isError: true,
                         };
+                        transcript.recordToolResult(callId, toolName, result);
+                        return result;
+                    } finally {
+                        activeToolCallsRef.current.delete(callId);
                     }
                 }
 
@@ -138,6 +223,8 @@ export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStr
 
             onDone: (convId) => {
                 conversationIdRef.current = convId;
+                transcript.recordMessage('assistant', responseText);
+                transcript.recordConversation(convId ?? null);
 
                 // Add assistant message
                 const assistantMessageId = `assistant-${Date.now()}`;
@@ -150,10 +237,13 @@ export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStr
                 setIsProcessing(false);
                 setCurrentToolCall(null);
                 setStreamingText('');
+                setReconnectStatus(null);
                 abortRef.current = null;
             },
 
             onError: (error) => {
+                transcript.recordMessage('error', error);
+
                 // Add error as assistant message
                 const errorMessageId = `error-${Date.now()}`;
                 setMessages(prev => trimMessages([...prev, {
@@ -165,8 +255,15 @@ export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStr
                 setIsProcessing(false);
                 setCurrentToolCall(null);
                 setStreamingText('');
+                setReconnectStatus(null);
                 abortRef.current = null;
             },
+
+            onReconnect: (attempt, delayMs) => {
+                setReconnectStatus(
+                    `Connection lost, reconnecting in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt})...`
+                );
+            },
         };
 
         try {
@@ -175,12 +272,13 @@ export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStr
                 mcpState,
                 cliMode: cliMode ? { enabled: true, cwd: process.cwd(), platform: process.platform, hostname: os.hostname(), channel: 'cli' } : undefined,
                 modelTier,
+                history: resumed && resumed.conversationId === conversationIdRef.current ? resumed.history : undefined,
             });
             abortRef.current = abortFn;
         } catch (error) {
             callbacks.onError?.((error as Error).message);
         }
-    }, [mcpState, onMcpToolCall, cliMode]);
+    }, [mcpState, onMcpToolCall, cliMode, modelTier, mcpClient, resumed]);
 
     // Register agent-busy checker so the cron scheduler knows when to skip
     const isProcessingRef = useRef(isProcessing);
@@ -201,7 +299,6 @@ export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStr
             if (!isProcessingRef.current) {
                 if (event.clear) {
                     conversationIdRef.current = undefined;
-                    setConversationId(undefined);
                 }
                 sendMessage(`[Scheduled task execution] ${event.prompt}`);
             }
@@ -209,6 +306,43 @@ export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStr
         return unsubscribe;
     }, [sendMessage]);
 
+    // Show the tail of a running shell command's output under its indicator
+    useEffect(() => {
+        const unsubscribe = onShellOutput((event) => {
+            setCurrentToolCall(prev => {
+                if (!prev || !event.callId || prev.callId !== event.callId) return prev;
+                const lines = `${prev.output ?? ''}${event.chunk}`.split(/\r?\n/);
+                return { ...prev, output: lines.slice(-LIVE_OUTPUT_LINES - 1).join('\n') };
+            });
+        });
+        return unsubscribe;
+    }, []);
+
+    // Show MCP progress (and log messages in debug mode) on the running tool call
+    useEffect(() => {
+        if (!mcpClient) return;
+        const listener = (event: McpClientEvent) => {
+            if (event.type === 'progress') {
+                const percent = event.total ? `${Math.round((event.progress / event.total) * 100)}%` : `${event.progress}`;
+                setCurrentToolCall(prev => {
+                    if (!prev || !event.callId || prev.callId !== event.callId) return prev;
+                    return { ...prev, progress: event.message ? `${percent} ${event.message}` : percent };
+                });
+            } else if (event.type === 'log' && debug) {
+                setCurrentToolCall(prev => {
+                    if (!prev || prev.type !== 'mcp') return prev;
+                    const line = `[${event.serverName} ${event.level}] ${event.message}`;
+                    const lines = [...(prev.output ? prev.output.split('\n') : []), line];
+                    return { ...prev, output: lines.slice(-LIVE_OUTPUT_LINES).join('\n') };
+                });
+            }
+        };
+        mcpClient.on('event', listener);
+        return () => {
+            mcpClient.off('event', listener);
+        };
+    }, [mcpClient, debug]);
+
     // Subscribe to context management events (clear / compact)
     useEffect(() => {
         const unsubscribe = onContextAction((event) => {
@@ -229,6 +363,7 @@ export function useAgentStream(options: UseAgentStreamOptions = {}): UseAgentStr
         isProcessing,
         currentToolCall,
         streamingText,
+        reconnectStatus,
         sendMessage,
         abort,
     };
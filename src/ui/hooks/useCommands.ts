@@ -4,15 +4,39 @@
  */
 
 import { useCallback, useState } from 'react';
+import { listBackgroundJobs } from '../../mcp/jobs.js';
+import { findPromptCommand, formatPromptUsage, type PromptCommand } from '../../mcp/prompts.js';
+import type { McpServerState } from '../../mcp/client.js';
+import { findPluginCommand, getLoadedPlugins, getPluginCommands, formatPluginSummary } from '../../mcp/plugins.js';
+import { getSessionHistoryPage, type SessionTranscript } from '../../agent/sessions.js';
+import { exportSession, parseExportArgs } from '../../agent/session-export.js';
+import {
+    CLI_MODEL_TIERS,
+    getInferenceProviderName,
+    isCliModelTier,
+    type CliModelTier,
+} from '../../agent/provider.js';
 
 export interface CommandResult {
     handled: boolean;
     output?: string;
-    action?: 'exit' | 'clear' | 'toggle-raw' | 'toggle-debug';
+    action?: 'exit' | 'clear' | 'toggle-raw' | 'toggle-debug' | 'prompt' | 'plugin' | 'model';
+    /** MCP prompt to expand and send (action 'prompt') */
+    prompt?: { command: PromptCommand; rawArgs: string };
+    /** Plugin command to run (action 'plugin') */
+    plugin?: { name: string; rawArgs: string };
 }
 
 export interface UseCommandsOptions {
     mcpServers?: Array<{ name: string; tools?: Array<{ name: string }> }>;
+    /** Status of every configured server, including those not connected */
+    serverStates?: McpServerState[];
+    /** Slash commands backed by MCP server prompts */
+    promptCommands?: PromptCommand[];
+    /** Initial model tier (switched with /model) */
+    modelTier?: CliModelTier;
+    /** Transcript of the session, for /history and /export */
+    transcript?: SessionTranscript;
     onToggleRaw?: () => void;
     onToggleDebug?: () => void;
     onExit?: () => void;
@@ -22,17 +46,20 @@ export interface UseCommandsOptions {
 export interface UseCommandsReturn {
     rawMode: boolean;
     debugMode: boolean;
+    modelTier: CliModelTier;
     handleCommand: (input: string) => CommandResult;
     getHelp: () => string;
     getMcpStatus: () => string;
+    getJobsStatus: () => string;
     getCompletions: (partial: string) => string[];
 }
 
 export function useCommands(options: UseCommandsOptions = {}): UseCommandsReturn {
-    const { mcpServers = [] } = options;
+    const { mcpServers = [], serverStates = [], promptCommands = [], transcript } = options;
 
     const [rawMode, setRawMode] = useState(false);
     const [debugMode, setDebugMode] = useState(false);
+    const [modelTier, setModelTier] = useState<CliModelTier>(options.modelTier ?? 'flash');
 
     // Available commands for completion
     const COMMANDS = [
@@ -41,10 +68,21 @@ export function useCommands(options: UseCommandsOptions = {}): UseCommandsReturn
         '/help', '/h', '/?',
         '/debug',
         '/mcp',
+        '/jobs',
         '/raw',
+        '/model',
+        '/history',
+        '/export',
     ];
 
     const getHelp = useCallback(() => {
+        const prompts = promptCommands.length > 0
+            ? `\n  MCP Prompts:\n\n${promptCommands.map(c => `    ${formatPromptUsage(c)}\n      ${c.description}`).join('\n')}\n`
+            : '';
+        const pluginCommands = getPluginCommands();
+        const plugins = pluginCommands.length > 0
+            ? `\n  Plugin Commands:\n\n${pluginCommands.map(c => `    ${c.name.padEnd(12)} ${c.command.description || `From plugin ${c.plugin}`}`).join('\n')}\n`
+            : '';
         return `
   Available Commands:
 
@@ -54,14 +92,20 @@ export function useCommands(options: UseCommandsOptions = {}): UseCommandsReturn
     /help        Show available commands (/h, /?)
     /debug       Toggle debug mode
     /mcp         Show MCP connection status
+    /jobs        List background jobs
     /raw         Toggle raw output mode (no markdown)
-
+    /model       Show or switch the model tier (lite, flash, pro)
+    /history     Page through this session (/history <page>)
+    /export      Save this session to a file (/export md|json|html [path])
+${prompts}${plugins}
   Press Tab after / to autocomplete commands
 `;
-    }, []);
+    }, [promptCommands]);
 
     const getMcpStatus = useCallback(() => {
-        if (mcpServers.length === 0) {
+        const unavailable = serverStates.filter(state => state.status !== 'connected');
+        const plugins = getLoadedPlugins();
+        if (mcpServers.length === 0 && unavailable.length === 0 && plugins.length === 0) {
             return '\n  No MCP servers connected\n';
         }
 
@@ -70,8 +114,77 @@ export function useCommands(options: UseCommandsOptions = {}): UseCommandsReturn
             const toolCount = server.tools?.length || 0;
             status += `    ${server.name}: ${toolCount} tools\n`;
         }
+        for (const state of unavailable) {
+            status += `    ${state.name}: ${state.status}${state.error ? ` (${state.error})` : ''}\n`;
+        }
+        if (plugins.length > 0) {
+            status += '\n  Plugins:\n\n';
+            for (const plugin of plugins) {
+                status += `    ${formatPluginSummary(plugin)}\n`;
+            }
+        }
         return status;
-    }, [mcpServers]);
+    }, [mcpServers, serverStates]);
+
+    const getJobsStatus = useCallback(() => {
+        const jobs = listBackgroundJobs();
+        if (jobs.length === 0) {
+            return '\n  No background jobs\n';
+        }
+
+        let status = '\n  Background Jobs:\n\n';
+        for (const job of jobs) {
+            const state = job.status === 'running'
+                ? `running, PID ${job.pid}`
+                : job.signal ? `${job.status} (${job.signal})` : `${job.status} (exit ${job.exitCode ?? '?'})`;
+            status += `    ${job.id}  ${job.command}\n      ${state} · ${job.logFile}\n`;
+        }
+        return status;
+    }, []);
+
+    const getHistory = useCallback((pageArg?: string) => {
+        const requested = pageArg === undefined ? undefined : parseInt(pageArg, 10);
+        if (requested !== undefined && isNaN(requested)) {
+            return '\n  Usage: /history [page]\n';
+        }
+        if (!transcript) {
+            return '\n  No session history\n';
+        }
+
+        const { entries, page, pageCount, total } = getSessionHistoryPage(transcript, requested);
+        if (total === 0) {
+            return '\n  No messages in this session yet\n';
+        }
+
+        let history = `\n  History (page ${page}/${pageCount}, ${total} entries):\n\n`;
+        for (const entry of entries) {
+            const time = new Date(entry.timestamp).toLocaleTimeString();
+            if (entry.type === 'tool_call') {
+                const status = entry.isError === undefined ? '…' : entry.isError ? '✗' : '✓';
+                history += `    ${time}  ⚡ [${entry.server}] ${entry.tool} ${status}\n`;
+                continue;
+            }
+            const text = entry.content.replace(/\s+/g, ' ').trim();
+            const label = entry.role === 'user' ? 'You' : entry.role === 'assistant' ? 'OpenPaean' : 'Error';
+            history += `    ${time}  ${label.padEnd(9)} ${text.length > 100 ? `${text.slice(0, 97)}...` : text}\n`;
+        }
+        if (page > 1) {
+            history += `\n  /history ${page - 1} for earlier entries\n`;
+        }
+        return history;
+    }, [transcript]);
+
+    const exportTranscript = useCallback((args: string[]) => {
+        if (!transcript) {
+            return '\n  No session to export\n';
+        }
+        try {
+            const { format, path } = parseExportArgs(args);
+            return `\n  Exported session to ${exportSession(transcript, format, path)}\n`;
+        } catch (error) {
+            return `\n  Export failed: ${(error as Error).message}\n`;
+        }
+    }, [transcript]);
 
     // Get command completions for partial input
     const getCompletions = useCallback((partial: string): string[] => {
@@ -79,11 +192,13 @@ export function useCommands(options: UseCommandsOptions = {}): UseCommandsReturn
             return [];
         }
         const lower = partial.toLowerCase();
-        return COMMANDS.filter(cmd => cmd.startsWith(lower));
-    }, []);
+        return [...COMMANDS, ...promptCommands.map(c => c.name), ...getPluginCommands().map(c => c.name)]
+            .filter(cmd => cmd.toLowerCase().startsWith(lower));
+    }, [promptCommands]);
 
     const handleCommand = useCallback((input: string): CommandResult => {
-        const cmd = input.toLowerCase().trim();
+        const [name = '', ...args] = input.trim().split(/\s+/);
+        const cmd = name.toLowerCase();
 
         switch (cmd) {
             case '/exit':
@@ -125,7 +240,39 @@ export function useCommands(options: UseCommandsOptions = {}): UseCommandsReturn
             case '/mcp':
                 return { handled: true, output: getMcpStatus() };
 
-            default:
+            case '/jobs':
+                return { handled: true, output: getJobsStatus() };
+
+            case '/model': {
+                const note = getInferenceProviderName() === 'openai'
+                    ? '\n  The openai provider uses its configured model; tiers apply to Paean AI.'
+                    : '';
+                const tier = args[0]?.toLowerCase();
+                if (!tier) {
+                    return { handled: true, output: `  Model tier: ${modelTier} (available: ${CLI_MODEL_TIERS.join(', ')})${note}` };
+                }
+                if (!isCliModelTier(tier)) {
+                    return { handled: true, output: `  Unknown model tier "${args[0]}". Use one of: ${CLI_MODEL_TIERS.join(', ')}` };
+                }
+                setModelTier(tier);
+                return { handled: true, output: `  Model tier: ${tier}${note}`, action: 'model' };
+            }
+
+            case '/history':
+                return { handled: true, output: getHistory(args[0]) };
+
+            case '/export':
+                return { handled: true, output: exportTranscript(args) };
+
+            default: {
+                const prompt = findPromptCommand(input, promptCommands);
+                if (prompt) {
+                    return { handled: true, action: 'prompt', prompt };
+                }
+                const plugin = findPluginCommand(input);
+                if (plugin) {
+                    return { handled: true, action: 'plugin', plugin };
+                }
                 if (cmd.startsWith('/')) {
                     return {
                         handled: true,
@@ -133,15 +280,18 @@ export function useCommands(options: UseCommandsOptions = {}): UseCommandsReturn
                     };
                 }
                 return { handled: false };
+            }
         }
-    }, [debugMode, rawMode, getHelp, getMcpStatus]);
+    }, [debugMode, rawMode, modelTier, getHelp, getMcpStatus, getJobsStatus, getHistory, exportTranscript, promptCommands]);
 
     return {
         rawMode,
         debugMode,
+        modelTier,
         handleCommand,
         getHelp,
         getMcpStatus,
+        getJobsStatus,
         getCompletions,
     };
 }
@@ -31,6 +31,37 @@ import {
     bold
 } from '../theme/index.js';
 import { onLoopPrompt, setAgentBusyChecker } from '../../mcp/loop.js';
+import { listBackgroundJobs } from '../../mcp/jobs.js';
+import { auditToolCall } from '../../mcp/audit.js';
+import { formatRedactionReport, type RedactionReport } from '../../mcp/redaction.js';
+import type { McpClient, McpClientEvent, McpServerState } from '../../mcp/client.js';
+import { formatToolCollision } from '../../mcp/namespacing.js';
+import {
+    getPromptCommands,
+    findPromptCommand,
+    expandPromptCommand,
+    formatPromptUsage,
+    type PromptCommand,
+} from '../../mcp/prompts.js';
+import { expandResourceMentions } from '../../mcp/attachments.js';
+import {
+    findPluginCommand,
+    runPluginCommand,
+    getLoadedPlugins,
+    formatPluginSummary,
+    type PluginCommandResult,
+} from '../../mcp/plugins.js';
+import { onShellOutput, abortShellCommands, type ShellOutputEvent } from '../../mcp/system.js';
+import { onReloginRequired } from '../../api/token.js';
+import { SessionTranscript, getConversationHistory, getSessionHistoryPage } from '../../agent/sessions.js';
+import { exportSession, parseExportArgs } from '../../agent/session-export.js';
+import { CLI_MODEL_TIERS, getInferenceProviderName, isCliModelTier, type ConversationMessage } from '../../agent/provider.js';
+import {
+    setApprovalHandler,
+    parseApprovalAnswer,
+    type ApprovalRequest,
+    type ApprovalDecision,
+} from '../../mcp/permissions.js';
 
 /**
  * Command result type
@@ -73,6 +104,10 @@ const AVAILABLE_COMMANDS = [
     '/debug',
     '/raw',
     '/mcp',
+    '/jobs',
+    '/model',
+    '/history',
+    '/export',
 ];
 
 /**
@@ -87,8 +122,12 @@ export interface TerminalAppOptions {
         args: Record<string, unknown>
     ) => Promise<McpToolResult>;
     debug?: boolean;
+    /** Connected MCP client, for prompt commands and @server:uri attachments */
+    mcpClient?: McpClient;
     wechatService?: import('../../wechat/service.js').WechatGatewayService;
     modelTier?: 'lite' | 'flash' | 'pro';
+    /** Stored session to continue (--resume / --continue) */
+    session?: SessionTranscript;
 }
 
 /**
@@ -111,6 +150,16 @@ export class TerminalApp {
     private streamBuffer: string[] = [];
     private currentConversationId: string | null = null;
     private streamingMessageId: string | null = null;
+    private approvalAbort: AbortController | null = null;
+    private activeToolCalls = new Set<string>();
+    private liveOutput: { callId: string; started: boolean; atLineStart: boolean } | null = null;
+    private unsubscribeShellOutput: (() => void) | null = null;
+    private unsubscribeRelogin: (() => void) | null = null;
+    private mcpEventListener: ((event: McpClientEvent) => void) | null = null;
+    private promptCommands: PromptCommand[] = [];
+    private transcript: SessionTranscript;
+    /** Conversation of the resumed session, for providers that keep history in memory */
+    private resumed: { conversationId: string; history: ConversationMessage[] } | null = null;
 
     // MCP tool count
     private get mcpToolCount(): number {
@@ -126,7 +175,8 @@ export class TerminalApp {
      * Handle slash commands
      */
     private handleCommand(input: string): CommandResult {
-        const cmd = input.toLowerCase().trim();
+        const [name = '', ...args] = input.trim().split(/\s+/);
+        const cmd = name.toLowerCase();
 
         switch (cmd) {
             case '/exit':
@@ -144,6 +194,7 @@ export class TerminalApp {
             case '/new':
                 this.currentConversationId = null;
                 this.messages = [];
+                this.transcript = SessionTranscript.create();
                 console.clear();
                 this.printWelcome();
                 console.log(success('  Started new conversation context.'));
@@ -175,6 +226,18 @@ export class TerminalApp {
             case '/mcp':
                 return { handled: true, output: this.getMcpStatus() };
 
+            case '/jobs':
+                return { handled: true, output: this.getJobsStatus() };
+
+            case '/model':
+                return { handled: true, output: this.switchModelTier(args[0]) };
+
+            case '/history':
+                return { handled: true, output: this.getHistoryPage(args[0]) };
+
+            case '/export':
+                return { handled: true, output: this.exportTranscript(args) };
+
             default:
                 return {
                     handled: true,
@@ -183,6 +246,17 @@ export class TerminalApp {
         }
     }
 
+    /**
+     * List prompt commands of connected MCP servers for /help
+     */
+    private getPromptHelpText(): string {
+        if (this.promptCommands.length === 0) return '';
+        const lines = this.promptCommands.map(command =>
+            `  ${success(formatPromptUsage(command))}\n      ${muted(command.description)}`
+        );
+        return `\n${info('MCP Prompts:')}\n${lines.join('\n')}\n`;
+    }
+
     /**
      * Get help text
      */
@@ -197,7 +271,11 @@ ${info('Available Commands:')}
   ${success('/debug')}              Toggle debug mode
   ${success('/raw')}                Toggle raw output mode (no markdown)
   ${success('/mcp')}                Show MCP connection status
-
+  ${success('/jobs')}               List background jobs
+  ${success('/model [tier]')}       Show or switch the model tier (lite, flash, pro)
+  ${success('/history [page]')}     Page through this session's messages and tool calls
+  ${success('/export [format]')}    Save this session to a file (md, json or html)
+${this.getPromptHelpText()}
 ${info('Shortcuts:')}
   ${warning('Ctrl+C')}             Exit or abort current operation
   ${warning('Ctrl+R')}             Search command history
@@ -209,6 +287,75 @@ ${info('Terminal:')}
 `;
     }
 
+    /**
+     * Show the model tier, or switch it for the next messages
+     */
+    private switchModelTier(tier?: string): string {
+        const note = getInferenceProviderName() === 'openai'
+            ? muted('\nThe openai provider uses its configured model; tiers apply to Paean AI.')
+            : '';
+        if (!tier) {
+            const current = this.options.modelTier ?? 'flash';
+            return `Model tier: ${bold(current)} ${muted(`(available: ${CLI_MODEL_TIERS.join(', ')})`)}${note}`;
+        }
+
+        const normalized = tier.toLowerCase();
+        if (!isCliModelTier(normalized)) {
+            return errorColor(`Unknown model tier "${tier}". Use one of: ${CLI_MODEL_TIERS.join(', ')}`);
+        }
+        this.options.modelTier = normalized;
+        return success(`Model tier: ${normalized}`) + note;
+    }
+
+    /**
+     * Get a page of the session history (default: the latest page)
+     */
+    private getHistoryPage(pageArg?: string): string {
+        const requested = pageArg === undefined ? undefined : parseInt(pageArg, 10);
+        if (requested !== undefined && isNaN(requested)) {
+            return errorColor('Usage: /history [page]');
+        }
+
+        const { entries, page, pageCount, total } = getSessionHistoryPage(this.transcript, requested);
+        if (total === 0) {
+            return muted('\nNo messages in this session yet\n');
+        }
+
+        const width = getTerminalWidth();
+        let history = primary(`\nHistory (page ${page}/${pageCount}, ${total} entries):\n\n`);
+        for (const entry of entries) {
+            const time = muted(new Date(entry.timestamp).toLocaleTimeString());
+            if (entry.type === 'tool_call') {
+                const status = entry.isError === undefined ? muted('…') : entry.isError ? errorColor('✗') : success('✓');
+                history += `  ${time}  ${mcpSymbol()} [${entry.server}] ${entry.tool} ${status}\n`;
+                continue;
+            }
+            const text = entry.content.replace(/\s+/g, ' ').trim();
+            const shown = text.length > width - 28 ? `${text.slice(0, Math.max(20, width - 31))}...` : text;
+            const label = entry.role === 'user'
+                ? primary('You      ')
+                : entry.role === 'assistant' ? info('OpenPaean') : errorColor('Error    ');
+            history += `  ${time}  ${label} ${entry.role === 'error' ? errorColor(shown) : shown}\n`;
+        }
+        if (page > 1) {
+            history += muted(`\n  /history ${page - 1} for earlier entries`);
+        }
+        return history;
+    }
+
+    /**
+     * Write the session transcript to a file
+     */
+    private exportTranscript(args: string[]): string {
+        try {
+            const { format, path } = parseExportArgs(args);
+            const written = exportSession(this.transcript, format, path);
+            return success(`Exported session to ${written}`);
+        } catch (err) {
+            return errorColor(`Export failed: ${(err as Error).message}`);
+        }
+    }
+
     // ... existing methods ...
 
     /**
@@ -238,18 +385,27 @@ ${info('Terminal:')}
                     onMcpToolCall: async (callId, serverName, toolName, args) => {
                         return this.handleMcpToolCall(callId, serverName, toolName, args);
                     },
+                    onRedaction: (_callId, toolName, report) => {
+                        this.handleRedaction(toolName, report);
+                    },
                     onDone: (conversationId) => {
                         this.handleStreamDone(conversationId);
                     },
                     onError: (error) => {
                         this.handleError(error);
                     },
+                    onReconnect: (attempt, delayMs) => {
+                        this.handleReconnect(attempt, delayMs);
+                    },
                 },
                 {
                     conversationId: this.currentConversationId || undefined,
                     mcpState: this.options.mcpState,
                     cliMode: this.statusState.isRawMode ? { enabled: true, streamRaw: true, cwd: process.cwd(), platform: process.platform, hostname: os.hostname(), channel: 'cli' } : undefined,
                     modelTier: this.options.modelTier,
+                    history: this.resumed && this.resumed.conversationId === this.currentConversationId
+                        ? this.resumed.history
+                        : undefined,
                 }
             );
 
@@ -277,12 +433,15 @@ ${info('Terminal:')}
                 console.log(muted(`[Context set to ${conversationId}]`));
             }
         }
+        this.transcript.recordConversation(this.currentConversationId);
     }
     constructor(options: TerminalAppOptions = {}) {
         this.options = options;
         this.statusState.mcpToolCount = this.mcpToolCount;
         this.statusState.isDebugMode = options.debug ?? false;
         this.agentService = new AgentService();
+        this.transcript = options.session ?? SessionTranscript.create();
+        this.promptCommands = options.mcpClient ? getPromptCommands(options.mcpClient) : [];
 
         // Create readline interface with completer and history
         this.rl = readline.createInterface({
@@ -305,7 +464,7 @@ ${info('Terminal:')}
     private completer(line: string): [string[], string] {
         // Command completion
         if (line.startsWith('/')) {
-            const matches = AVAILABLE_COMMANDS.filter(cmd =>
+            const matches = [...AVAILABLE_COMMANDS, ...this.promptCommands.map(c => c.name)].filter(cmd =>
                 cmd.toLowerCase().startsWith(line.toLowerCase())
             );
             return [matches, line];
@@ -367,12 +526,50 @@ ${info('Terminal:')}
             }
         });
 
+        // Ask the user before guarded system tools run
+        setApprovalHandler((request) => this.promptApproval(request));
+
+        // Stream shell command output while it runs
+        this.unsubscribeShellOutput = onShellOutput((event) => this.handleShellOutput(event));
+
+        // The access and refresh tokens are both dead (also for WeChat and gateway requests)
+        this.unsubscribeRelogin = onReloginRequired((message) => {
+            console.log(warning(`\n⚠ ${message}`));
+        });
+
+        // Server status, tool list changes, progress and log messages from MCP servers
+        if (this.options.mcpClient) {
+            this.mcpEventListener = (event) => this.handleMcpEvent(event);
+            this.options.mcpClient.on('event', this.mcpEventListener);
+            // Servers connect in the background and may have come up already
+            this.options.mcpState = this.options.mcpClient.getMcpState();
+            this.statusState.mcpToolCount = this.mcpToolCount;
+            this.promptCommands = getPromptCommands(this.options.mcpClient);
+        }
+
         // Subscribe to WeChat service events
         this.setupWechatListener();
 
         // Show welcome message
         this.printWelcome();
 
+        // Re-render the history of a resumed session
+        if (this.options.session) {
+            this.replaySession(this.options.session);
+        }
+
+        // Report servers that failed and tool name clashes from before the session started
+        for (const state of this.options.mcpClient?.getServerStates() || []) {
+            if (state.status === 'failed') {
+                console.log(warning(`  ${this.describeServerState(state)}`));
+            }
+        }
+        for (const collision of this.options.mcpClient?.getToolCollisions() || []) {
+            if (collision.kind === 'renamed') {
+                console.log(warning(`  ⚠️  ${formatToolCollision(collision)}`));
+            }
+        }
+
         // Show status hints
         this.showStatusHints();
 
@@ -442,6 +639,32 @@ ${info('Terminal:')}
         });
     }
 
+    /**
+     * Ask the user to approve a guarded tool call
+     */
+    private promptApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+        return new Promise((resolve) => {
+            const controller = new AbortController();
+            this.approvalAbort = controller;
+
+            controller.signal.addEventListener('abort', () => {
+                this.approvalAbort = null;
+                resolve('deny');
+            }, { once: true });
+
+            process.stdout.write(`\n${warning('⚠')} ${bold('Permission required')} ${muted(`(${request.toolName})`)}\n`);
+            process.stdout.write(`  ${request.summary}\n`);
+
+            const choices = `${primary('[y]')} once  ${primary('[s]')} session  ${primary('[p]')} always for project  ${primary('[n]')} deny`;
+            this.rl.question(`  ${choices}: `, { signal: controller.signal }, (answer) => {
+                this.approvalAbort = null;
+                const decision = parseApprovalAnswer(answer);
+                process.stdout.write(decision === 'deny' ? `  ${errorColor('✗ Denied')}\n` : `  ${success('✓ Approved')}\n`);
+                resolve(decision);
+            });
+        });
+    }
+
     /**
      * Print welcome message
      */
@@ -458,6 +681,9 @@ ${info('Terminal:')}
         // Show active channels
         const channels: string[] = [];
         if (this.mcpToolCount > 0) channels.push(`⚡ ${this.mcpToolCount} MCP tools`);
+        const connecting = this.options.mcpClient?.getServerStates()
+            .filter(state => state.status === 'connecting').length || 0;
+        if (connecting > 0) channels.push(`⋯ connecting to ${connecting} MCP server${connecting > 1 ? 's' : ''}`);
         if (this.options.wechatService) channels.push('💬 WeChat channel');
         if (channels.length > 0) {
             console.log(success(`  ${channels.join(' · ')}`));
@@ -504,6 +730,57 @@ ${info('Terminal:')}
             return;
         }
 
+        // Prompt commands from MCP servers (/server:prompt args)
+        const promptCall = input.startsWith('/') ? findPromptCommand(input, this.promptCommands) : undefined;
+        if (promptCall && this.options.mcpClient) {
+            let message: string;
+            try {
+                message = await expandPromptCommand(this.options.mcpClient, promptCall.command, promptCall.rawArgs);
+            } catch (err) {
+                console.log(errorColor(`${promptCall.command.name}: ${(err as Error).message}`));
+                this.rl.prompt();
+                return;
+            }
+            console.log(muted(`  ↳ ${promptCall.command.serverName} prompt "${promptCall.command.promptName}"`));
+            this.addMessage({
+                id: this.generateId(),
+                type: 'user',
+                content: message,
+                timestamp: Date.now(),
+            });
+            await this.processMessage(message);
+            return;
+        }
+
+        // Slash commands contributed by plugins
+        const pluginCall = input.startsWith('/') ? findPluginCommand(input) : undefined;
+        if (pluginCall) {
+            let result: PluginCommandResult;
+            try {
+                result = await runPluginCommand(pluginCall.name, pluginCall.rawArgs);
+            } catch (err) {
+                console.log(errorColor((err as Error).message));
+                this.rl.prompt();
+                return;
+            }
+            if (result && typeof result === 'object') {
+                console.log(muted(`  ↳ plugin "${pluginCall.plugin}"`));
+                this.addMessage({
+                    id: this.generateId(),
+                    type: 'user',
+                    content: result.message,
+                    timestamp: Date.now(),
+                });
+                await this.processMessage(result.message);
+                return;
+            }
+            if (result) {
+                console.log(result);
+            }
+            this.rl.prompt();
+            return;
+        }
+
         // Check for slash commands
         if (input.startsWith('/')) {
             const result = this.handleCommand(input);
@@ -528,8 +805,21 @@ ${info('Terminal:')}
             timestamp: Date.now(),
         });
 
+        // Attach resources mentioned as @server:uri
+        let message = input;
+        if (this.options.mcpClient) {
+            const expanded = await expandResourceMentions(input, this.options.mcpClient);
+            for (const mention of expanded.attached) {
+                console.log(muted(`  📎 ${mention.raw}`));
+            }
+            for (const error of expanded.errors) {
+                console.log(warning(`  Could not attach ${error}`));
+            }
+            message = expanded.message;
+        }
+
         // Process the message (readline already shows the input, no need to echo)
-        await this.processMessage(input);
+        await this.processMessage(message);
     }
 
 
@@ -539,15 +829,62 @@ ${info('Terminal:')}
      */
     private getMcpStatus(): string {
         const servers = this.options.mcpState?.mcpServers || [];
+        const unavailable = (this.options.mcpClient?.getServerStates() || [])
+            .filter(state => state.status !== 'connected');
+
+        const plugins = getLoadedPlugins();
 
-        if (servers.length === 0) {
+        if (servers.length === 0 && unavailable.length === 0 && plugins.length === 0) {
             return muted('\nNo MCP servers connected\n');
         }
 
         let status = primary('\nMCP Connections:\n\n');
+        const resources = this.options.mcpClient?.getAllResources();
+        const prompts = this.options.mcpClient?.getAllPrompts();
         for (const server of servers) {
             const toolCount = server.tools?.length || 0;
-            status += `  ${success('●')} ${server.name}: ${toolCount} tools\n`;
+            const extras = [
+                resources?.has(server.name) ? `${resources.get(server.name)!.length} resources` : '',
+                prompts?.has(server.name) ? `${prompts.get(server.name)!.length} prompts` : '',
+            ].filter(Boolean);
+            status += `  ${success('●')} ${server.name}: ${[`${toolCount} tools`, ...extras].join(', ')}\n`;
+        }
+        for (const state of unavailable) {
+            const symbol = state.status === 'connecting' || state.status === 'reconnecting'
+                ? warning('●')
+                : errorColor('●');
+            status += `  ${symbol} ${state.name}: ${state.status}${state.error ? muted(` (${state.error})`) : ''}\n`;
+        }
+        if (plugins.length > 0) {
+            status += primary('\nPlugins:\n\n');
+            for (const plugin of plugins) {
+                const symbol = plugin.status === 'loaded' ? success('●') : errorColor('●');
+                status += `  ${symbol} ${formatPluginSummary(plugin)}\n`;
+            }
+        }
+        return status;
+    }
+
+    /**
+     * Get background job list
+     */
+    private getJobsStatus(): string {
+        const jobs = listBackgroundJobs();
+
+        if (jobs.length === 0) {
+            return muted('\nNo background jobs\n');
+        }
+
+        let status = primary('\nBackground Jobs:\n\n');
+        for (const job of jobs) {
+            const symbol = job.status === 'running'
+                ? success('●')
+                : job.status === 'exited' && job.exitCode === 0 ? muted('○') : errorColor('●');
+            const state = job.status === 'running'
+                ? `running, PID ${job.pid}`
+                : job.signal ? `${job.status} (${job.signal})` : `${job.status} (exit ${job.exitCode ?? '?'})`;
+            status += `  ${symbol} ${bold(job.id)} ${job.command}\n`;
+            status += muted(`      ${state} · ${job.lineCount} lines · ${job.logFile}\n`);
         }
         return status;
     }
@@ -622,24 +959,216 @@ ${info('Terminal:')}
         // Newline before MCP tool indicator
         process.stdout.write(`\n${mcpSymbol()} [${serverName}] ${toolName}...`);
 
+        this.activeToolCalls.add(callId);
+        this.liveOutput = { callId, started: false, atLineStart: true };
+        this.transcript.recordToolCall(callId, serverName, toolName, args);
+
         try {
-            const result = await this.options.onMcpToolCall(callId, serverName, toolName, args);
+            const onMcpToolCall = this.options.onMcpToolCall;
+            const result = await auditToolCall(
+                { channel: 'cli', conversationId: this.currentConversationId, callId, serverName, toolName, args },
+                () => onMcpToolCall(callId, serverName, toolName, args),
+            );
+            this.endLiveOutput(callId);
+            this.transcript.recordToolResult(callId, toolName, result);
             if (result.isError) {
                 process.stdout.write(' ' + errorColor('✗') + '\n');
             } else {
                 process.stdout.write(' ' + success('✓') + '\n');
+                if (toolName === 'paean_edit_file') {
+                    this.printEditDiff(result);
+                }
             }
             return result;
         } catch (err) {
+            this.endLiveOutput(callId);
             process.stdout.write(' ' + errorColor('✗') + '\n');
-            return {
+            const result: McpToolResult = {
                 content: [{ type: 'text', text: (err as Error).message }],
                 isError: true,
             };
+            this.transcript.recordToolResult(callId, toolName, result);
+            return result;
+        } finally {
+            this.activeToolCalls.delete(callId);
+        }
+    }
+
+    /**
+     * Show what was redacted from a tool result (debug mode only)
+     */
+    private handleRedaction(toolName: string, report: RedactionReport): void {
+        if (!this.statusState.isDebugMode) return;
+        console.log(muted(`  [${toolName}] ${formatRedactionReport(report)}`));
+    }
+
+    /**
+     * Print partial output of the shell command the agent is running
+     */
+    private handleShellOutput(event: ShellOutputEvent): void {
+        if (!event.callId) return;
+        this.writeLiveOutput(event.callId, event.chunk, event.stream === 'stderr' ? warning : muted);
+    }
+
+    /**
+     * Write indented output below the indicator of a running tool call
+     */
+    private writeLiveOutput(callId: string, chunk: string, color: (text: string) => string): boolean {
+        const live = this.liveOutput;
+        if (!live || callId !== live.callId) return false;
+
+        if (!live.started) {
+            process.stdout.write('\n');
+            live.started = true;
         }
+
+        const text = chunk.replace(/\r\n/g, '\n');
+        let formatted = '';
+        for (const char of text) {
+            if (live.atLineStart && char !== '\n') formatted += '  ';
+            formatted += char;
+            live.atLineStart = char === '\n';
+        }
+        process.stdout.write(color(formatted));
+        return true;
     }
 
+    /**
+     * React to MCP server notifications
+     */
+    private handleMcpEvent(event: McpClientEvent): void {
+        const client = this.options.mcpClient;
+        if (!client) return;
+
+        switch (event.type) {
+            case 'server_status': {
+                this.options.mcpState = client.getMcpState();
+                this.statusState.mcpToolCount = this.mcpToolCount;
+                this.promptCommands = getPromptCommands(client);
+
+                const { state } = event;
+                // Repeated reconnect attempts are only shown in debug mode
+                const quiet = state.status === 'connecting' ||
+                    (state.status === 'reconnecting' && (state.attempt ?? 1) > 1 && !this.statusState.isDebugMode);
+                if (!quiet) {
+                    this.printNotice(this.describeServerState(state), state.status === 'connected' ? success : warning);
+                }
+                break;
+            }
+
+            case 'warning':
+                this.printNotice(`⚠️  ${event.message}`, warning);
+                break;
 
+            case 'tools_changed':
+                this.options.mcpState = client.getMcpState();
+                this.statusState.mcpToolCount = this.mcpToolCount;
+                if (this.statusState.isDebugMode) {
+                    this.printNotice(`[${event.serverName}] tool list changed (${event.tools.length} tools)`);
+                }
+                break;
+
+            case 'prompts_changed':
+                this.promptCommands = getPromptCommands(client);
+                break;
+
+            case 'progress': {
+                if (!event.callId) break;
+                const percent = event.total ? ` ${Math.round((event.progress / event.total) * 100)}%` : '';
+                const count = event.total ? ` (${event.progress}/${event.total})` : ` (${event.progress})`;
+                this.writeLiveOutput(event.callId, `⋯${percent}${event.message ? ` ${event.message}` : ''}${count}\n`, muted);
+                break;
+            }
+
+            case 'log': {
+                if (!this.statusState.isDebugMode) break;
+                const line = `[${event.serverName} ${event.level}] ${event.message}`;
+                const color = ['error', 'critical', 'alert', 'emergency'].includes(event.level) ? errorColor : muted;
+                if (!this.liveOutput || !this.writeLiveOutput(this.liveOutput.callId, `${line}\n`, color)) {
+                    this.printNotice(line, color);
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * One-line description of an MCP server's connection status
+     */
+    private describeServerState(state: McpServerState): string {
+        switch (state.status) {
+            case 'connected': {
+                const latency = state.latencyMs !== undefined ? `, ${state.latencyMs}ms` : '';
+                return `✓ MCP server ${state.name} connected (${state.toolCount} tools${latency})`;
+            }
+            case 'connecting':
+                return `⋯ MCP server ${state.name} connecting...`;
+            case 'reconnecting': {
+                const retry = state.retryInMs !== undefined ? ` in ${Math.ceil(state.retryInMs / 1000)}s` : '';
+                return `↻ MCP server ${state.name} lost (${state.error}), reconnecting${retry} (attempt ${state.attempt})`;
+            }
+            case 'failed':
+                return `⚠️  MCP server ${state.name} failed: ${state.error}`;
+            case 'disconnected':
+                return `⚠️  MCP server ${state.name} disconnected: ${state.error}`;
+        }
+    }
+
+    /**
+     * Print a notice line without breaking the prompt or a tool indicator
+     */
+    private printNotice(text: string, color: (text: string) => string = muted): void {
+        if (this.isProcessing) {
+            process.stdout.write(`\n${color(text)}\n`);
+        } else {
+            process.stdout.write(`\r\x1b[K${color(text)}\n`);
+            this.rl.prompt(true);
+        }
+    }
+
+    /**
+     * Finish the live output block so the result marker starts on its own line
+     */
+    private endLiveOutput(callId: string): void {
+        const live = this.liveOutput;
+        if (!live || live.callId !== callId) return;
+        this.liveOutput = null;
+        if (live.started) {
+            process.stdout.write(`${live.atLineStart ? '' : '\n'}  ${muted('→')}`);
+        }
+    }
+
+
+
+    /**
+     * Print the unified diff returned by paean_edit_file with colors
+     */
+    private printEditDiff(result: McpToolResult): void {
+        let diff: string | undefined;
+        try {
+            diff = (JSON.parse(result.content[0]?.text || '{}') as { diff?: string }).diff;
+        } catch {
+            return;
+        }
+        if (!diff) return;
+
+        const lines = diff.split('\n').map((line) => {
+            if (line.startsWith('+++') || line.startsWith('---')) return bold(line);
+            if (line.startsWith('@@')) return info(line);
+            if (line.startsWith('+')) return success(line);
+            if (line.startsWith('-')) return errorColor(line);
+            return muted(line);
+        });
+        process.stdout.write(lines.map(line => `  ${line}`).join('\n') + '\n');
+    }
+
+    /**
+     * Handle a dropped stream that is being resumed
+     */
+    private handleReconnect(attempt: number, delayMs: number): void {
+        const seconds = (delayMs / 1000).toFixed(1);
+        console.log(warning(`\n⚠ Connection lost, reconnecting in ${seconds}s (attempt ${attempt})...`));
+    }
 
     /**
      * Handle error
@@ -658,6 +1187,8 @@ ${info('Terminal:')}
      * Abort current processing
      */
     private abortProcessing(): void {
+        this.approvalAbort?.abort();
+        abortShellCommands(this.activeToolCalls);
         if (this.currentAbort) {
             this.currentAbort();
             this.currentAbort = null;
@@ -673,6 +1204,49 @@ ${info('Terminal:')}
      */
     private addMessage(message: Message): void {
         this.messages.push(message);
+        if (message.type === 'user' || message.type === 'assistant' || message.type === 'error') {
+            this.transcript.recordMessage(message.type, message.content);
+        }
+    }
+
+    /**
+     * Print the history of a resumed session and continue its conversation
+     */
+    private replaySession(session: SessionTranscript): void {
+        const results = new Map<string, boolean>();
+        for (const record of session.getRecords()) {
+            if (record.type === 'tool_result') results.set(record.callId, record.isError);
+        }
+
+        console.log(muted(`  Resuming session ${session.id}\n`));
+        for (const record of session.getRecords()) {
+            if (record.type === 'message') {
+                // Pushed directly: these are already in the transcript
+                this.messages.push({
+                    id: this.generateId(),
+                    type: record.role,
+                    content: record.content,
+                    timestamp: Date.parse(record.timestamp),
+                });
+                if (record.role === 'user') {
+                    console.log(`${primary('◉ ')}${record.content}`);
+                } else if (record.role === 'assistant') {
+                    console.log(`\n${getCompactLogo()}: ${record.content}\n`);
+                } else {
+                    console.log(styledMessage('error', `Error: ${record.content}\n`));
+                }
+            } else if (record.type === 'tool_call') {
+                const isError = results.get(record.callId);
+                const status = isError === undefined ? muted('…') : isError ? errorColor('✗') : success('✓');
+                console.log(`${mcpSymbol()} [${record.server}] ${record.tool}... ${status}`);
+            }
+        }
+
+        this.currentConversationId = session.conversationId;
+        if (session.conversationId) {
+            this.resumed = { conversationId: session.conversationId, history: getConversationHistory(session) };
+        }
+        console.log(muted('  ── end of resumed history ──\n'));
     }
 
     /**
@@ -695,6 +1269,14 @@ ${info('Terminal:')}
      * Cleanup resources
      */
     private cleanup(): void {
+        setApprovalHandler(null);
+        this.unsubscribeShellOutput?.();
+        this.unsubscribeRelogin?.();
+        if (this.mcpEventListener) {
+            this.options.mcpClient?.off('event', this.mcpEventListener);
+        }
+        abortShellCommands(this.activeToolCalls);
+        this.approvalAbort?.abort();
         this.rl.close();
         showCursor();
     }
@@ -22,9 +22,29 @@ export interface OpenPaeanConfig {
   // Device / Session
   deviceSessionId?: string;
 
+  // Inference backend: Paean AI cloud (default) or an OpenAI-compatible server
+  provider?: "paean" | "openai";
+  openai?: {
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+    maxToolRounds?: number;
+  };
+
   // User Preferences
   defaultPriority?: "high" | "medium" | "low";
   outputFormat?: "table" | "json" | "minimal";
+
+  // Filesystem sandbox for local tools
+  workspaceRoots?: string[];
+  sensitivePaths?: string[];
+
+  // Redaction of tool results before they leave the machine
+  redaction?: {
+    enabled?: boolean;
+    disabledDetectors?: string[];
+    rules?: Array<{ name: string; pattern: string; flags?: string }>;
+  };
 }
 
 // Support environment variable overrides for API URLs
@@ -49,8 +69,39 @@ const config = new Conf<OpenPaeanConfig>({
     apiUrl: { type: "string" },
     webUrl: { type: "string" },
     deviceSessionId: { type: "string" },
+    provider: { type: "string", enum: ["paean", "openai"] },
+    openai: {
+      type: "object",
+      properties: {
+        baseUrl: { type: "string" },
+        apiKey: { type: "string" },
+        model: { type: "string" },
+        maxToolRounds: { type: "number" },
+      },
+    },
     defaultPriority: { type: "string", enum: ["high", "medium", "low"] },
     outputFormat: { type: "string", enum: ["table", "json", "minimal"] },
+    workspaceRoots: { type: "array", items: { type: "string" } },
+    sensitivePaths: { type: "array", items: { type: "string" } },
+    redaction: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        disabledDetectors: { type: "array", items: { type: "string" } },
+        rules: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              pattern: { type: "string" },
+              flags: { type: "string" },
+            },
+            required: ["name", "pattern"],
+          },
+        },
+      },
+    },
   },
 });
 
@@ -0,0 +1,140 @@
+/**
+ * Unified diff utilities
+ * Line-based diffing for file edit previews
+ */
+
+/**
+ * Diff options
+ */
+export interface UnifiedDiffOptions {
+    fromFile?: string;
+    toFile?: string;
+    /** Number of unchanged context lines around each hunk (default: 3) */
+    context?: number;
+}
+
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string };
+
+/** Above this many LCS cells the changed region is treated as a full replacement */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compute line operations between two texts.
+ * Common prefix/suffix are trimmed first so localized edits stay cheap.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+    let start = 0;
+    while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+        start++;
+    }
+
+    let oldEnd = oldLines.length;
+    let newEnd = newLines.length;
+    while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+        oldEnd--;
+        newEnd--;
+    }
+
+    const ops: DiffOp[] = oldLines.slice(0, start).map(line => ({ type: 'equal', line }));
+    const a = oldLines.slice(start, oldEnd);
+    const b = newLines.slice(start, newEnd);
+
+    if (a.length * b.length > MAX_LCS_CELLS) {
+        ops.push(...a.map(line => ({ type: 'delete' as const, line })));
+        ops.push(...b.map(line => ({ type: 'insert' as const, line })));
+    } else {
+        // LCS table (suffix lengths)
+        const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                table[i][j] = a[i] === b[j]
+                    ? table[i + 1][j + 1] + 1
+                    : Math.max(table[i + 1][j], table[i][j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < a.length && j < b.length) {
+            if (a[i] === b[j]) {
+                ops.push({ type: 'equal', line: a[i] });
+                i++;
+                j++;
+            } else if (table[i + 1][j] >= table[i][j + 1]) {
+                ops.push({ type: 'delete', line: a[i++] });
+            } else {
+                ops.push({ type: 'insert', line: b[j++] });
+            }
+        }
+        while (i < a.length) ops.push({ type: 'delete', line: a[i++] });
+        while (j < b.length) ops.push({ type: 'insert', line: b[j++] });
+    }
+
+    ops.push(...oldLines.slice(oldEnd).map(line => ({ type: 'equal' as const, line })));
+    return ops;
+}
+
+/**
+ * Create a unified diff between two texts.
+ * Returns an empty string when the texts are identical.
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+    const { fromFile = 'a', toFile = 'b', context = 3 } = options;
+    if (oldText === newText) return '';
+
+    const ops = diffLines(oldText.split('\n'), newText.split('\n'));
+    const lines: string[] = [`--- ${fromFile}`, `+++ ${toFile}`];
+
+    let index = 0;
+    while (index < ops.length) {
+        // Find the next change
+        while (index < ops.length && ops[index].type === 'equal') index++;
+        if (index >= ops.length) break;
+
+        // Extend the hunk while changes are within 2 * context lines of each other
+        const hunkStart = Math.max(0, index - context);
+        let hunkEnd = index;
+        let lastChange = index;
+        while (hunkEnd < ops.length) {
+            if (ops[hunkEnd].type !== 'equal') {
+                lastChange = hunkEnd;
+            } else if (hunkEnd - lastChange > context * 2) {
+                break;
+            }
+            hunkEnd++;
+        }
+        hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+        // Line numbers at hunk start
+        let oldLine = 1;
+        let newLine = 1;
+        for (let k = 0; k < hunkStart; k++) {
+            if (ops[k].type !== 'insert') oldLine++;
+            if (ops[k].type !== 'delete') newLine++;
+        }
+
+        const body: string[] = [];
+        let oldCount = 0;
+        let newCount = 0;
+        for (let k = hunkStart; k < hunkEnd; k++) {
+            const op = ops[k];
+            if (op.type === 'equal') {
+                body.push(` ${op.line}`);
+                oldCount++;
+                newCount++;
+            } else if (op.type === 'delete') {
+                body.push(`-${op.line}`);
+                oldCount++;
+            } else {
+                body.push(`+${op.line}`);
+                newCount++;
+            }
+        }
+
+        lines.push(`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`);
+        lines.push(...body);
+        index = hunkEnd;
+    }
+
+    return lines.join('\n');
+}
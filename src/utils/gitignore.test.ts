@@ -0,0 +1,70 @@
+/**
+ * .gitignore parsing and matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { isIgnored, parseGitignore } from './gitignore.js';
+
+describe('gitignore', () => {
+    const root = join('/', 'repo');
+    const at = (...parts: string[]) => join(root, ...parts);
+
+    it('matches patterns without a slash at any depth', () => {
+        const rules = [parseGitignore('*.log\nnode_modules\n', root)];
+        expect(isIgnored(at('debug.log'), false, rules)).toBe(true);
+        expect(isIgnored(at('a', 'b', 'debug.log'), false, rules)).toBe(true);
+        expect(isIgnored(at('packages', 'x', 'node_modules'), true, rules)).toBe(true);
+        expect(isIgnored(at('logs.txt'), false, rules)).toBe(false);
+    });
+
+    it('anchors patterns with a leading or inner slash', () => {
+        const rules = [parseGitignore('/build\ndocs/generated\n', root)];
+        expect(isIgnored(at('build'), true, rules)).toBe(true);
+        expect(isIgnored(at('src', 'build'), true, rules)).toBe(false);
+        expect(isIgnored(at('docs', 'generated'), true, rules)).toBe(true);
+        expect(isIgnored(at('src', 'docs', 'generated'), true, rules)).toBe(false);
+    });
+
+    it('applies trailing-slash patterns to directories only', () => {
+        const rules = [parseGitignore('out/\n', root)];
+        expect(isIgnored(at('out'), true, rules)).toBe(true);
+        expect(isIgnored(at('out'), false, rules)).toBe(false);
+    });
+
+    it('lets the last matching rule decide, including negations', () => {
+        const rules = [parseGitignore('*.env\n!example.env\n', root)];
+        expect(isIgnored(at('prod.env'), false, rules)).toBe(true);
+        expect(isIgnored(at('example.env'), false, rules)).toBe(false);
+    });
+
+    it('supports character classes', () => {
+        const rules = [parseGitignore('*.py[co]\n[Bb]uild/\n', root)];
+        expect(isIgnored(at('pkg', 'mod.pyc'), false, rules)).toBe(true);
+        expect(isIgnored(at('pkg', 'mod.pyo'), false, rules)).toBe(true);
+        expect(isIgnored(at('pkg', 'mod.py'), false, rules)).toBe(false);
+        expect(isIgnored(at('Build'), true, rules)).toBe(true);
+        expect(isIgnored(at('app', 'build'), true, rules)).toBe(true);
+        expect(isIgnored(at('rebuild'), true, rules)).toBe(false);
+    });
+
+    it('skips comments and blank lines and honours escapes', () => {
+        const { rules } = parseGitignore('# comment\n\n\\#notes\n\\!important\ntrailing   \n', root);
+        expect(rules).toHaveLength(3);
+        const ruleSets = [{ baseDir: root, rules }];
+        expect(isIgnored(at('#notes'), false, ruleSets)).toBe(true);
+        expect(isIgnored(at('!important'), false, ruleSets)).toBe(true);
+        expect(isIgnored(at('trailing'), false, ruleSets)).toBe(true);
+    });
+
+    it('scopes nested ignore files to their directory', () => {
+        const rules = [
+            parseGitignore('*.tmp\n', root),
+            parseGitignore('/fixtures\n!keep.tmp\n', at('test')),
+        ];
+        expect(isIgnored(at('test', 'fixtures'), true, rules)).toBe(true);
+        expect(isIgnored(at('fixtures'), true, rules)).toBe(false);
+        expect(isIgnored(at('test', 'keep.tmp'), false, rules)).toBe(false);
+        expect(isIgnored(at('other', 'keep.tmp'), false, rules)).toBe(true);
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * .gitignore support
+ * Parses ignore files and answers "is this path ignored?" during traversal
+ */
+
+import { readFile } from 'fs/promises';
+import { join, relative, sep } from 'path';
+import { globToRegExp } from './glob.js';
+
+interface IgnoreRule {
+    regex: RegExp;
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+/**
+ * Rules from a single ignore file, anchored at the directory containing it
+ */
+export interface IgnoreRuleSet {
+    baseDir: string;
+    rules: IgnoreRule[];
+}
+
+/**
+ * Parse the contents of a .gitignore file
+ */
+export function parseGitignore(content: string, baseDir: string): IgnoreRuleSet {
+    const rules: IgnoreRule[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (!line || line.startsWith('#')) continue;
+
+        let negated = false;
+        if (line.startsWith('!')) {
+            negated = true;
+            line = line.slice(1);
+        } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+            line = line.slice(1);
+        }
+
+        let directoryOnly = false;
+        if (line.endsWith('/')) {
+            directoryOnly = true;
+            line = line.slice(0, -1);
+        }
+        if (!line) continue;
+
+        // A slash at the start or in the middle anchors the pattern to baseDir
+        const anchored = line.includes('/');
+        if (line.startsWith('/')) line = line.slice(1);
+
+        const pattern = anchored || line.startsWith('**/') ? line : `**/${line}`;
+        rules.push({
+            regex: globToRegExp(pattern, { pathMode: true }),
+            negated,
+            directoryOnly,
+        });
+    }
+
+    return { baseDir, rules };
+}
+
+/**
+ * Load the .gitignore file in a directory, if any
+ */
+export async function loadGitignore(dir: string): Promise<IgnoreRuleSet | null> {
+    try {
+        const content = await readFile(join(dir, '.gitignore'), 'utf-8');
+        const ruleSet = parseGitignore(content, dir);
+        return ruleSet.rules.length > 0 ? ruleSet : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Check a path against a stack of rule sets (outermost first).
+ * Later rules win, matching git's "last match decides" behaviour.
+ */
+export function isIgnored(path: string, isDirectory: boolean, ruleSets: IgnoreRuleSet[]): boolean {
+    let ignored = false;
+
+    for (const ruleSet of ruleSets) {
+        const rel = relative(ruleSet.baseDir, path).split(sep).join('/');
+        if (!rel || rel.startsWith('..')) continue;
+
+        for (const rule of ruleSet.rules) {
+            if (rule.directoryOnly && !isDirectory) continue;
+            if (rule.regex.test(rel)) {
+                ignored = !rule.negated;
+            }
+        }
+    }
+
+    return ignored;
+}
@@ -0,0 +1,85 @@
+/**
+ * Glob matching for permission rules, the sandbox and the search tools
+ */
+
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchGlob, escapeGlob } from './glob.js';
+
+describe('matchGlob', () => {
+    it('lets * cross slashes only outside path mode', () => {
+        expect(matchGlob('npm run *', 'npm run test -- --watch=false')).toBe(true);
+        expect(matchGlob('src/*', 'src/a/b.ts')).toBe(true);
+        expect(matchGlob('src/*', 'src/a/b.ts', { pathMode: true })).toBe(false);
+        expect(matchGlob('src/*', 'src/a.ts', { pathMode: true })).toBe(true);
+    });
+
+    it('matches zero or more directories with **/', () => {
+        const pattern = 'src/**/*.ts';
+        expect(matchGlob(pattern, 'src/a.ts', { pathMode: true })).toBe(true);
+        expect(matchGlob(pattern, 'src/a/b/c.ts', { pathMode: true })).toBe(true);
+        expect(matchGlob(pattern, 'lib/a.ts', { pathMode: true })).toBe(false);
+        expect(matchGlob('src/**', 'src/a/b', { pathMode: true })).toBe(true);
+    });
+
+    it('matches ? against one character within a segment', () => {
+        expect(matchGlob('file?.txt', 'file1.txt', { pathMode: true })).toBe(true);
+        expect(matchGlob('file?.txt', 'file12.txt', { pathMode: true })).toBe(false);
+        expect(matchGlob('a?b', 'a/b', { pathMode: true })).toBe(false);
+        expect(matchGlob('a?b', 'a/b')).toBe(true);
+    });
+
+    it('expands {a,b} alternatives', () => {
+        expect(matchGlob('*.{ts,tsx}', 'App.tsx', { pathMode: true })).toBe(true);
+        expect(matchGlob('*.{ts,tsx}', 'App.js', { pathMode: true })).toBe(false);
+        expect(matchGlob('git {status,diff}*', 'git diff --stat')).toBe(true);
+    });
+
+    it('keeps unbalanced braces valid', () => {
+        expect(() => globToRegExp('a{b,c')).not.toThrow();
+        expect(matchGlob('a{b,c', 'ab')).toBe(true);
+    });
+
+    it('supports character classes in path mode', () => {
+        expect(matchGlob('*.py[co]', 'mod.pyc', { pathMode: true })).toBe(true);
+        expect(matchGlob('*.py[co]', 'mod.py', { pathMode: true })).toBe(false);
+        expect(matchGlob('[Bb]uild', 'Build', { pathMode: true })).toBe(true);
+        expect(matchGlob('log[0-9]', 'log7', { pathMode: true })).toBe(true);
+        expect(matchGlob('log[!0-9]', 'log7', { pathMode: true })).toBe(false);
+        expect(matchGlob('log[!0-9]', 'logs', { pathMode: true })).toBe(true);
+        expect(matchGlob('a[!x]b', 'a/b', { pathMode: true })).toBe(false);
+        expect(matchGlob('[]x]', ']', { pathMode: true })).toBe(true);
+    });
+
+    it('treats brackets literally in commands and when a class is invalid', () => {
+        expect(matchGlob('[ -f *', '[ -f package.json ]')).toBe(true);
+        expect(matchGlob('a[b', 'a[b', { pathMode: true })).toBe(true);
+        expect(matchGlob('[z-a]', '[z-a]', { pathMode: true })).toBe(true);
+    });
+
+    it('honours backslash escapes and case-insensitive matching', () => {
+        expect(matchGlob('a\\*b', 'a*b')).toBe(true);
+        expect(matchGlob('a\\*b', 'axb')).toBe(false);
+        expect(matchGlob('*.MD', 'readme.md', { caseInsensitive: true })).toBe(true);
+        expect(matchGlob('*.MD', 'readme.md')).toBe(false);
+    });
+});
+
+describe('escapeGlob', () => {
+    const values = [
+        'rm -rf ./dist/*',
+        'echo {a,b}?',
+        'app/[id]/page.tsx',
+        'C:\\Users\\me',
+        'plain-value',
+    ];
+
+    it('makes a value match only itself', () => {
+        for (const value of values) {
+            expect(matchGlob(escapeGlob(value), value)).toBe(true);
+            expect(matchGlob(escapeGlob(value), value, { pathMode: true })).toBe(true);
+        }
+        expect(matchGlob(escapeGlob('rm -rf ./dist/*'), 'rm -rf ./dist/important')).toBe(false);
+        expect(matchGlob(escapeGlob('app/[id]/page.tsx'), 'app/i/page.tsx', { pathMode: true })).toBe(false);
+        expect(matchGlob(escapeGlob('echo {a,b}?'), 'echo a!')).toBe(false);
+    });
+});
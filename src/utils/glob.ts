@@ -0,0 +1,149 @@
+/**
+ * Glob pattern utilities
+ * Converts glob patterns to regular expressions for path and command matching
+ */
+
+/**
+ * Glob conversion options
+ */
+export interface GlobOptions {
+    /**
+     * Treat the pattern as a path: `*` and `?` stop at `/`, `**` crosses
+     * directories. When false, `*` matches any character (command matching).
+     */
+    pathMode?: boolean;
+    /** Case-insensitive matching */
+    caseInsensitive?: boolean;
+}
+
+/**
+ * Convert a glob pattern to a regular expression.
+ *
+ * Supports `*`, `?`, `**` (path mode), `[abc]` / `[!a-z]` character classes
+ * (path mode), `{a,b}` alternatives and backslash escapes for literal
+ * characters.
+ */
+export function globToRegExp(pattern: string, options: GlobOptions = {}): RegExp {
+    const { pathMode = false, caseInsensitive = false } = options;
+    let source = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === '\\' && i + 1 < pattern.length) {
+            source += escapeRegExp(pattern[++i]);
+            continue;
+        }
+
+        if (char === '*') {
+            if (pathMode && pattern[i + 1] === '*') {
+                // "**/" matches zero or more directories, "**" anything
+                if (pattern[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += pathMode ? '[^/]*' : '.*';
+            }
+            continue;
+        }
+
+        if (char === '?') {
+            source += pathMode ? '[^/]' : '.';
+            continue;
+        }
+
+        // Commands use brackets literally (`[ -f x ]`), so classes are path-only
+        if (char === '[' && pathMode) {
+            const end = findClassEnd(pattern, i);
+            const charClass = end === -1 ? null : classToRegExp(pattern.slice(i + 1, end));
+            if (charClass) {
+                source += charClass;
+                i = end;
+                continue;
+            }
+        }
+
+        if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+            continue;
+        }
+
+        if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+            continue;
+        }
+
+        if (char === ',' && braceDepth > 0) {
+            source += '|';
+            continue;
+        }
+
+        source += escapeRegExp(char);
+    }
+
+    // Unbalanced braces: close them so the regex stays valid
+    source += ')'.repeat(braceDepth);
+
+    return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+}
+
+/**
+ * Test a value against a glob pattern
+ */
+export function matchGlob(pattern: string, value: string, options: GlobOptions = {}): boolean {
+    return globToRegExp(pattern, options).test(value);
+}
+
+/**
+ * Escape glob metacharacters so the value matches only itself
+ */
+export function escapeGlob(value: string): string {
+    return value.replace(/[\\*?{},[\]]/g, '\\$&');
+}
+
+/**
+ * Index of the `]` closing the class opened at `start`, or -1. A `]` right
+ * after the opening bracket (or its negation) is part of the class.
+ */
+function findClassEnd(pattern: string, start: number): number {
+    let i = start + 1;
+    if (pattern[i] === '!' || pattern[i] === '^') i++;
+    if (pattern[i] === ']') i++;
+    for (; i < pattern.length; i++) {
+        if (pattern[i] === '\\') i++;
+        else if (pattern[i] === ']') return i;
+    }
+    return -1;
+}
+
+/**
+ * Regex for the body of a character class; negated classes never match `/`.
+ * Returns null for classes the regex engine rejects (e.g. `[z-a]`).
+ */
+function classToRegExp(body: string): string | null {
+    const negated = body[0] === '!' || body[0] === '^';
+    let chars = '';
+    for (let i = negated ? 1 : 0; i < body.length; i++) {
+        const escaped = body[i] === '\\' && i + 1 < body.length;
+        const char = escaped ? body[++i] : body[i];
+        chars += /[\\\]\[^]/.test(char) || (escaped && char === '-') ? `\\${char}` : char;
+    }
+    const source = negated ? `[^/${chars}]` : `[${chars}]`;
+    try {
+        new RegExp(source);
+        return source;
+    } catch {
+        return null;
+    }
+}
+
+function escapeRegExp(char: string): string {
+    return char.replace(/[.+^${}()|[\]\\*?/]/g, '\\$&');
+}
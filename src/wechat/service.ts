@@ -10,11 +10,14 @@ import os from 'os';
 import { agentService } from '../agent/service.js';
 import type { AgentStreamCallbacks, McpState, McpToolResult } from '../agent/types.js';
 import { executeSystemTool } from '../mcp/system.js';
+import { auditToolCall } from '../mcp/audit.js';
+import { formatRedactionReport } from '../mcp/redaction.js';
 import {
     getUpdates, sendTextMessage, extractText,
     MSG_TYPE_USER,
     type AccountData,
 } from './api.js';
+import { onReloginRequired, RELOGIN_MESSAGE } from '../api/token.js';
 import { loadCredentials, loadSyncBuf, saveSyncBuf, saveContact } from './credentials.js';
 
 export interface WechatGatewayConfig {
@@ -32,6 +35,7 @@ export type WechatGatewayEvent =
     | { type: 'remote_tool_call'; id: string; name: string; serverName?: string; isMcp: boolean }
     | { type: 'remote_tool_result'; id: string; name: string; status: 'completed' | 'error' }
     | { type: 'remote_error'; error: string }
+    | { type: 'auth_expired'; error: string }
     | { type: 'error'; error: string };
 
 const MAX_CONSECUTIVE_FAILURES = 3;
@@ -46,6 +50,7 @@ export class WechatGatewayService extends EventEmitter {
     private onMcpToolCall: unknown = null;
     private contextTokenCache = new Map<string, string>();
     private conversationIdCache = new Map<string, string>();
+    private unsubscribeRelogin: (() => void) | null = null;
 
     constructor(config: WechatGatewayConfig = {}) {
         super();
@@ -64,6 +69,10 @@ export class WechatGatewayService extends EventEmitter {
             return;
         }
         this.running = true;
+        this.unsubscribeRelogin = onReloginRequired((message) => {
+            this.log(message);
+            this.emit('event', { type: 'auth_expired', error: message } as WechatGatewayEvent);
+        });
         this.emit('event', { type: 'started' } as WechatGatewayEvent);
         this.log(`WeChat channel active (account: ${this.account.accountId})`);
         await this.pollLoop();
@@ -71,6 +80,8 @@ export class WechatGatewayService extends EventEmitter {
 
     async stop(): Promise<void> {
         this.running = false;
+        this.unsubscribeRelogin?.();
+        this.unsubscribeRelogin = null;
         this.emit('event', { type: 'stopped' } as WechatGatewayEvent);
     }
 
@@ -134,26 +145,38 @@ export class WechatGatewayService extends EventEmitter {
             onMcpToolCall: async (callId, serverName, toolName, args): Promise<McpToolResult> => {
                 this.emit('event', { type: 'remote_tool_call', id: callId, name: toolName, serverName, isMcp: true } as WechatGatewayEvent);
 
-                let mcpResult: McpToolResult;
-                if (typeof this.onMcpToolCall === 'function') {
-                    try {
-                        mcpResult = await (this.onMcpToolCall as (c: string, s: string, t: string, a: Record<string, unknown>) => Promise<McpToolResult>)(callId, serverName, toolName, args);
-                    } catch (e) {
-                        mcpResult = { content: [{ type: 'text', text: `Error: ${e instanceof Error ? e.message : e}` }], isError: true };
+                const conversationId = this.conversationIdCache.get(senderId);
+                const mcpResult = await auditToolCall({ channel: 'wechat', conversationId, callId, serverName, toolName, args }, async () => {
+                    if (typeof this.onMcpToolCall === 'function') {
+                        try {
+                            return await (this.onMcpToolCall as (c: string, s: string, t: string, a: Record<string, unknown>) => Promise<McpToolResult>)(callId, serverName, toolName, args);
+                        } catch (e) {
+                            return { content: [{ type: 'text', text: `Error: ${e instanceof Error ? e.message : e}` }], isError: true };
+                        }
+                    } else if (toolName.startsWith('paean_')) {
+                        const result = await executeSystemTool(toolName, args, { autonomousMode: true }) as { success: boolean; [k: string]: unknown };
+                        return { content: [{ type: 'text', text: JSON.stringify(result) }], isError: !result.success };
                     }
-                } else if (toolName.startsWith('paean_')) {
-                    const result = await executeSystemTool(toolName, args, { autonomousMode: true }) as { success: boolean; [k: string]: unknown };
-                    mcpResult = { content: [{ type: 'text', text: JSON.stringify(result) }], isError: !result.success };
-                } else {
-                    mcpResult = { content: [{ type: 'text', text: 'MCP not available' }], isError: true };
-                }
+                    return { content: [{ type: 'text', text: 'MCP not available' }], isError: true };
+                });
 
                 this.emit('event', { type: 'remote_tool_result', id: callId, name: toolName, status: mcpResult.isError ? 'error' : 'completed' } as WechatGatewayEvent);
                 return mcpResult;
             },
-            onError: (error: string) => {
+            onRedaction: (_callId, toolName, report) => {
+                this.log(`${toolName}: ${formatRedactionReport(report)}`);
+            },
+            onError: async (error: string) => {
                 this.log(`Agent error: ${error}`);
                 this.emit('event', { type: 'remote_error', error } as WechatGatewayEvent);
+                // Otherwise the sender never hears back
+                const ctx = this.contextTokenCache.get(senderId);
+                if (error === RELOGIN_MESSAGE && ctx && this.account) {
+                    try {
+                        await sendTextMessage(this.account.baseUrl, this.account.token, senderId,
+                            'OpenPaean needs to sign in again on the host machine. Please try later.', ctx);
+                    } catch (e) { this.log(`Send failed: ${e instanceof Error ? e.message : e}`); }
+                }
             },
             onDone: async (convId?: string) => {
                 if (convId) {